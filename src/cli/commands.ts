@@ -3,22 +3,289 @@
 import { Command } from 'commander';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import { once } from 'events';
+import { spawn } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
 import chalk from 'chalk';
-import { ProxyServer } from '../proxy/server.js';
+import WebSocket from 'ws';
+import { ProxyServer, DEFAULT_UPSTREAM, WS_PATH, parseUpstream } from '../proxy/server.js';
+import { createStore, STORAGE_KINDS, type CaptureStore, type StorageKind } from '../storage/store.js';
 import { JSONLStorage } from '../storage/jsonl.js';
+import { collectSessions, selectPairs, stripContent } from '../storage/stream.js';
+import { Redactor, loadRedactionConfig, REDACTION_CONFIG_FILE } from '../storage/redact.js';
+import {
+  parseDuration,
+  parseRotation,
+  parseSize,
+  type RetentionPolicy,
+  type RotationPolicy,
+} from '../storage/rotation.js';
 import {
   extractSystemPrompt,
   analyzeSystemPrompt,
   getConversationStats,
   formatTokenCount,
+  ConversationStatsCollector,
 } from '../parser/messages.js';
 import {
   pairToolCallsWithResults,
+  ToolCallCollector,
   getToolCallFrequency,
+  calculateToolStats,
+  summarizeToolTime,
 } from '../parser/tools.js';
+import { SessionBuilder } from '../parser/sessions.js';
+import { ContextCollector } from '../parser/context.js';
+import { CacheCollector, type CacheMissReason, type RequestCacheInfo } from '../parser/cache.js';
+import { AgentClassifier, AGENT_CONFIG_FILE, loadAgentConfig } from '../parser/agents.js';
+import {
+  summarizeRequest,
+  summarizeResponse,
+  type RequestSummary,
+  type ResponseSummary,
+} from '../parser/captures.js';
+import { loadPricing, summarizeCosts, formatCost } from '../parser/pricing.js';
+import { summarizeLatency, type Percentiles } from '../parser/latency.js';
+import { summarizeErrors } from '../parser/errors.js';
+import { buildSearchIndex, type SearchHit } from '../parser/search.js';
+import {
+  buildPromptRegistry,
+  diffPrompts,
+  findPromptVersion,
+  previousPromptVersion,
+  type PromptVersion,
+} from '../parser/prompts.js';
+import {
+  buildToolCatalog,
+  diffToolSchemas,
+  findToolSetChanges,
+  type ToolSchemaChange,
+} from '../parser/schemas.js';
+import type { DiffHunk } from '../parser/diff.js';
+import type { CapturedRequest, CapturedResponse, RequestResponsePair, TokenUsage } from '../types.js';
 
 const DEFAULT_PORT = 3456;
 const DEFAULT_DATA_DIR = path.join(process.cwd(), 'data');
+const DEFAULT_STORAGE: StorageKind = 'jsonl';
+const STORAGE_OPTION_DESCRIPTION = `Storage backend (${STORAGE_KINDS.join(', ')})`;
+
+function parseStorageKind(value: string): StorageKind {
+  if (!STORAGE_KINDS.includes(value as StorageKind)) {
+    console.error(chalk.red(`\nUnknown storage backend: ${value} (expected ${STORAGE_KINDS.join(' or ')})\n`));
+    process.exit(1);
+  }
+  return value as StorageKind;
+}
+
+function openStore(options: { dataDir: string; storage: string }): CaptureStore {
+  return createStore(parseStorageKind(options.storage), path.resolve(options.dataDir));
+}
+
+function highlightSnippet(hit: SearchHit): string {
+  let result = '';
+  let last = 0;
+  for (const [start, end] of hit.highlights) {
+    result += chalk.gray(hit.snippet.slice(last, start)) + chalk.bold.yellow(hit.snippet.slice(start, end));
+    last = end;
+  }
+  return result + chalk.gray(hit.snippet.slice(last));
+}
+
+function formatLocation(hit: SearchHit): string {
+  switch (hit.location.kind) {
+    case 'system':
+      return 'system';
+    case 'message':
+      return `message ${hit.location.message + 1}, block ${hit.location.block + 1}`;
+    case 'response':
+      return `response block ${hit.location.block + 1}`;
+  }
+}
+
+function printPromptVersion(version: PromptVersion): void {
+  console.log(
+    `  ${chalk.white(version.hash.slice(0, 12))}  ${chalk.cyan(version.agentType.padEnd(10))} ` +
+    chalk.gray(`${(version.text.length / 1000).toFixed(1)}K chars, ${version.sections.length} sections, ${version.requestCount} requests`)
+  );
+  console.log(chalk.gray(
+    `    ${new Date(version.firstSeen).toLocaleString()} → ${new Date(version.lastSeen).toLocaleString()}  ${version.models.join(', ')}`
+  ));
+}
+
+function printHunks(hunks: DiffHunk[], indent: string = ''): void {
+  for (const hunk of hunks) {
+    console.log(indent + chalk.cyan(`@@ -${hunk.fromStart},${hunk.fromCount} +${hunk.toStart},${hunk.toCount} @@`));
+    for (const line of hunk.lines) {
+      if (line.type === 'insert') console.log(indent + chalk.green(`+${line.text}`));
+      else if (line.type === 'delete') console.log(indent + chalk.red(`-${line.text}`));
+      else console.log(`${indent} ${line.text}`);
+    }
+  }
+}
+
+function printToolSchemaChange(change: ToolSchemaChange, indent: string): void {
+  const details = [
+    ...change.addedParams.map((p) => chalk.green(`+${p}`)),
+    ...change.removedParams.map((p) => chalk.red(`-${p}`)),
+    ...change.changedParams.map((p) => chalk.yellow(`~${p}`)),
+  ];
+  if (details.length > 0) console.log(`${indent}params: ${details.join(' ')}`);
+  if (change.addedRequired.length > 0) console.log(chalk.green(`${indent}now required: ${change.addedRequired.join(', ')}`));
+  if (change.removedRequired.length > 0) console.log(chalk.red(`${indent}no longer required: ${change.removedRequired.join(', ')}`));
+  if (change.descriptionHunks.length > 0) {
+    console.log(chalk.gray(`${indent}description:`));
+    printHunks(change.descriptionHunks, indent);
+  }
+  if (change.schemaHunks.length > 0) {
+    console.log(chalk.gray(`${indent}input_schema:`));
+    printHunks(change.schemaHunks, indent);
+  }
+}
+
+function formatPercentiles(label: string, stats: Percentiles | null, unit: string = 'ms'): string {
+  if (!stats) return `${label.padEnd(24)} ${'-'.padStart(10)}`;
+  const cells = [stats.p50, stats.p90, stats.p99, stats.max].map((v) => `${v.toLocaleString()}${unit}`.padStart(10));
+  return `${label.padEnd(24)} ${cells.join(' ')}  (n=${stats.count})`;
+}
+
+function printRequestCache(info: RequestCacheInfo): void {
+  console.log(chalk.bold.cyan(`\n  Prompt Cache: ${info.requestId}\n`));
+  console.log(chalk.gray('  ─'.repeat(30)));
+  console.log(chalk.gray(`\n    ${new Date(info.timestamp).toLocaleString()}  ${info.agentType}  ${info.model}`));
+  console.log(chalk.gray(
+    `    Prompt ${formatTokenCount(info.promptTokens)}: ${formatTokenCount(info.cacheReadTokens)} read, ` +
+    `${formatTokenCount(info.cacheCreationTokens)} written, ` +
+    `${formatTokenCount(info.promptTokens - info.cacheReadTokens - info.cacheCreationTokens)} uncached`
+  ));
+
+  console.log(chalk.white('\n    Breakpoints (estimated prefix tokens):'));
+  if (info.breakpoints.length === 0) {
+    console.log(chalk.gray('      none'));
+  }
+  for (const breakpoint of info.breakpoints) {
+    console.log(chalk.gray(`      ${breakpoint.location.padEnd(28)} ${breakpoint.ttl.padEnd(4)} ${formatTokenCount(breakpoint.prefixTokens).padStart(8)}`));
+  }
+
+  if (info.previousRequestId) {
+    console.log(chalk.gray(`\n    Compared with ${info.previousRequestId}`));
+  }
+  if (info.miss) {
+    const miss = info.miss;
+    console.log(chalk.yellow(`\n    Cache miss: ${miss.reason}, ${formatTokenCount(miss.lostTokens)} tokens re-written (~${formatCost(miss.lostCost)})`));
+    if (miss.divergence) {
+      const { location, offset, before, after } = miss.divergence;
+      const oneLine = (text: string) => JSON.stringify(text).slice(1, -1);
+      console.log(chalk.gray(`    Prompt diverges at ${location}, character ${offset}:`));
+      console.log(chalk.red(`      - ${oneLine(before)}`));
+      console.log(chalk.green(`      + ${oneLine(after)}`));
+    } else {
+      console.log(chalk.gray(`    Prompt prefix unchanged; ${formatDuration(miss.gapMs)} since the previous response`));
+    }
+  } else if (info.previousRequestId) {
+    console.log(chalk.gray('    Cache reused as expected'));
+  }
+  console.log();
+}
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Render ratios between 0 and 1 as a sparkline, keeping the maximum of each
+ * cell when there are more values than cells
+ */
+function formatSparkline(ratios: number[], width: number = 60): string {
+  const cells = Math.min(ratios.length, width);
+  let line = '';
+  for (let cell = 0; cell < cells; cell++) {
+    const bucket = ratios.slice(Math.floor((cell * ratios.length) / cells), Math.floor(((cell + 1) * ratios.length) / cells));
+    const ratio = bucket.reduce((max, value) => Math.max(max, value), 0);
+    line += SPARK_CHARS[Math.min(SPARK_CHARS.length - 1, Math.floor(ratio * SPARK_CHARS.length))];
+  }
+  return line;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function printRunSummary(
+  sessionId: string,
+  pairs: RequestResponsePair[],
+  options: { dataDir: string; pricing?: string; durationMs: number }
+): void {
+  const requests = pairs.map((pair) => pair.request);
+  const responses = pairs.flatMap((pair) => (pair.response ? [pair.response] : []));
+  const stats = getConversationStats(requests, responses);
+  const costs = summarizeCosts(pairs, loadPricing({ file: options.pricing, dataDir: options.dataDir }));
+  const tools = getToolCallFrequency(pairToolCallsWithResults(requests, responses));
+
+  console.log(chalk.bold.cyan('\n  Run Summary\n'));
+  console.log(chalk.gray('  ─'.repeat(30)));
+  console.log(chalk.gray(`\n    Session:         ${sessionId}`));
+  console.log(chalk.gray(`    Duration:        ${formatDuration(options.durationMs)}`));
+  console.log(chalk.gray(`    Requests:        ${pairs.length}`));
+  console.log(chalk.gray(`    Input tokens:    ${formatTokenCount(stats.totalInputTokens)}`));
+  console.log(chalk.gray(`    Output tokens:   ${formatTokenCount(stats.totalOutputTokens)}`));
+  console.log(chalk.gray(`    Cache read:      ${formatTokenCount(stats.cacheReadTokens)}`));
+  console.log(chalk.gray(`    Cache creation:  ${formatTokenCount(stats.cacheCreationTokens)}`));
+  console.log(chalk.gray(`    Estimated cost:  ${formatCost(costs.total)}`));
+  console.log(chalk.gray(`    Tool calls:      ${tools.reduce((sum, tool) => sum + tool.count, 0)}`));
+  for (const { name, count } of tools.slice(0, 10)) {
+    console.log(chalk.gray(`      ${name.padEnd(30)} ${count}`));
+  }
+  if (costs.unpricedModels.length > 0) {
+    console.log(chalk.yellow(`\n    No pricing for: ${costs.unpricedModels.join(', ')} (add them with --pricing)`));
+  }
+
+  if (pairs.length > 0) {
+    console.log(chalk.white('\n  Inspect this run with:'));
+    console.log(chalk.cyan(`    claude-reverse sessions ${sessionId} -d ${options.dataDir}\n`));
+  } else {
+    console.log();
+  }
+}
+
+/** A capture as broadcast by the proxy over its WebSocket */
+type TailEvent =
+  | { type: 'request'; summary: RequestSummary }
+  | { type: 'response'; summary: ResponseSummary };
+
+function formatTailRequest(summary: RequestSummary): string {
+  const results = summary.toolResults.length > 0 ? `  ${summary.toolResults.length} tool results` : '';
+  return [
+    chalk.gray(new Date(summary.timestamp).toLocaleTimeString()),
+    chalk.cyan('→'),
+    chalk.white(summary.id.slice(0, 8)),
+    chalk.magenta(summary.agentType.padEnd(9)),
+    chalk.gray(`${summary.model}  ${summary.messageCount} messages${results}`),
+    chalk.gray(summary.preview.replace(/\s+/g, ' ').slice(0, 60)),
+  ].join(' ');
+}
+
+function formatTailResponse(summary: ResponseSummary, agentType: string | undefined): string {
+  const { usage } = summary;
+  const prompt = usage.input_tokens + (usage.cache_read_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0);
+  const cacheHit = prompt > 0 ? Math.round(((usage.cache_read_input_tokens ?? 0) / prompt) * 100) : 0;
+  const outcome = summary.error
+    ? chalk.red(`${summary.status ?? ''} ${summary.error.type}`.trim())
+    : chalk.gray(
+      `${formatTokenCount(prompt)} in / ${formatTokenCount(usage.output_tokens)} out  cache ${cacheHit}%` +
+      (summary.toolUses.length > 0 ? `  ${chalk.yellow(summary.toolUses.map((t) => t.name).join(', '))}` : '')
+    );
+  return [
+    chalk.gray(new Date(summary.timestamp).toLocaleTimeString()),
+    summary.error ? chalk.red('←') : chalk.green('←'),
+    chalk.white(summary.request_id.slice(0, 8)),
+    chalk.magenta((agentType ?? '?').padEnd(9)),
+    outcome,
+    chalk.gray(`${(summary.duration_ms / 1000).toFixed(1)}s`),
+  ].join(' ');
+}
 
 export function createCLI(): Command {
   const program = new Command();
@@ -26,7 +293,8 @@ export function createCLI(): Command {
   program
     .name('claude-reverse')
     .description('Intercept, log, and visualize Claude Code LLM interactions')
-    .version('1.0.0');
+    .version('1.0.0')
+    .enablePositionalOptions();
 
   // Start command
   program
@@ -34,19 +302,64 @@ export function createCLI(): Command {
     .description('Start the proxy server to intercept Claude Code requests')
     .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_PORT))
     .option('-d, --data-dir <dir>', 'Directory to store captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-u, --upstream <url>', 'Upstream API base URL to forward requests to', DEFAULT_UPSTREAM)
+    .option('--pricing <file>', 'JSON file with model pricing overrides')
+    .option('-r, --replay', 'Answer from captured responses instead of calling the upstream API')
+    .option('--no-redact', 'Store captures verbatim, without masking secrets')
+    .option('--redaction-config <file>', `JSON file with extra redaction rules (default: ${REDACTION_CONFIG_FILE} in the data directory)`)
+    .option('--agent-config <file>', `JSON file with custom agent classification rules (default: ${AGENT_CONFIG_FILE} in the data directory)`)
+    .option('--rotate <policy>', 'Start a new capture file: daily, hourly, a size such as 100MB, or a combination (default: never)')
+    .option('--retain <age>', 'Delete rotated capture files older than this, e.g. 30d')
+    .option('--retain-size <size>', 'Delete the oldest rotated capture files beyond this total size, e.g. 5GB')
     .option('-q, --quiet', 'Suppress verbose output')
     .action(async (options) => {
       const port = parseInt(options.port, 10);
       const dataDir = path.resolve(options.dataDir);
 
+      let rotation: RotationPolicy | undefined;
+      let retention: RetentionPolicy;
+      try {
+        rotation = options.rotate ? parseRotation(options.rotate) : undefined;
+        retention = {
+          maxAge: options.retain ? parseDuration(options.retain) : undefined,
+          maxTotalSize: options.retainSize ? parseSize(options.retainSize) : undefined,
+        };
+      } catch (e) {
+        console.error(chalk.red(`\n${(e as Error).message}\n`));
+        process.exit(1);
+      }
+
       console.log(chalk.bold.cyan('\n  Claude Code Reverse Engineering Tool\n'));
       console.log(chalk.gray('  ─'.repeat(30)));
 
-      const server = new ProxyServer({
-        port,
-        dataDir,
-        verbose: !options.quiet,
-      });
+      try {
+        parseUpstream(options.upstream);
+      } catch (e) {
+        console.error(chalk.red(`\nInvalid upstream URL: ${options.upstream} (${(e as Error).message})\n`));
+        process.exit(1);
+      }
+
+      let server: ProxyServer;
+      try {
+        server = new ProxyServer({
+          port,
+          dataDir,
+          verbose: !options.quiet,
+          upstream: options.upstream,
+          mode: options.replay ? 'replay' : 'record',
+          storage: parseStorageKind(options.storage),
+          pricingFile: options.pricing,
+          redact: options.redact,
+          redactionConfigFile: options.redactionConfig,
+          agentConfigFile: options.agentConfig,
+          rotation,
+          retention,
+        });
+      } catch (e) {
+        console.error(chalk.red(`\nFailed to start proxy: ${(e as Error).message}\n`));
+        process.exit(1);
+      }
 
       // Handle graceful shutdown
       const shutdown = async () => {
@@ -64,26 +377,244 @@ export function createCLI(): Command {
       console.log(chalk.green('\n  Proxy server is running!\n'));
       console.log(chalk.white('  To start capturing, run Claude Code with:'));
       console.log(chalk.cyan(`    ANTHROPIC_BASE_URL=http://localhost:${port} claude\n`));
-      console.log(chalk.white('  Web dashboard (when running):'));
-      console.log(chalk.cyan(`    http://localhost:3000\n`));
+      console.log(chalk.white('  Web dashboard:'));
+      console.log(chalk.cyan(`    ${server.getDashboardUrl()}\n`));
+      if (!server.isDashboardBuilt()) {
+        console.log(chalk.yellow('  The dashboard has not been built yet; run: npm run build:web\n'));
+      }
       console.log(chalk.gray('  Press Ctrl+C to stop\n'));
     });
 
+  // Run command
+  program
+    .command('run')
+    .description('Run Claude Code, or another command, behind a temporary proxy and summarize its traffic')
+    .argument('[command...]', 'Command to run, with its arguments', ['claude'])
+    .option('-p, --port <port>', 'Port for the proxy (default: any free port)')
+    .option('-d, --data-dir <dir>', 'Directory to store captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-u, --upstream <url>', 'Upstream API base URL to forward requests to', DEFAULT_UPSTREAM)
+    .option('--pricing <file>', 'JSON file with model pricing overrides')
+    .option('--no-redact', 'Store captures verbatim, without masking secrets')
+    .option('--redaction-config <file>', `JSON file with extra redaction rules (default: ${REDACTION_CONFIG_FILE} in the data directory)`)
+    .option('--agent-config <file>', `JSON file with custom agent classification rules (default: ${AGENT_CONFIG_FILE} in the data directory)`)
+    // Options after the command belong to it, e.g. `run claude --resume`
+    .passThroughOptions()
+    .action(async (command: string[], options) => {
+      const dataDir = path.resolve(options.dataDir);
+      const sessionId = uuidv4();
+      const cwd = process.cwd();
+
+      try {
+        parseUpstream(options.upstream);
+      } catch (e) {
+        console.error(chalk.red(`\nInvalid upstream URL: ${options.upstream} (${(e as Error).message})\n`));
+        process.exit(1);
+      }
+
+      let server: ProxyServer;
+      try {
+        server = new ProxyServer({
+          port: options.port ? parseInt(options.port, 10) : 0,
+          dataDir,
+          // Proxy logging would garble the wrapped command's terminal
+          verbose: false,
+          upstream: options.upstream,
+          storage: parseStorageKind(options.storage),
+          pricingFile: options.pricing,
+          redact: options.redact,
+          redactionConfigFile: options.redactionConfig,
+          agentConfigFile: options.agentConfig,
+          captureTags: { session_id: sessionId, cwd },
+        });
+      } catch (e) {
+        console.error(chalk.red(`\nFailed to start proxy: ${(e as Error).message}\n`));
+        process.exit(1);
+      }
+
+      // Pair captures as they arrive, so the summary needs no re-read of the data directory
+      const pairs = new Map<string, RequestResponsePair>();
+      server.on('request', (request: CapturedRequest) => {
+        pairs.set(request.id, { request, response: null });
+      });
+      server.on('response', (response: CapturedResponse) => {
+        const pair = pairs.get(response.request_id);
+        if (pair) pair.response = response;
+      });
+
+      try {
+        await server.start();
+      } catch {
+        process.exit(1);
+      }
+
+      const baseUrl = `http://localhost:${server.getPort()}`;
+      console.log(chalk.gray(`\n  Capturing ${command.join(' ')} through ${baseUrl} (session ${sessionId.slice(0, 8)})\n`));
+
+      const startTime = Date.now();
+      const child = spawn(command[0], command.slice(1), {
+        cwd,
+        stdio: 'inherit',
+        env: { ...process.env, ANTHROPIC_BASE_URL: baseUrl },
+      });
+
+      // Ctrl+C reaches the child through the terminal, which decides whether to exit
+      process.on('SIGINT', () => {});
+      process.on('SIGTERM', () => child.kill('SIGTERM'));
+
+      // Exit with the child's status, or 128 plus the signal number as shells do
+      const exitCode = await new Promise<number | null>((resolve) => {
+        child.on('error', (error: NodeJS.ErrnoException) => {
+          console.error(chalk.red(
+            error.code === 'ENOENT'
+              ? `\nCommand not found: ${command[0]}\n`
+              : `\nFailed to run ${command[0]}: ${error.message}\n`
+          ));
+          resolve(null);
+        });
+        child.on('exit', (code, signal) => resolve(code ?? 128 + (signal ? os.constants.signals[signal] : 0)));
+      });
+
+      await server.stop();
+      if (exitCode === null) process.exit(127);
+      printRunSummary(sessionId, Array.from(pairs.values()), {
+        dataDir,
+        pricing: options.pricing,
+        durationMs: Date.now() - startTime,
+      });
+      process.exit(exitCode);
+    });
+
+  // Tail command
+  program
+    .command('tail')
+    .description('Print captures as the running proxy records them')
+    .option('-p, --port <port>', 'Port of the running proxy', String(DEFAULT_PORT))
+    .option('-d, --data-dir <dir>', 'Directory with captured data, followed with --file', DEFAULT_DATA_DIR)
+    .option('--file', 'Follow the capture file instead of connecting to the proxy')
+    .option('--tool <name>', 'Only show responses that call this tool')
+    .option('--agent <type>', 'Only show captures from this agent type, e.g. Explore')
+    .option('--json', 'Print each capture summary as a line of JSON')
+    .action(async (options) => {
+      // Agent types of requests still awaiting their response
+      const agents = new Map<string, string>();
+      const agentFilter = options.agent?.toLowerCase();
+
+      const print = (event: TailEvent) => {
+        let agentType: string | undefined;
+        if (event.type === 'request') {
+          agentType = event.summary.agentType;
+          agents.set(event.summary.id, agentType);
+          // Tool calls are only known once the response arrives
+          if (options.tool) return;
+        } else {
+          agentType = agents.get(event.summary.request_id);
+          agents.delete(event.summary.request_id);
+          if (options.tool && !event.summary.toolUses.some((t) => t.name === options.tool)) return;
+        }
+        if (agentFilter && agentType?.toLowerCase() !== agentFilter) return;
+
+        if (options.json) {
+          console.log(JSON.stringify({ type: event.type, agentType, ...event.summary }));
+        } else {
+          console.log(event.type === 'request'
+            ? formatTailRequest(event.summary)
+            : formatTailResponse(event.summary, agentType));
+        }
+      };
+
+      const followFile = async () => {
+        const dataDir = path.resolve(options.dataDir);
+        if (!options.json) {
+          console.error(chalk.gray(`Following ${path.join(dataDir, 'messages.jsonl')} (Ctrl+C to stop)`));
+        }
+        for await (const entry of new JSONLStorage(dataDir).follow()) {
+          print(entry.type === 'request'
+            ? { type: 'request', summary: summarizeRequest(entry.data as CapturedRequest) }
+            : { type: 'response', summary: summarizeResponse(entry.data as CapturedResponse) });
+        }
+      };
+
+      if (options.file) {
+        await followFile();
+        return;
+      }
+
+      const url = `ws://localhost:${options.port}${WS_PATH}`;
+      const ws = new WebSocket(url);
+      let connected = false;
+      ws.on('open', () => {
+        connected = true;
+        if (!options.json) console.error(chalk.gray(`Connected to ${url} (Ctrl+C to stop)`));
+      });
+      ws.on('message', (data) => {
+        try {
+          print(JSON.parse(data.toString()) as TailEvent);
+        } catch {
+          // Ignore messages that are not captures
+        }
+      });
+      ws.on('error', (error: NodeJS.ErrnoException) => {
+        // No proxy running: the file still shows what another process captures
+        if (error.code === 'ECONNREFUSED') {
+          console.error(chalk.yellow(`No proxy listening on port ${options.port}; following the capture file instead.`));
+          followFile().catch((followError: Error) => {
+            console.error(chalk.red(`\nCannot follow the capture file: ${followError.message}\n`));
+            process.exit(1);
+          });
+          return;
+        }
+        console.error(chalk.red(`\nWebSocket error: ${error.message}\n`));
+        process.exit(1);
+      });
+      ws.on('close', () => {
+        // A refused connection closes too, after falling back to the file
+        if (!connected) return;
+        if (!options.json) console.error(chalk.yellow('\nProxy connection closed.'));
+        process.exit(0);
+      });
+    });
+
   // Analyze command
   program
     .command('analyze')
     .description('Analyze captured data')
     .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
     .option('--system-prompt', 'Show system prompt analysis')
     .option('--tools', 'Show tool usage statistics')
     .option('--tokens', 'Show token usage statistics')
+    .option('--cost', 'Show estimated dollar cost')
+    .option('--latency', 'Show response latency percentiles')
+    .option('--errors', 'Show API errors, rate limits and overloads')
+    .option('--context', 'Show context window growth and compactions per session')
+    .option('--pricing <file>', 'JSON file with model pricing overrides')
     .option('--all', 'Show all analyses')
-    .action((options) => {
-      const dataDir = path.resolve(options.dataDir);
-      const storage = new JSONLStorage(dataDir);
+    .action(async (options) => {
+      const storage = openStore(options);
+      const showAll = options.all ||
+        (!options.systemPrompt && !options.tools && !options.tokens && !options.cost && !options.latency && !options.errors && !options.context);
 
-      const requests = storage.readRequests();
-      const responses = storage.readResponses();
+      // One streaming pass, keeping only what each analysis needs of a capture
+      const sessions = new SessionBuilder();
+      const context = new ContextCollector();
+      const toolCallCollector = new ToolCallCollector();
+      const statsCollector = new ConversationStatsCollector();
+      const pairs: RequestResponsePair[] = [];
+      let systemPromptRequest: CapturedRequest | undefined;
+      for await (const pair of storage.iteratePairs()) {
+        sessions.add(pair);
+        if (showAll || options.context) context.add(pair);
+        if (showAll || options.tools) toolCallCollector.add(pair.request, pair.response);
+        statsCollector.addRequest(pair.request);
+        if (pair.response) statsCollector.addResponse(pair.response);
+        if (!systemPromptRequest && pair.request.system && pair.request.system.length > 0) {
+          systemPromptRequest = pair.request;
+        }
+        pairs.push(stripContent(pair));
+      }
+      const requests = pairs.map((pair) => pair.request);
+      const responses = pairs.flatMap((pair) => (pair.response ? [pair.response] : []));
 
       if (requests.length === 0) {
         console.log(chalk.yellow('\nNo captured data found.\n'));
@@ -96,8 +627,6 @@ export function createCLI(): Command {
       console.log(chalk.bold.cyan('\n  Claude Code Analysis\n'));
       console.log(chalk.gray('  ─'.repeat(30)));
 
-      const showAll = options.all || (!options.systemPrompt && !options.tools && !options.tokens);
-
       // Basic stats
       console.log(chalk.white('\n  Summary:'));
       console.log(chalk.gray(`    Captured requests: ${requests.length}`));
@@ -105,9 +634,8 @@ export function createCLI(): Command {
 
       // System prompt analysis
       if (showAll || options.systemPrompt) {
-        const firstRequestWithSystem = requests.find((r) => r.system && r.system.length > 0);
-        if (firstRequestWithSystem) {
-          const analysis = analyzeSystemPrompt(firstRequestWithSystem);
+        if (systemPromptRequest) {
+          const analysis = analyzeSystemPrompt(systemPromptRequest);
           console.log(chalk.bold.white('  System Prompt Analysis:\n'));
           console.log(chalk.gray(`    Word count: ${analysis.wordCount.toLocaleString()}`));
           console.log(chalk.gray(`    Character count: ${analysis.characterCount.toLocaleString()}`));
@@ -131,7 +659,7 @@ export function createCLI(): Command {
 
       // Token analysis
       if (showAll || options.tokens) {
-        const stats = getConversationStats(requests, responses);
+        const stats = statsCollector.stats();
         console.log(chalk.bold.white('  Token Usage:\n'));
         console.log(chalk.gray(`    Total input tokens:     ${formatTokenCount(stats.totalInputTokens)}`));
         console.log(chalk.gray(`    Total output tokens:    ${formatTokenCount(stats.totalOutputTokens)}`));
@@ -141,9 +669,118 @@ export function createCLI(): Command {
         console.log();
       }
 
+      // Cost analysis
+      if (showAll || options.cost) {
+        const pricing = loadPricing({ file: options.pricing, dataDir: path.resolve(options.dataDir) });
+        const costs = summarizeCosts(pairs, pricing, sessions.sessions());
+
+        console.log(chalk.bold.white('  Estimated Cost:\n'));
+        console.log(chalk.gray(`    Total:           ${formatCost(costs.total)}`));
+        console.log(chalk.gray(`    Pricing table:   ${costs.pricingVersion}\n`));
+
+        console.log(chalk.white('    By model:'));
+        for (const entry of costs.byModel) {
+          console.log(chalk.gray(`      ${entry.model.padEnd(36)} ${formatCost(entry.cost).padStart(10)}  (${entry.requests} requests)`));
+        }
+
+        console.log(chalk.white('\n    By day:'));
+        for (const entry of costs.byDay) {
+          console.log(chalk.gray(`      ${entry.day.padEnd(36)} ${formatCost(entry.cost).padStart(10)}  (${entry.requests} requests)`));
+        }
+
+        console.log(chalk.white('\n    Top sessions:'));
+        for (const entry of costs.bySession.slice(0, 10)) {
+          console.log(chalk.gray(`      ${entry.sessionId.slice(0, 36).padEnd(36)} ${formatCost(entry.cost).padStart(10)}  (${entry.requests} requests)`));
+        }
+
+        console.log(chalk.white('\n    Most expensive requests:'));
+        const topRequests = [...costs.perRequest].sort((a, b) => b.cost - a.cost).slice(0, 10);
+        for (const entry of topRequests) {
+          const label = `${new Date(entry.timestamp).toLocaleString()} ${entry.requestId.slice(0, 8)}`;
+          console.log(chalk.gray(`      ${label.padEnd(36)} ${formatCost(entry.cost).padStart(10)}  ${entry.model}`));
+        }
+
+        if (costs.unpricedModels.length > 0) {
+          console.log(chalk.yellow(`\n    No pricing for: ${costs.unpricedModels.join(', ')} (add them with --pricing)`));
+        }
+        console.log();
+      }
+
+      // Latency analysis
+      if (showAll || options.latency) {
+        const latency = summarizeLatency(responses);
+
+        console.log(chalk.bold.white('  Latency:\n'));
+        console.log(chalk.white(`    ${''.padEnd(24)} ${['p50', 'p90', 'p99', 'max'].map((h) => h.padStart(10)).join(' ')}`));
+        console.log(chalk.gray(`    ${formatPercentiles('Total duration', latency.duration)}`));
+        if (latency.timed > 0) {
+          console.log(chalk.gray(`    ${formatPercentiles('Time to first byte', latency.ttfb)}`));
+          console.log(chalk.gray(`    ${formatPercentiles('Time to message_start', latency.messageStart)}`));
+          console.log(chalk.gray(`    ${formatPercentiles('Time to first content', latency.firstContent)}`));
+          console.log(chalk.gray(`    ${formatPercentiles('Thinking', latency.thinking)}`));
+          console.log(chalk.gray(`    ${formatPercentiles('Generating', latency.generating)}`));
+          console.log(chalk.gray(`    ${formatPercentiles('Inter-chunk gap (p95)', latency.interChunkP95)}`));
+          console.log(chalk.gray(`    ${formatPercentiles('Output tokens/s', latency.outputTokensPerSecond, '')}`));
+        } else {
+          console.log(chalk.yellow('\n    No timing breakdown recorded; capture new traffic to see per-phase latency.'));
+        }
+        console.log();
+      }
+
+      // Error analysis
+      if (showAll || options.errors) {
+        const errors = summarizeErrors(pairs);
+        const rate = errors.responses > 0 ? ((errors.errors / errors.responses) * 100).toFixed(1) : '0.0';
+
+        console.log(chalk.bold.white('  Errors:\n'));
+        console.log(chalk.gray(`    Failed responses:   ${errors.errors} of ${errors.responses} (${rate}%)`));
+        console.log(chalk.gray(`    Rate limited (429): ${errors.rateLimited}`));
+        console.log(chalk.gray(`    Overloaded (529):   ${errors.overloaded}`));
+        if (errors.pending > 0) {
+          console.log(chalk.gray(`    No response:        ${errors.pending}`));
+        }
+
+        if (errors.byType.length > 0) {
+          console.log(chalk.white('\n    By type:'));
+          for (const { type, count } of errors.byType) {
+            console.log(chalk.gray(`      ${type.padEnd(30)} ${count}`));
+          }
+
+          console.log(chalk.white('\n    By status:'));
+          for (const { status, count } of errors.byStatus) {
+            console.log(chalk.gray(`      ${status.padEnd(30)} ${count}`));
+          }
+
+          console.log(chalk.white('\n    By day:'));
+          for (const entry of errors.byDay.filter((d) => d.errors > 0)) {
+            console.log(chalk.gray(
+              `      ${entry.day.padEnd(30)} ${String(entry.errors).padStart(4)} errors / ${entry.requests} requests` +
+              `  (${entry.rateLimited} rate limited, ${entry.overloaded} overloaded)`
+            ));
+          }
+
+          console.log(chalk.white('\n    Recent errors:'));
+          for (const entry of errors.recent.slice(0, 10)) {
+            const retry = entry.retryAfter ? ` retry-after ${entry.retryAfter}s` : '';
+            console.log(chalk.gray(`      ${new Date(entry.timestamp).toLocaleString()}  ${entry.status ?? '-'} ${entry.type}${retry}`));
+            if (entry.message) {
+              console.log(chalk.gray(`        ${entry.message.slice(0, 100)}`));
+            }
+          }
+        }
+
+        if (errors.latestRateLimits) {
+          console.log(chalk.white(`\n    Rate limits (as of ${new Date(errors.latestRateLimits.timestamp).toLocaleString()}):`));
+          for (const [name, value] of Object.entries(errors.latestRateLimits.limits)) {
+            console.log(chalk.gray(`      ${name.padEnd(30)} ${value}`));
+          }
+        }
+        console.log();
+      }
+
       // Tool analysis
       if (showAll || options.tools) {
-        const toolCalls = pairToolCallsWithResults(requests, responses);
+        const toolCalls = toolCallCollector.calls();
         const frequency = getToolCallFrequency(toolCalls);
 
         console.log(chalk.bold.white('  Tool Usage:\n'));
@@ -159,9 +796,61 @@ export function createCLI(): Command {
             console.log(chalk.gray(`      ... and ${frequency.length - 15} more tools`));
           }
         }
+
+        // Client tools only: server tools run inside the response and have no gap of their own
+        const timed = Array.from(calculateToolStats(toolCalls).values())
+          .filter((stats) => stats.durations)
+          .sort((a, b) => b.totalDuration - a.totalDuration);
+        if (timed.length > 0) {
+          const time = summarizeToolTime(toolCalls, responses);
+          const total = time.modelMs + time.toolMs;
+          console.log(chalk.white('\n    Tool durations (response end to tool_result):'));
+          console.log(chalk.white(`      ${''.padEnd(24)} ${['p50', 'p90', 'p99', 'max'].map((h) => h.padStart(10)).join(' ')}`));
+          for (const stats of timed.slice(0, 15)) {
+            console.log(chalk.gray(`      ${formatPercentiles(stats.name, stats.durations)}  total ${formatDuration(stats.totalDuration)}`));
+          }
+          if (total > 0) {
+            console.log(chalk.white('\n    Wall-clock time:'));
+            console.log(chalk.gray(`      Model:  ${formatDuration(time.modelMs).padStart(10)}  (${((time.modelMs / total) * 100).toFixed(1)}%)`));
+            console.log(chalk.gray(`      Tools:  ${formatDuration(time.toolMs).padStart(10)}  (${((time.toolMs / total) * 100).toFixed(1)}%)`));
+          }
+        }
         console.log();
       }
 
+      // Context window analysis
+      if (showAll || options.context) {
+        const contexts = context.analyze(sessions.sessions());
+
+        console.log(chalk.bold.white('  Context Window:\n'));
+        if (contexts.length === 0) {
+          console.log(chalk.gray('    No turns with token usage recorded.\n'));
+        }
+        // Most recent sessions last, closest to the prompt
+        if (contexts.length > 10) {
+          console.log(chalk.gray(`    ... ${contexts.length - 10} earlier sessions\n`));
+        }
+        for (const context of contexts.slice(-10)) {
+          const latest = context.turns[context.turns.length - 1];
+          const usage = context.turns.map((turn) => turn.total / turn.limit);
+          const peakUsage = usage.reduce((max, value) => Math.max(max, value), 0);
+          const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+          console.log(chalk.white(`    Session ${context.sessionId.slice(0, 8)}`) +
+            chalk.gray(`  ${context.agentType}, ${context.turns.length} turns, ${formatTokenCount(latest.limit)} limit`));
+          console.log(chalk.cyan(`      ${formatSparkline(usage)}`));
+          console.log(chalk.gray(`      Peak:   ${formatTokenCount(context.peak).padStart(8)} (${percent(peakUsage)})`));
+          console.log(chalk.gray(`      Latest: ${formatTokenCount(latest.total).padStart(8)} (${percent(latest.total / latest.limit)})` +
+            `  system ${formatTokenCount(latest.system)}, tools ${formatTokenCount(latest.tools)}, history ${formatTokenCount(latest.history)}`));
+          for (const event of context.compactions) {
+            console.log(chalk.yellow(`      Compacted ${new Date(event.timestamp).toLocaleString()}: history ` +
+              `${formatTokenCount(event.historyBefore)} → ${formatTokenCount(event.historyAfter)} ` +
+              `at ${percent(event.usageBefore)} of the limit (${event.kind})`));
+          }
+          console.log();
+        }
+      }
+
       console.log(chalk.gray('  ─'.repeat(30)));
       console.log();
     });
@@ -171,55 +860,449 @@ export function createCLI(): Command {
     .command('export')
     .description('Export captured data to various formats')
     .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
     .option('-o, --output <file>', 'Output file path')
     .option('-f, --format <format>', 'Output format (json, jsonl, system-prompt)', 'json')
-    .action((options) => {
+    .action(async (options) => {
       const dataDir = path.resolve(options.dataDir);
-      const storage = new JSONLStorage(dataDir);
+      const storage = openStore(options);
+
+      if (options.format === 'system-prompt') {
+        let firstRequestWithSystem: CapturedRequest | undefined;
+        let found = false;
+        for await (const { request } of storage.iteratePairs()) {
+          found = true;
+          if (request.system && request.system.length > 0) {
+            firstRequestWithSystem = request;
+            break;
+          }
+        }
+        if (!found) {
+          console.log(chalk.yellow('\nNo captured data found.\n'));
+          return;
+        }
+        if (!firstRequestWithSystem) {
+          console.log(chalk.yellow('\nNo system prompt found in captured data.\n'));
+          return;
+        }
+        const outputPath = options.output || path.join(dataDir, 'system-prompt.txt');
+        fs.writeFileSync(outputPath, extractSystemPrompt(firstRequestWithSystem));
+        console.log(chalk.green(`\nExported to: ${outputPath}\n`));
+        return;
+      }
 
-      const requests = storage.readRequests();
-      const responses = storage.readResponses();
+      // Captures are written one at a time as they are read, so exports of
+      // captures larger than memory still succeed
+      const jsonl = options.format === 'jsonl';
+      const outputPath = options.output || path.join(dataDir, jsonl ? 'captured-data.jsonl' : 'captured-data.json');
+      const tempPath = `${outputPath}.tmp`;
+      const out = fs.createWriteStream(tempPath);
+      let count = 0;
 
-      if (requests.length === 0) {
+      for await (const pair of storage.iteratePairs()) {
+        const chunk = jsonl
+          ? `${count > 0 ? '\n' : ''}${JSON.stringify(pair)}`
+          : `${count > 0 ? ',\n' : '[\n'}${JSON.stringify(pair, null, 2).replace(/^/gm, '  ')}`;
+        count++;
+        if (!out.write(chunk)) await once(out, 'drain');
+      }
+      if (!jsonl && count > 0) out.write('\n]');
+      await new Promise<void>((resolve, reject) => out.end(() => resolve()).on('error', reject));
+
+      if (count === 0) {
+        fs.unlinkSync(tempPath);
+        console.log(chalk.yellow('\nNo captured data found.\n'));
+        return;
+      }
+      fs.renameSync(tempPath, outputPath);
+
+      console.log(chalk.green(`\nExported to: ${outputPath}\n`));
+    });
+
+  // Sessions command
+  program
+    .command('sessions')
+    .description('List reconstructed sessions, or show the conversations of one session')
+    .argument('[id]', 'Session id (or unique prefix) to show in detail')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .action(async (id: string | undefined, options) => {
+      const storage = openStore(options);
+      const builder = new SessionBuilder();
+      let requestCount = 0;
+      for await (const pair of storage.iteratePairs()) {
+        builder.add(pair);
+        requestCount++;
+      }
+      const sessions = builder.sessions();
+
+      if (sessions.length === 0) {
         console.log(chalk.yellow('\nNo captured data found.\n'));
         return;
       }
 
-      let output: string;
-      let defaultFilename: string;
+      if (!id) {
+        console.log(chalk.bold.cyan('\n  Sessions\n'));
+        console.log(chalk.gray('  ─'.repeat(30)));
+        console.log();
 
-      switch (options.format) {
-        case 'system-prompt': {
-          const firstRequestWithSystem = requests.find((r) => r.system && r.system.length > 0);
-          if (!firstRequestWithSystem) {
-            console.log(chalk.yellow('\nNo system prompt found in captured data.\n'));
-            return;
+        for (const session of sessions) {
+          const duration = (new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 1000;
+          console.log(chalk.white(`  ${session.id.slice(0, 36)}`));
+          console.log(chalk.gray(`    ${new Date(session.startTime).toLocaleString()}  (${Math.round(duration)}s)`));
+          console.log(chalk.gray(
+            `    ${session.requestIds.length} requests, ${session.conversations.length} conversations, ` +
+            `${formatTokenCount(session.inputTokens)} in / ${formatTokenCount(session.outputTokens)} out, ` +
+            `${session.toolCalls} tool calls`
+          ));
+          if (session.firstPrompt) {
+            const prompt = session.firstPrompt.replace(/\s+/g, ' ').slice(0, 80);
+            console.log(chalk.gray(`    "${prompt}"`));
           }
-          output = extractSystemPrompt(firstRequestWithSystem);
-          defaultFilename = 'system-prompt.txt';
-          break;
+          console.log();
         }
 
-        case 'jsonl': {
-          const pairs = storage.getRequestResponsePairs();
-          output = pairs.map((p) => JSON.stringify(p)).join('\n');
-          defaultFilename = 'captured-data.jsonl';
-          break;
+        console.log(chalk.gray(`  ${sessions.length} sessions from ${requestCount} requests\n`));
+        return;
+      }
+
+      const matches = sessions.filter((s) => s.id.startsWith(id));
+      if (matches.length !== 1) {
+        console.log(chalk.yellow(`\n${matches.length === 0 ? 'No' : 'More than one'} session matches "${id}".\n`));
+        return;
+      }
+
+      // A second pass reads the session's own captures
+      const session = matches[0];
+      const rows = new Map<string, { timestamp: string; messages: number; usage?: TokenUsage }>();
+      for await (const { request, response } of selectPairs(storage, new Set(session.requestIds))) {
+        rows.set(request.id, { timestamp: request.timestamp, messages: request.messages.length, usage: response?.usage });
+      }
+
+      console.log(chalk.bold.cyan(`\n  Session ${session.id}\n`));
+      console.log(chalk.gray('  ─'.repeat(30)));
+      console.log(chalk.gray(`\n    Started:  ${new Date(session.startTime).toLocaleString()}`));
+      console.log(chalk.gray(`    Ended:    ${new Date(session.endTime).toLocaleString()}`));
+      console.log(chalk.gray(`    Models:   ${session.models.join(', ')}`));
+      if (session.userId) {
+        console.log(chalk.gray(`    User id:  ${session.userId}`));
+      }
+      console.log();
+
+      for (const conversation of session.conversations) {
+        console.log(chalk.white(`    Conversation ${conversation.id.slice(0, 8)} (${conversation.requestIds.length} requests, ${conversation.model})`));
+        for (const requestId of conversation.requestIds) {
+          const row = rows.get(requestId)!;
+          const usage = row.usage;
+          const tokens = usage
+            ? `${formatTokenCount(usage.input_tokens)} in / ${formatTokenCount(usage.output_tokens)} out`
+            : 'no response';
+          console.log(chalk.gray(
+            `      ${new Date(row.timestamp).toLocaleTimeString()}  ${requestId.slice(0, 8)}  ` +
+            `${row.messages} messages  ${tokens}`
+          ));
         }
+        console.log();
+      }
+    });
 
-        case 'json':
-        default: {
-          const pairs = storage.getRequestResponsePairs();
-          output = JSON.stringify(pairs, null, 2);
-          defaultFilename = 'captured-data.json';
-          break;
+  // Search command
+  program
+    .command('search')
+    .description('Search prompts, messages, tool inputs and tool results')
+    .argument('<query...>', 'Words to search for; the last one also matches as a prefix')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-n, --limit <count>', 'Maximum number of matches to show', '20')
+    .action(async (words: string[], options) => {
+      const query = words.join(' ');
+      const storage = openStore(options);
+      const index = await buildSearchIndex(storage.iteratePairs());
+      storage.close();
+
+      const hits = index.search(query, parseInt(options.limit, 10));
+
+      console.log(chalk.bold.cyan(`\n  Search: "${query}"\n`));
+      console.log(chalk.gray('  ─'.repeat(30)));
+
+      if (hits.length === 0) {
+        console.log(chalk.yellow('\n  No matches found.\n'));
+        return;
+      }
+
+      console.log();
+      for (const hit of hits) {
+        console.log(
+          `  ${chalk.white(hit.requestId.slice(0, 8))}  ` +
+          chalk.gray(`${new Date(hit.timestamp).toLocaleString()}  ${hit.model}  `) +
+          chalk.cyan(hit.label) +
+          chalk.gray(` (${formatLocation(hit)})`)
+        );
+        console.log(`    ${highlightSnippet(hit)}`);
+        console.log();
+      }
+      console.log(chalk.gray(`  ${hits.length} ${hits.length === 1 ? 'match' : 'matches'}\n`));
+    });
+
+  // Diff system prompt versions
+  program
+    .command('diff-prompts')
+    .description('Diff two system prompt versions section by section')
+    .argument('[from]', 'Older prompt hash (or unique prefix); defaults to the version before <to>')
+    .argument('[to]', 'Newer prompt hash (or unique prefix); defaults to the newest prompt with an earlier version')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-l, --list', 'List distinct system prompts instead of diffing')
+    .option('-U, --context <lines>', 'Lines of context around changes', '3')
+    .action(async (fromArg: string | undefined, toArg: string | undefined, options) => {
+      const storage = openStore(options);
+      const versions = await buildPromptRegistry(storage.iterateRequests());
+      storage.close();
+
+      if (versions.length === 0) {
+        console.log(chalk.yellow('\nNo system prompts found in captured data.\n'));
+        return;
+      }
+
+      const printList = () => {
+        console.log(chalk.bold.cyan('\n  System Prompt Versions\n'));
+        console.log(chalk.gray('  ─'.repeat(30)));
+        console.log();
+        for (const version of versions) {
+          printPromptVersion(version);
         }
+        console.log();
+      };
+
+      if (options.list) {
+        printList();
+        return;
       }
 
-      const outputPath = options.output || path.join(dataDir, defaultFilename);
-      fs.writeFileSync(outputPath, output);
+      // A single argument names the newer version
+      const toHash = toArg ?? fromArg;
+      const fromHash = toArg ? fromArg : undefined;
 
-      console.log(chalk.green(`\nExported to: ${outputPath}\n`));
+      let to: PromptVersion | null;
+      if (toHash) {
+        to = findPromptVersion(versions, toHash);
+      } else {
+        to = [...versions].reverse().find((v) => previousPromptVersion(versions, v)) || null;
+        if (!to) {
+          printList();
+          console.log(chalk.yellow('  Only one version of each prompt captured; nothing to diff.\n'));
+          return;
+        }
+      }
+      const from = fromHash
+        ? findPromptVersion(versions, fromHash)
+        : to && previousPromptVersion(versions, to);
+
+      for (const [hash, version] of [[toHash, to], [fromHash, from]] as const) {
+        if (hash && !version) {
+          console.log(chalk.yellow(`\nNo single prompt version matches "${hash}". Use --list to see versions.\n`));
+          return;
+        }
+      }
+      if (!to || !from) {
+        console.log(chalk.yellow(`\nNo earlier ${to?.agentType} prompt to compare with. Pass two hashes to diff.\n`));
+        return;
+      }
+
+      const diff = diffPrompts(from, to, parseInt(options.context, 10));
+      const count = (status: string) => diff.sections.filter((s) => s.status === status).length;
+
+      console.log(chalk.bold(`--- a/${from.hash.slice(0, 12)}  ${from.agentType}  ${new Date(from.firstSeen).toLocaleString()}`));
+      console.log(chalk.bold(`+++ b/${to.hash.slice(0, 12)}  ${to.agentType}  ${new Date(to.firstSeen).toLocaleString()}`));
+      console.log(chalk.gray(
+        `# ${count('changed')} changed, ${count('added')} added, ${count('removed')} removed, ${count('unchanged')} unchanged sections`
+      ));
+
+      for (const section of diff.sections) {
+        if (section.status === 'unchanged') continue;
+        console.log(chalk.bold.yellow(`\n# ${section.title} [${section.status}]`));
+        printHunks(section.hunks);
+      }
+      console.log();
+    });
+
+  // Tool schemas command
+  program
+    .command('tools')
+    .description('List the tool definitions sent to the API and how their schemas changed')
+    .argument('[name]', 'Tool name to show the schema history of')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-c, --changes', 'Show when each agent\'s tool set changed')
+    .option('-U, --context <lines>', 'Lines of context around changes', '3')
+    .action(async (name: string | undefined, options) => {
+      const storage = openStore(options);
+      const context = parseInt(options.context, 10);
+
+      if (options.changes) {
+        const changes = await findToolSetChanges(storage.iterateRequests(), context);
+        storage.close();
+        console.log(chalk.bold.cyan('\n  Tool Set Changes\n'));
+        console.log(chalk.gray('  ─'.repeat(30)));
+        console.log();
+        if (changes.length === 0) {
+          console.log(chalk.gray('  No agent\'s tool set has changed.\n'));
+          return;
+        }
+        for (const change of changes) {
+          console.log(
+            `  ${chalk.white(new Date(change.timestamp).toLocaleString())}  ${chalk.cyan(change.agentType)}  ` +
+            chalk.gray(`${change.requestId.slice(0, 8)} (was ${change.previousRequestId.slice(0, 8)})`)
+          );
+          for (const added of change.added) console.log(chalk.green(`    + ${added}`));
+          for (const removed of change.removed) console.log(chalk.red(`    - ${removed}`));
+          for (const changed of change.changed) {
+            console.log(chalk.yellow(`    ~ ${changed.name}`));
+            printToolSchemaChange(changed, '      ');
+          }
+          console.log();
+        }
+        return;
+      }
+
+      const catalog = await buildToolCatalog(storage.iterateRequests());
+      storage.close();
+      if (catalog.length === 0) {
+        console.log(chalk.yellow('\nNo tool definitions found in captured data.\n'));
+        return;
+      }
+
+      if (!name) {
+        console.log(chalk.bold.cyan('\n  Tool Schemas\n'));
+        console.log(chalk.gray('  ─'.repeat(30)));
+        console.log();
+        for (const entry of catalog) {
+          const latest = entry.versions[entry.versions.length - 1];
+          const params = Object.keys(latest.input_schema?.properties ?? {}).length;
+          const versions = entry.versions.length > 1
+            ? chalk.yellow(`${entry.versions.length} versions`)
+            : chalk.gray('1 version');
+          console.log(
+            `  ${chalk.white(entry.name.padEnd(32))} ${versions}  ` +
+            chalk.gray(`${params} ${params === 1 ? 'param' : 'params'}, ${entry.requestCount} requests, ${entry.agentTypes.join(', ')}`)
+          );
+        }
+        const mcpServers = new Set(catalog.map((e) => e.mcpServer).filter(Boolean));
+        console.log(chalk.gray(`\n  ${catalog.length} tools, ${mcpServers.size} from MCP servers\n`));
+        return;
+      }
+
+      const entry = catalog.find((e) => e.name === name);
+      if (!entry) {
+        console.log(chalk.yellow(`\nNo tool named "${name}" found in captured data.\n`));
+        return;
+      }
+
+      console.log(chalk.bold.cyan(`\n  ${entry.name}\n`));
+      console.log(chalk.gray('  ─'.repeat(30)));
+      if (entry.mcpServer) {
+        console.log(chalk.gray(`\n    MCP server: ${entry.mcpServer}`));
+      }
+      console.log(chalk.gray(`    Sent to:    ${entry.agentTypes.join(', ')}`));
+      console.log();
+
+      entry.versions.forEach((version, index) => {
+        console.log(
+          `  ${chalk.white(version.hash.slice(0, 12))}  ` +
+          chalk.gray(`${version.requestCount} requests, ${version.agentTypes.join(', ')}`)
+        );
+        console.log(chalk.gray(
+          `    ${new Date(version.firstSeen).toLocaleString()} → ${new Date(version.lastSeen).toLocaleString()}`
+        ));
+        if (index > 0) {
+          const previous = entry.versions[index - 1];
+          printToolSchemaChange(
+            diffToolSchemas({ name, ...previous }, { name, ...version }, context),
+            '    '
+          );
+        }
+        console.log();
+      });
+    });
+
+  // Cache command
+  program
+    .command('cache')
+    .description('Show prompt cache hit rates, breakpoints and the prefix changes behind cache misses')
+    .argument('[id]', 'Request id (or unique prefix) to show breakpoints and cache usage of')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('--session <id>', 'Only analyze one session (id or unique prefix)')
+    .option('-n, --limit <count>', 'Cache misses to list', '20')
+    .option('--pricing <file>', 'JSON file with model pricing overrides')
+    .action(async (id: string | undefined, options) => {
+      const storage = openStore(options);
+      let ids: Set<string> | undefined;
+
+      if (options.session) {
+        const matches = (await collectSessions(storage)).filter((s) => s.id.startsWith(options.session));
+        if (matches.length !== 1) {
+          console.log(chalk.yellow(`\n${matches.length === 0 ? 'No' : 'More than one'} session matches "${options.session}".\n`));
+          return;
+        }
+        ids = new Set(matches[0].requestIds);
+      }
+
+      const sessions = new SessionBuilder();
+      const collector = new CacheCollector(loadPricing({ file: options.pricing, dataDir: path.resolve(options.dataDir) }));
+      for await (const pair of selectPairs(storage, ids)) {
+        collector.add(pair, sessions.add(pair).id);
+      }
+      storage.close();
+
+      const cache = collector.summary();
+      if (cache.requests === 0) {
+        console.log(chalk.yellow('\nNo captured responses found.\n'));
+        return;
+      }
+
+      if (id) {
+        const matches = cache.perRequest.filter((info) => info.requestId.startsWith(id));
+        if (matches.length !== 1) {
+          console.log(chalk.yellow(`\n${matches.length === 0 ? 'No' : 'More than one'} request matches "${id}".\n`));
+          return;
+        }
+        printRequestCache(matches[0]);
+        return;
+      }
+
+      const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+      console.log(chalk.bold.cyan('\n  Prompt Cache\n'));
+      console.log(chalk.gray('  ─'.repeat(30)));
+      console.log(chalk.gray(`\n    Requests:        ${cache.requests} (${cache.withBreakpoints} with cache_control breakpoints)`));
+      console.log(chalk.gray(`    Prompt tokens:   ${formatTokenCount(cache.promptTokens)}`));
+      console.log(chalk.gray(`    Cache reads:     ${formatTokenCount(cache.cacheReadTokens)} (${percent(cache.hitRate)} of prompt tokens)`));
+      console.log(chalk.gray(`    Cache writes:    ${formatTokenCount(cache.cacheCreationTokens)}`));
+      console.log(chalk.gray(`    Misses:          ${cache.misses}, ${formatTokenCount(cache.lostTokens)} tokens re-written, ~${formatCost(cache.lostCost)} extra`));
+
+      const reasons = Object.entries(cache.missesByReason) as Array<[CacheMissReason, number]>;
+      if (reasons.length > 0) {
+        console.log(chalk.white('\n    Misses by cause:'));
+        for (const [reason, count] of reasons.sort((a, b) => b[1] - a[1])) {
+          console.log(chalk.gray(`      ${reason.padEnd(20)} ${count}`));
+        }
+      }
+
+      const misses = cache.perRequest.filter((info) => info.miss);
+      const limit = parseInt(options.limit, 10);
+      if (misses.length > 0) {
+        console.log(chalk.white(`\n    ${misses.length > limit ? `Latest ${limit} misses` : 'Misses'}:`));
+        for (const info of misses.slice(-limit)) {
+          const miss = info.miss!;
+          const where = miss.divergence ? `at ${miss.divergence.location}:${miss.divergence.offset}` : `after ${formatDuration(miss.gapMs)}`;
+          console.log(chalk.gray(
+            `      ${new Date(info.timestamp).toLocaleString()}  ${info.requestId.slice(0, 8)}  ${info.agentType.padEnd(10)} ` +
+            `${chalk.yellow(miss.reason.padEnd(17))} ${where}  -${formatTokenCount(miss.lostTokens)}`
+          ));
+        }
+        console.log(chalk.gray('\n    Run `claude-reverse cache <id>` to see where a request\'s prompt diverged.'));
+      }
+      console.log();
     });
 
   // System prompt command (shortcut)
@@ -227,13 +1310,18 @@ export function createCLI(): Command {
     .command('system-prompt')
     .description('Extract and display the system prompt')
     .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
     .option('-o, --output <file>', 'Save to file instead of displaying')
-    .action((options) => {
-      const dataDir = path.resolve(options.dataDir);
-      const storage = new JSONLStorage(dataDir);
+    .action(async (options) => {
+      const storage = openStore(options);
 
-      const requests = storage.readRequests();
-      const firstRequestWithSystem = requests.find((r) => r.system && r.system.length > 0);
+      let firstRequestWithSystem: CapturedRequest | undefined;
+      for await (const request of storage.iterateRequests()) {
+        if (request.system && request.system.length > 0) {
+          firstRequestWithSystem = request;
+          break;
+        }
+      }
 
       if (!firstRequestWithSystem) {
         console.log(chalk.yellow('\nNo system prompt found in captured data.\n'));
@@ -256,11 +1344,173 @@ export function createCLI(): Command {
       }
     });
 
+  // Agents command
+  program
+    .command('agents')
+    .description('Show requests and token usage per agent type')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-c, --config <file>', `JSON file with custom agent classification rules (default: ${AGENT_CONFIG_FILE} in the data directory)`)
+    .option('--reclassify', 'Classify stored captures again with the current rules and save the result')
+    .action(async (options) => {
+      const dataDir = path.resolve(options.dataDir);
+      let classifier: AgentClassifier;
+      try {
+        classifier = new AgentClassifier(loadAgentConfig({ file: options.config, dataDir }));
+      } catch (e) {
+        console.error(chalk.red(`\nInvalid agent rules: ${(e as Error).message}\n`));
+        process.exit(1);
+      }
+      const storage = openStore(options);
+
+      let changed = 0;
+      if (options.reclassify) {
+        try {
+          await storage.rewrite({
+            request: (request) => {
+              const agentType = classifier.classify(request);
+              if (agentType !== request.agent_type) changed++;
+              return { ...request, agent_type: agentType };
+            },
+            response: (response) => response,
+          });
+        } catch (e) {
+          console.error(chalk.red(`\nCannot reclassify captures: ${(e as Error).message}\n`));
+          process.exit(1);
+        }
+      }
+
+      const byAgent = new Map<string, { requests: number; inputTokens: number; outputTokens: number; models: Set<string> }>();
+      for await (const { request, response } of storage.iteratePairs()) {
+        // Captures logged before stamping are classified with the current rules
+        const agentType = request.agent_type ?? classifier.classify(request);
+        let entry = byAgent.get(agentType);
+        if (!entry) {
+          entry = { requests: 0, inputTokens: 0, outputTokens: 0, models: new Set() };
+          byAgent.set(agentType, entry);
+        }
+        entry.requests++;
+        entry.inputTokens += response?.usage.input_tokens ?? 0;
+        entry.outputTokens += response?.usage.output_tokens ?? 0;
+        entry.models.add(request.model);
+      }
+      storage.close();
+
+      if (byAgent.size === 0) {
+        console.log(chalk.yellow('\nNo captured data found.\n'));
+        return;
+      }
+
+      console.log(chalk.bold.cyan('\n  Agent Types\n'));
+      console.log(chalk.gray('  ─'.repeat(30)));
+      console.log();
+      const sorted = Array.from(byAgent.entries()).sort((a, b) => b[1].requests - a[1].requests);
+      for (const [agentType, entry] of sorted) {
+        console.log(
+          `  ${chalk.white(agentType.padEnd(20))} ${chalk.yellow(String(entry.requests).padStart(6))} requests  ` +
+          chalk.gray(`${formatTokenCount(entry.inputTokens)} in / ${formatTokenCount(entry.outputTokens)} out  ${Array.from(entry.models).join(', ')}`)
+        );
+      }
+      console.log();
+      if (options.reclassify) {
+        console.log(chalk.green(`  ${changed} captures reclassified in ${dataDir}\n`));
+      }
+    });
+
+  // Redact command
+  program
+    .command('redact')
+    .description('Scrub secrets from existing captures')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .option('-c, --config <file>', `JSON file with extra redaction rules (default: ${REDACTION_CONFIG_FILE} in the data directory)`)
+    .option('--dry-run', 'Report what would be redacted without rewriting captures')
+    .action(async (options) => {
+      const dataDir = path.resolve(options.dataDir);
+      const redactor = new Redactor(loadRedactionConfig({ file: options.config, dataDir }));
+      const storage = openStore(options);
+
+      if (options.dryRun) {
+        for await (const { request, response } of storage.iteratePairs()) {
+          redactor.redactRequest(request);
+          if (response) redactor.redactResponse(response);
+        }
+      } else {
+        try {
+          await storage.rewrite({
+            request: (request) => redactor.redactRequest(request),
+            response: (response) => redactor.redactResponse(response),
+          });
+        } catch (e) {
+          console.error(chalk.red(`\nCannot redact captures: ${(e as Error).message}\n`));
+          process.exit(1);
+        }
+      }
+      storage.close();
+
+      const counts = Array.from(redactor.getCounts().entries()).sort((a, b) => b[1] - a[1]);
+      const total = counts.reduce((sum, [, count]) => sum + count, 0);
+
+      console.log(chalk.bold.cyan(`\n  Redaction${options.dryRun ? ' (dry run)' : ''}\n`));
+      console.log(chalk.gray('  ─'.repeat(30)));
+
+      if (total === 0) {
+        console.log(chalk.green('\n  No secrets found.\n'));
+        return;
+      }
+
+      console.log();
+      for (const [rule, count] of counts) {
+        console.log(`  ${chalk.white(rule.padEnd(24))} ${chalk.yellow(String(count))}`);
+      }
+      console.log();
+      if (options.dryRun) {
+        console.log(chalk.yellow(`  ${total} secrets would be redacted. Run without --dry-run to rewrite captures.\n`));
+      } else {
+        console.log(chalk.green(`  ${total} secrets redacted in ${dataDir}\n`));
+      }
+    });
+
+  // Prune command
+  program
+    .command('prune')
+    .description('Delete captures older than a given age')
+    .requiredOption('--older-than <age>', 'Age of the captures to delete, e.g. 12h, 7d or 2w')
+    .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
+    .action(async (options) => {
+      let age: number;
+      try {
+        age = parseDuration(options.olderThan);
+      } catch (e) {
+        console.error(chalk.red(`\n${(e as Error).message}\n`));
+        process.exit(1);
+      }
+
+      const before = new Date(Date.now() - age).toISOString();
+      const storage = openStore(options);
+      let removed: number;
+      try {
+        removed = await storage.prune(before);
+      } catch (e) {
+        console.error(chalk.red(`\nCannot prune captures: ${(e as Error).message}\n`));
+        process.exit(1);
+      }
+      storage.close();
+
+      if (removed === 0) {
+        console.log(chalk.green(`\nNo captures before ${new Date(before).toLocaleString()}.\n`));
+      } else {
+        console.log(chalk.green(`\nRemoved ${removed} ${removed === 1 ? 'capture' : 'captures'} from before ${new Date(before).toLocaleString()}.\n`));
+      }
+    });
+
   // Clear command
   program
     .command('clear')
     .description('Clear captured data')
     .option('-d, --data-dir <dir>', 'Directory with captured data', DEFAULT_DATA_DIR)
+    .option('-s, --storage <kind>', STORAGE_OPTION_DESCRIPTION, DEFAULT_STORAGE)
     .option('-y, --yes', 'Skip confirmation')
     .action(async (options) => {
       const dataDir = path.resolve(options.dataDir);
@@ -272,8 +1522,14 @@ export function createCLI(): Command {
         return;
       }
 
-      const storage = new JSONLStorage(dataDir);
-      storage.clear();
+      const storage = openStore(options);
+      try {
+        storage.clear();
+      } catch (e) {
+        console.error(chalk.red(`\nCannot clear captures: ${(e as Error).message}\n`));
+        process.exit(1);
+      }
+      storage.close();
 
       console.log(chalk.green('\nCaptured data cleared.\n'));
     });
@@ -0,0 +1,154 @@
+// Agent classification from configurable rules over system prompts, tools and models
+
+import fs from 'fs';
+import path from 'path';
+import type { CapturedRequest } from '../types.js';
+import { extractSystemPrompt } from './messages.js';
+
+export const AGENT_CONFIG_FILE = 'agents.json';
+
+/** Labels given by the built-in rules */
+export const AGENT_TYPES = [
+  'Main',
+  'Sub-agent',
+  'Explore',
+  'Plan',
+  'Review',
+  'Bash',
+  'Title',
+  'Short',
+  'Agent',
+  'Unknown',
+] as const;
+
+/** A built-in label, or a custom label from agents.json */
+export type AgentType = (typeof AGENT_TYPES)[number] | (string & {});
+
+/**
+ * A labeled set of conditions. A rule matches when all of the conditions it
+ * sets hold; a rule without conditions matches every request.
+ */
+export interface AgentRule {
+  label: string;
+  /** The system prompt contains at least one of these */
+  systemContains?: string[];
+  /** The system prompt contains none of these */
+  systemExcludes?: string[];
+  /** Regular expression the system prompt matches */
+  systemPattern?: string;
+  /** The system prompt is shorter than this many characters */
+  shorterThan?: number;
+  /** The system prompt is longer than this many characters */
+  longerThan?: number;
+  /** Tools the request offers, among others */
+  tools?: string[];
+  /** The exact set of tools the request offers, in any order */
+  toolSet?: string[];
+  /** Regular expression the model id matches */
+  model?: string;
+}
+
+export interface AgentConfig {
+  /** Fall back to the built-in rules after the custom ones (default: true) */
+  defaults?: boolean;
+  /** Custom rules, tried in order before the built-in ones */
+  rules?: AgentRule[];
+}
+
+export const DEFAULT_AGENT_RULES: AgentRule[] = [
+  { label: 'Unknown', shorterThan: 1 },
+  { label: 'Title', systemContains: ['isNewTopic', 'new conversation topic', 'extract a 2-3 word title'] },
+  { label: 'Explore', systemContains: ['You are an exploration agent', 'exploring codebases'] },
+  { label: 'Plan', systemContains: ['You are a planning agent', 'planning the implementation'] },
+  { label: 'Review', systemContains: ['code review', 'Code review'] },
+  { label: 'Bash', systemContains: ['Bash agent', 'bash commands'] },
+  { label: 'Sub-agent', shorterThan: 15000, systemExcludes: ['You are Claude Code, Anthropic\'s official CLI'] },
+  { label: 'Main', systemContains: ['Claude Code, Anthropic\'s official CLI'], longerThan: 20000 },
+  { label: 'Short', shorterThan: 2000 },
+  { label: 'Agent' },
+];
+
+interface CompiledRule extends AgentRule {
+  systemRegex?: RegExp;
+  modelRegex?: RegExp;
+}
+
+/**
+ * Load agent rules: an explicit file must exist; otherwise `agents.json` in
+ * the data directory is used when present
+ */
+export function loadAgentConfig(options: { file?: string; dataDir?: string } = {}): AgentConfig {
+  let file = options.file;
+  if (!file && options.dataDir) {
+    const candidate = path.join(options.dataDir, AGENT_CONFIG_FILE);
+    if (fs.existsSync(candidate)) file = candidate;
+  }
+  if (!file) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as AgentConfig;
+}
+
+function compileRule(rule: AgentRule): CompiledRule {
+  if (!rule.label) {
+    throw new Error('Agent rule is missing a label');
+  }
+  try {
+    return {
+      ...rule,
+      systemRegex: rule.systemPattern ? new RegExp(rule.systemPattern) : undefined,
+      modelRegex: rule.model ? new RegExp(rule.model) : undefined,
+    };
+  } catch (e) {
+    throw new Error(`Invalid pattern in agent rule "${rule.label}": ${(e as Error).message}`);
+  }
+}
+
+function matchesRule(rule: CompiledRule, request: CapturedRequest, system: string, tools: Set<string>): boolean {
+  if (rule.systemContains && !rule.systemContains.some((text) => system.includes(text))) return false;
+  if (rule.systemExcludes && rule.systemExcludes.some((text) => system.includes(text))) return false;
+  if (rule.systemRegex && !rule.systemRegex.test(system)) return false;
+  if (rule.shorterThan !== undefined && system.length >= rule.shorterThan) return false;
+  if (rule.longerThan !== undefined && system.length <= rule.longerThan) return false;
+  if (rule.tools && !rule.tools.every((name) => tools.has(name))) return false;
+  if (rule.toolSet && (rule.toolSet.length !== tools.size || !rule.toolSet.every((name) => tools.has(name)))) return false;
+  if (rule.modelRegex && !rule.modelRegex.test(request.model)) return false;
+  return true;
+}
+
+/**
+ * Classifies the Claude Code agent that sent a request: the main agent, a
+ * built-in or custom subagent, or a utility call such as title generation.
+ * The first matching rule wins.
+ */
+export class AgentClassifier {
+  private rules: CompiledRule[];
+
+  constructor(config: AgentConfig = {}) {
+    const rules = [...(config.rules ?? []), ...(config.defaults === false ? [] : DEFAULT_AGENT_RULES)];
+    this.rules = rules.map(compileRule);
+  }
+
+  classify(request: CapturedRequest): AgentType {
+    const system = extractSystemPrompt(request);
+    const tools = new Set((request.tools ?? []).map((tool) => tool.name));
+    return this.rules.find((rule) => matchesRule(rule, request, system, tools))?.label ?? 'Unknown';
+  }
+}
+
+const defaultClassifier = new AgentClassifier();
+
+/**
+ * Classify a request with the built-in rules
+ */
+export function classifyAgent(request: CapturedRequest): AgentType {
+  return defaultClassifier.classify(request);
+}
+
+/**
+ * The agent type stamped on a request when it was captured, falling back to
+ * the built-in rules for captures logged before stamping
+ */
+export function getAgentType(request: CapturedRequest): AgentType {
+  return request.agent_type ?? classifyAgent(request);
+}
@@ -0,0 +1,388 @@
+// Prompt cache analysis: breakpoints, cached prefixes and the prefix changes behind cache misses
+
+import crypto from 'crypto';
+import type { CapturedRequest, RequestResponsePair } from '../types.js';
+import { getAgentType, type AgentType } from './agents.js';
+import { getPromptTokens } from './context.js';
+import { findModelPricing, type PricingTable } from './pricing.js';
+import { getSessionKey } from './sessions.js';
+
+export type CacheTTL = '5m' | '1h';
+
+const TTL_MS: Record<CacheTTL, number> = { '5m': 5 * 60_000, '1h': 60 * 60_000 };
+
+/** Reads below this share of what the previous request cached count as a miss */
+const MISS_RATIO = 0.95;
+
+/** Characters of context shown on each side of a divergence */
+const SNIPPET_LENGTH = 40;
+
+/**
+ * Why a request read less from the cache than the request before it had
+ * cached. Prefix changes name the part of the prompt that diverged first.
+ */
+export type CacheMissReason =
+  | 'tools-changed'
+  | 'tools-reordered'
+  | 'system-changed'
+  | 'messages-changed'
+  | 'expired'
+  | 'unexplained';
+
+export interface CacheBreakpoint {
+  /** Block carrying the cache_control marker, e.g. "system[2]" or "messages[5].content[1]" */
+  location: string;
+  ttl: CacheTTL;
+  /** Estimated tokens of the prompt up to and including the block */
+  prefixTokens: number;
+}
+
+export interface CacheDivergence {
+  /** First block that differs from the previous request's prompt */
+  location: string;
+  /** Character offset of the first difference within the block's text or JSON */
+  offset: number;
+  before: string;
+  after: string;
+}
+
+export interface CacheMiss {
+  reason: CacheMissReason;
+  divergence?: CacheDivergence;
+  /** Tokens the previous request cached that had to be written again */
+  lostTokens: number;
+  /** Extra cost of writing those tokens instead of reading them */
+  lostCost: number;
+  /** Time since the previous request */
+  gapMs: number;
+}
+
+export interface RequestCacheInfo {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  agentType: AgentType;
+  breakpoints: CacheBreakpoint[];
+  /** Estimated tokens up to the last breakpoint, which the request asks to cache */
+  cachedPrefixTokens: number;
+  promptTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  /** Share of the prompt read from the cache */
+  hitRate: number;
+  /** Request whose cache this one was expected to reuse */
+  previousRequestId?: string;
+  miss?: CacheMiss;
+}
+
+export interface CacheSummary {
+  requests: number;
+  /** Requests with at least one cache_control breakpoint */
+  withBreakpoints: number;
+  promptTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  hitRate: number;
+  misses: number;
+  missesByReason: Partial<Record<CacheMissReason, number>>;
+  lostTokens: number;
+  lostCost: number;
+  perRequest: RequestCacheInfo[];
+}
+
+type Region = 'tools' | 'system' | 'messages';
+
+/** One block of the prompt, in the order the API caches them: tools, system, messages */
+interface Segment {
+  location: string;
+  region: Region;
+  /** Object the block was read from, used to recover its text for a divergence */
+  source: object;
+  text: (source: object) => string;
+  hash: string;
+  size: number;
+  ttl?: CacheTTL;
+}
+
+interface Fingerprint {
+  hash: string;
+  size: number;
+}
+
+interface PromptLayout {
+  segments: Segment[];
+  /** Index of the last segment carrying a breakpoint, -1 when there is none */
+  lastBreakpoint: number;
+  /** Index of the last tools or system segment carrying a breakpoint, -1 when there is none */
+  lastSharedBreakpoint: number;
+}
+
+/** A request another one may read its cache from */
+interface CachedPrompt {
+  info: RequestCacheInfo;
+  layout: PromptLayout;
+  /** When its response ended */
+  end: string;
+}
+
+function getCacheTTL(block: unknown): CacheTTL | undefined {
+  const control = (block as { cache_control?: { type?: string; ttl?: string } } | null)?.cache_control;
+  if (control?.type !== 'ephemeral') return undefined;
+  return control.ttl === '1h' ? '1h' : '5m';
+}
+
+/** A block's content without its cache_control marker, which moves between turns */
+function blockText(block: object): string {
+  const { cache_control: _, ...rest } = block as Record<string, unknown>;
+  return JSON.stringify(rest);
+}
+
+function systemText(block: object): string {
+  return (block as { text?: string }).text ?? blockText(block);
+}
+
+/**
+ * Splits prompts into blocks, hashing each distinct block object once so
+ * content shared between requests (such as blobs the blob store hands out
+ * again) is not re-serialized
+ */
+class PromptSplitter {
+  private fingerprints = new WeakMap<object, Fingerprint>();
+
+  split(request: CapturedRequest): PromptLayout {
+    const segments: Segment[] = [];
+    const add = (location: string, region: Region, source: object, text: (source: object) => string, ttl?: CacheTTL) => {
+      const { hash, size } = this.fingerprint(source, text);
+      segments.push({ location, region, source, text, hash, size, ttl });
+    };
+
+    (request.tools ?? []).forEach((tool, i) => add(`tools[${i}]`, 'tools', tool, blockText, getCacheTTL(tool)));
+    if (typeof request.system === 'string') {
+      add('system', 'system', { text: request.system }, systemText);
+    } else {
+      (request.system ?? []).forEach((block, i) => add(`system[${i}]`, 'system', block, systemText, getCacheTTL(block)));
+    }
+    request.messages.forEach((message, i) => {
+      if (typeof message.content === 'string') {
+        add(`messages[${i}]`, 'messages', message, (source) => JSON.stringify(source));
+        return;
+      }
+      message.content.forEach((block, j) =>
+        add(`messages[${i}].content[${j}]`, 'messages', block, (source) => `${message.role}:${blockText(source)}`, getCacheTTL(block))
+      );
+    });
+
+    let lastBreakpoint = -1;
+    let lastSharedBreakpoint = -1;
+    segments.forEach((segment, i) => {
+      if (!segment.ttl) return;
+      lastBreakpoint = i;
+      if (segment.region !== 'messages') lastSharedBreakpoint = i;
+    });
+    return { segments, lastBreakpoint, lastSharedBreakpoint };
+  }
+
+  private fingerprint(source: object, text: (source: object) => string): Fingerprint {
+    let fingerprint = this.fingerprints.get(source);
+    if (!fingerprint) {
+      const value = text(source);
+      fingerprint = { hash: crypto.createHash('sha1').update(value).digest('base64'), size: value.length };
+      this.fingerprints.set(source, fingerprint);
+    }
+    return fingerprint;
+  }
+}
+
+/**
+ * Index of the first segment that differs, within the first `limit` segments
+ */
+function findDivergence(previous: Segment[], current: Segment[], limit: number): number {
+  for (let i = 0; i < limit; i++) {
+    if (!current[i] || current[i].hash !== previous[i].hash) return i;
+  }
+  return -1;
+}
+
+function describeDivergence(previous: Segment, current: Segment | undefined): CacheDivergence {
+  const before = previous.text(previous.source);
+  if (!current) {
+    return { location: previous.location, offset: 0, before: before.slice(0, SNIPPET_LENGTH * 2), after: '' };
+  }
+  const after = current.text(current.source);
+  let offset = 0;
+  while (offset < before.length && offset < after.length && before[offset] === after[offset]) offset++;
+  const start = Math.max(0, offset - SNIPPET_LENGTH);
+  return {
+    location: current.location,
+    offset,
+    before: before.slice(start, offset + SNIPPET_LENGTH),
+    after: after.slice(start, offset + SNIPPET_LENGTH),
+  };
+}
+
+function classifyPrefixChange(previous: PromptLayout, current: PromptLayout, index: number): CacheMissReason {
+  const region = (current.segments[index] ?? previous.segments[index]).region;
+  if (region === 'system') return 'system-changed';
+  if (region === 'messages') return 'messages-changed';
+
+  // The same tool definitions in a different order still break the prefix
+  const tools = (layout: PromptLayout) =>
+    layout.segments.filter((s) => s.region === 'tools').map((s) => s.hash).sort().join('|');
+  return tools(previous) === tools(current) ? 'tools-reordered' : 'tools-changed';
+}
+
+/**
+ * Explain why a request read less from the cache than the previous request
+ * left in it, or return undefined when it read what was expected
+ */
+function compareWithPrevious(
+  previous: CachedPrompt,
+  layout: PromptLayout,
+  info: RequestCacheInfo,
+  sameConversation: boolean,
+  pricing: PricingTable
+): CacheMiss | undefined {
+  // A new conversation can only share the tools and system prompt
+  const cachedUpTo = sameConversation ? previous.layout.lastBreakpoint : previous.layout.lastSharedBreakpoint;
+  if (cachedUpTo < 0) return undefined;
+
+  const expected = sameConversation
+    ? previous.info.cacheReadTokens + previous.info.cacheCreationTokens
+    : previous.info.breakpoints.find((b) => b.location === previous.layout.segments[cachedUpTo].location)!.prefixTokens;
+  const divergence = findDivergence(previous.layout.segments, layout.segments, cachedUpTo + 1);
+  const gapMs = Date.parse(info.timestamp) - Date.parse(previous.end);
+  const ttl = previous.layout.segments[cachedUpTo].ttl!;
+
+  let reason: CacheMissReason;
+  if (divergence !== -1) {
+    reason = classifyPrefixChange(previous.layout, layout, divergence);
+  } else if (sameConversation && info.cacheReadTokens < expected * MISS_RATIO) {
+    // Estimates for a new conversation are too rough to call a shortfall a miss
+    reason = gapMs > TTL_MS[ttl] ? 'expired' : 'unexplained';
+  } else {
+    return undefined;
+  }
+
+  // A prefix that changed but still read as much as expected, e.g. from
+  // another cache entry, lost nothing and is not a miss
+  const lostTokens = expected - info.cacheReadTokens;
+  if (lostTokens <= 0) return undefined;
+  const rates = findModelPricing(info.model, pricing);
+  // The lost prefix is written again at the rate of the breakpoint that cached it
+  const writeRate = rates ? (ttl === '1h' ? rates.cacheWrite1h : rates.cacheWrite5m) : 0;
+  return {
+    reason,
+    divergence: divergence !== -1
+      ? describeDivergence(previous.layout.segments[divergence], layout.segments[divergence])
+      : undefined,
+    lostTokens,
+    lostCost: rates ? (lostTokens * (writeRate - rates.cacheRead)) / 1_000_000 : 0,
+    gapMs,
+  };
+}
+
+/**
+ * Locates the cache_control breakpoints of each capture as captures are
+ * streamed from a store, compares what each request read from the cache with
+ * what the request before it cached, and explains the shortfalls. A request is
+ * compared with the previous request of its conversation; the first request of
+ * a conversation is compared with the latest request of the same session,
+ * agent and model, on tools and system prompt only, since its messages are
+ * new. Only the latest prompt of each conversation and agent is kept.
+ */
+export class CacheCollector {
+  private splitter = new PromptSplitter();
+  // Latest successful request per conversation, and per session, agent and model
+  private latestByConversation = new Map<string, CachedPrompt>();
+  private latestByAgent = new Map<string, CachedPrompt>();
+  private perRequest: RequestCacheInfo[] = [];
+  private pricing: PricingTable;
+
+  constructor(pricing: PricingTable) {
+    this.pricing = pricing;
+  }
+
+  /**
+   * Add a capture, in timestamp order, with the id of its conversation
+   */
+  add(pair: RequestResponsePair, conversationId: string): void {
+    const { request, response } = pair;
+    if (!response || response.error) return;
+
+    const layout = this.splitter.split(request);
+    const agentType = getAgentType(request);
+    const agentKey = `${getSessionKey(request) ?? ''}|${agentType}|${request.model}`;
+    const sameConversation = this.latestByConversation.has(conversationId);
+    const previous = sameConversation ? this.latestByConversation.get(conversationId) : this.latestByAgent.get(agentKey);
+
+    const usage = response.usage;
+    const promptTokens = getPromptTokens(usage);
+    const cacheRead = usage.cache_read_input_tokens || 0;
+    const cacheCreation = usage.cache_creation_input_tokens || 0;
+
+    // Estimate block sizes in tokens from their share of the prompt
+    const totalSize = layout.segments.reduce((sum, segment) => sum + segment.size, 0);
+    const scale = promptTokens / Math.max(totalSize, 1);
+    const breakpoints: CacheBreakpoint[] = [];
+    let prefixSize = 0;
+    for (const segment of layout.segments) {
+      prefixSize += segment.size;
+      if (segment.ttl) {
+        breakpoints.push({ location: segment.location, ttl: segment.ttl, prefixTokens: Math.round(prefixSize * scale) });
+      }
+    }
+
+    const info: RequestCacheInfo = {
+      requestId: request.id,
+      timestamp: request.timestamp,
+      model: request.model,
+      agentType,
+      breakpoints,
+      cachedPrefixTokens: breakpoints.length > 0 ? breakpoints[breakpoints.length - 1].prefixTokens : 0,
+      promptTokens,
+      cacheReadTokens: cacheRead,
+      cacheCreationTokens: cacheCreation,
+      hitRate: promptTokens > 0 ? cacheRead / promptTokens : 0,
+    };
+
+    if (previous) {
+      info.previousRequestId = previous.info.requestId;
+      info.miss = compareWithPrevious(previous, layout, info, sameConversation, this.pricing);
+    }
+
+    this.perRequest.push(info);
+    const entry = { info, layout, end: response.timestamp };
+    this.latestByConversation.set(conversationId, entry);
+    this.latestByAgent.set(agentKey, entry);
+  }
+
+  summary(): CacheSummary {
+    const perRequest = this.perRequest;
+    const summary: CacheSummary = {
+      requests: perRequest.length,
+      withBreakpoints: perRequest.filter((info) => info.breakpoints.length > 0).length,
+      promptTokens: 0,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+      hitRate: 0,
+      misses: 0,
+      missesByReason: {},
+      lostTokens: 0,
+      lostCost: 0,
+      perRequest,
+    };
+    for (const info of perRequest) {
+      summary.promptTokens += info.promptTokens;
+      summary.cacheReadTokens += info.cacheReadTokens;
+      summary.cacheCreationTokens += info.cacheCreationTokens;
+      if (info.miss) {
+        summary.misses++;
+        summary.missesByReason[info.miss.reason] = (summary.missesByReason[info.miss.reason] || 0) + 1;
+        summary.lostTokens += info.miss.lostTokens;
+        summary.lostCost += info.miss.lostCost;
+      }
+    }
+    summary.hitRate = summary.promptTokens > 0 ? summary.cacheReadTokens / summary.promptTokens : 0;
+    return summary;
+  }
+}
@@ -0,0 +1,132 @@
+// Lightweight capture summaries for list views
+
+import type {
+  CapturedRequest,
+  CapturedResponse,
+  RequestResponsePair,
+  TextContent,
+  ToolResultContent,
+} from '../types.js';
+import { getAgentType, type AgentType } from './agents.js';
+import { getSessionKey } from './sessions.js';
+import { extractSystemPrompt } from './messages.js';
+import { isServerToolError } from './tools.js';
+import { hashText } from './prompts.js';
+
+export interface RequestSummary {
+  id: string;
+  timestamp: string;
+  model: string;
+  stream?: boolean;
+  agentType: AgentType;
+  /** Session key from metadata.user_id, when present */
+  sessionKey?: string;
+  messageCount: number;
+  systemLength: number;
+  /** Hash of the system prompt in the prompt registry (see parser/prompts) */
+  systemHash?: string;
+  /** First substantial line of the system prompt */
+  systemPreview: string;
+  /** Last user message, truncated, or a tool result count */
+  preview: string;
+  toolResults: Array<{ tool_use_id: string; is_error: boolean }>;
+}
+
+export interface ResponseSummary extends Omit<CapturedResponse, 'content'> {
+  toolUses: Array<{ id: string; name: string; server: boolean }>;
+  /** Ids of server tool uses whose results came back as errors */
+  serverToolErrors: string[];
+}
+
+export interface CaptureSummary {
+  request: RequestSummary;
+  response: ResponseSummary | null;
+}
+
+const PREVIEW_LENGTH = 100;
+
+function truncate(text: string): string {
+  return text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) + '...' : text;
+}
+
+function getSystemPreview(system: string): string {
+  const line = system.split('\n').find((l) => l.trim().length > 10);
+  return line ? truncate(line.trim()) : '';
+}
+
+function getPreview(request: CapturedRequest): string {
+  const lastUserMsg = [...request.messages].reverse().find((m) => m.role === 'user');
+  if (!lastUserMsg) return '';
+
+  const content = lastUserMsg.content;
+  if (typeof content === 'string') return truncate(content);
+
+  const text = content.find((b): b is TextContent => b.type === 'text');
+  if (text) return truncate(text.text);
+
+  const toolResults = content.filter((b) => b.type === 'tool_result').length;
+  return toolResults > 0 ? `Tool results: ${toolResults}` : '';
+}
+
+/**
+ * Summarize a request without its message, system prompt and tool bodies
+ */
+export function summarizeRequest(request: CapturedRequest): RequestSummary {
+  const system = extractSystemPrompt(request);
+  const toolResults: RequestSummary['toolResults'] = [];
+  const lastMessage = request.messages[request.messages.length - 1];
+  if (lastMessage && lastMessage.role === 'user' && Array.isArray(lastMessage.content)) {
+    for (const block of lastMessage.content) {
+      if (block.type === 'tool_result') {
+        const result = block as ToolResultContent;
+        toolResults.push({ tool_use_id: result.tool_use_id, is_error: !!result.is_error });
+      }
+    }
+  }
+
+  return {
+    id: request.id,
+    timestamp: request.timestamp,
+    model: request.model,
+    stream: request.stream,
+    agentType: getAgentType(request),
+    sessionKey: getSessionKey(request),
+    messageCount: request.messages.length,
+    systemLength: system.length,
+    systemHash: system ? hashText(system) : undefined,
+    systemPreview: getSystemPreview(system),
+    preview: getPreview(request),
+    toolResults,
+  };
+}
+
+/**
+ * Summarize a response without its content blocks
+ */
+export function summarizeResponse(response: CapturedResponse): ResponseSummary {
+  const { content, ...rest } = response;
+  const toolUses: ResponseSummary['toolUses'] = [];
+  const serverToolErrors: string[] = [];
+
+  for (const block of content) {
+    if (block.type === 'tool_use' || block.type === 'server_tool_use') {
+      toolUses.push({ id: block.id, name: block.name, server: block.type === 'server_tool_use' });
+    } else if (block.type === 'web_search_tool_result' || block.type === 'web_fetch_tool_result') {
+      if (isServerToolError(block)) {
+        serverToolErrors.push(block.tool_use_id);
+      }
+    }
+  }
+
+  return { ...rest, toolUses, serverToolErrors };
+}
+
+/**
+ * Summarize a request/response pair for list views
+ */
+export function summarizePair(pair: RequestResponsePair): CaptureSummary {
+  return {
+    request: summarizeRequest(pair.request),
+    response: pair.response ? summarizeResponse(pair.response) : null,
+  };
+}
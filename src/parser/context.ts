@@ -0,0 +1,192 @@
+// Context window growth per turn and compaction detection
+
+import type { CapturedRequest, RequestResponsePair, TokenUsage } from '../types.js';
+import { getAgentType, type AgentType } from './agents.js';
+import { extractSystemPrompt } from './messages.js';
+import type { Session } from './sessions.js';
+
+export const DEFAULT_CONTEXT_LIMIT = 200_000;
+export const EXTENDED_CONTEXT_LIMIT = 1_000_000;
+
+/** History shrinking below this share of the previous turn's counts as compaction */
+const COMPACTION_RATIO = 0.5;
+
+/** Claude Code opens the history that replaces a compacted conversation with this */
+const CONTINUATION_MARKER = 'continued from a previous conversation';
+
+export interface ContextTurn {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  /** Input, cache read and cache creation tokens */
+  total: number;
+  limit: number;
+  /**
+   * Estimated split of the total, proportional to the size of each part of
+   * the request body
+   */
+  system: number;
+  tools: number;
+  history: number;
+  messages: number;
+}
+
+export interface CompactionEvent {
+  /** First request after the history shrank */
+  requestId: string;
+  timestamp: string;
+  /** Estimated history tokens of the turns before and after */
+  historyBefore: number;
+  historyAfter: number;
+  /** Share of the context limit used by the turn before */
+  usageBefore: number;
+  /** Whether the new history opens with a summary of the old one, or older turns were dropped or cleared */
+  kind: 'summary' | 'trim';
+}
+
+export interface SessionContext {
+  sessionId: string;
+  /** Agent whose turns are charted, that of the session's longest conversation */
+  agentType: AgentType;
+  turns: ContextTurn[];
+  compactions: CompactionEvent[];
+  /** Largest prompt of any turn */
+  peak: number;
+}
+
+/**
+ * Context window of the model a request was sent to: 1M tokens with the
+ * context-1m beta, 200K otherwise
+ */
+export function getContextLimit(request: CapturedRequest): number {
+  const beta = request.headers?.['anthropic-beta'] || '';
+  return beta.includes('context-1m') ? EXTENDED_CONTEXT_LIMIT : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Tokens the model read for a request: uncached input plus cache reads and writes
+ */
+export function getPromptTokens(usage: TokenUsage): number {
+  return usage.input_tokens + (usage.cache_read_input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+}
+
+/**
+ * Measures JSON sizes, remembering values shared between requests such as
+ * the tools and messages the blob store reads once and hands out again
+ */
+class SizeCache {
+  private sizes = new WeakMap<object, number>();
+
+  size(value: object): number {
+    let size = this.sizes.get(value);
+    if (size === undefined) {
+      size = JSON.stringify(value).length;
+      this.sizes.set(value, size);
+    }
+    return size;
+  }
+}
+
+function firstUserText(request: CapturedRequest): string {
+  const message = request.messages.find((m) => m.role === 'user');
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map((block) => (block.type === 'text' ? block.text : '')).join('\n');
+}
+
+function buildTurn(pair: RequestResponsePair, sizes: SizeCache): ContextTurn | null {
+  const { request, response } = pair;
+  if (!response) return null;
+  const total = getPromptTokens(response.usage);
+  if (total === 0) return null;
+
+  const systemSize = extractSystemPrompt(request).length;
+  const toolsSize = request.tools ? sizes.size(request.tools) : 0;
+  const historySize = request.messages.reduce((sum, message) => sum + sizes.size(message), 0);
+  const scale = total / Math.max(systemSize + toolsSize + historySize, 1);
+  const system = Math.round(systemSize * scale);
+  const tools = Math.round(toolsSize * scale);
+
+  return {
+    requestId: request.id,
+    timestamp: request.timestamp,
+    model: request.model,
+    total,
+    limit: getContextLimit(request),
+    system,
+    tools,
+    history: total - system - tools,
+    messages: request.messages.length,
+  };
+}
+
+/** What context analysis keeps of each capture */
+interface TurnRecord {
+  agentType: AgentType;
+  turn: ContextTurn | null;
+  /** Whether the history opens with a summary of a compacted conversation */
+  continued: boolean;
+}
+
+/**
+ * Measures each capture's prompt as captures are streamed from a store, and
+ * charts them per session once every capture has been added
+ */
+export class ContextCollector {
+  private sizes = new SizeCache();
+  private records = new Map<string, TurnRecord>();
+
+  add(pair: RequestResponsePair): void {
+    this.records.set(pair.request.id, {
+      agentType: getAgentType(pair.request),
+      turn: buildTurn(pair, this.sizes),
+      continued: firstUserText(pair.request).includes(CONTINUATION_MARKER),
+    });
+  }
+
+  /**
+   * Chart each session's prompt size per turn against the model's context
+   * limit, and find the turns where the history shrank
+   */
+  analyze(sessions: Session[]): SessionContext[] {
+    return sessions
+      .map((session) => this.analyzeSession(session))
+      .filter((context) => context.turns.length > 0);
+  }
+
+  private analyzeSession(session: Session): SessionContext {
+    // Subagents and utility calls have contexts of their own, so only the
+    // agent of the longest conversation is charted
+    const main = session.conversations.reduce((a, b) => (b.requestIds.length > a.requestIds.length ? b : a));
+    const agentType = this.records.get(main.requestIds[0])!.agentType;
+
+    const turns: ContextTurn[] = [];
+    const compactions: CompactionEvent[] = [];
+    for (const id of session.requestIds) {
+      const record = this.records.get(id)!;
+      if (record.agentType !== agentType || !record.turn) continue;
+      const turn = record.turn;
+
+      const previous = turns[turns.length - 1];
+      if (previous && turn.messages < previous.messages && turn.history < previous.history * COMPACTION_RATIO) {
+        compactions.push({
+          requestId: turn.requestId,
+          timestamp: turn.timestamp,
+          historyBefore: previous.history,
+          historyAfter: turn.history,
+          usageBefore: previous.total / previous.limit,
+          kind: record.continued ? 'summary' : 'trim',
+        });
+      }
+      turns.push(turn);
+    }
+
+    return {
+      sessionId: session.id,
+      agentType,
+      turns,
+      compactions,
+      peak: turns.reduce((max, turn) => Math.max(max, turn.total), 0),
+    };
+  }
+}
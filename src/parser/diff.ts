@@ -0,0 +1,155 @@
+// Line-based diffing for prompts, tool schemas and other captured text
+
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface DiffHunk {
+  /** 1-based first line in the old text (0 when the hunk only inserts into an empty text) */
+  fromStart: number;
+  fromCount: number;
+  toStart: number;
+  toCount: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Diff two lists of lines with Myers' algorithm, returning the shortest edit script
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+
+  // trace[d][k + d] holds the furthest x reached on diagonal k after d edits
+  const trace: number[][] = [];
+  let v: number[] = [0];
+  let found = n === 0 && m === 0;
+
+  for (let d = 0; !found && d <= n + m; d++) {
+    const next: number[] = new Array(2 * d + 1);
+    const prev = (k: number) => v[k + d - 1];
+    for (let k = -d; k <= d; k += 2) {
+      let x = d === 0
+        ? 0
+        : k === -d || (k !== d && prev(k - 1) < prev(k + 1)) ? prev(k + 1) : prev(k - 1) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[k + d] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    trace.push(next);
+    v = next;
+  }
+
+  // Walk back from the end to recover the edits
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      result.push({ type: 'insert', text: b[--y] });
+    } else {
+      result.push({ type: 'delete', text: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    result.push({ type: 'equal', text: a[--x] });
+    y--;
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Group a diff into unified diff hunks with the given lines of context
+ */
+export function buildHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let fromLine = 1;
+  let toLine = 1;
+  // Equal lines seen since the last change in the current hunk
+  let trailing = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.type === 'equal') {
+      if (current) {
+        // Keep going while in trailing context, or when the next change is close
+        // enough that this line is also its leading context
+        const nearNextChange = () => {
+          const next = lines.findIndex((l, j) => j > i && l.type !== 'equal');
+          return next !== -1 && next - i <= context;
+        };
+        if (trailing < context || nearNextChange()) {
+          current.lines.push(line);
+          current.fromCount++;
+          current.toCount++;
+          trailing++;
+        } else {
+          hunks.push(current);
+          current = null;
+        }
+      }
+      fromLine++;
+      toLine++;
+      continue;
+    }
+
+    if (!current) {
+      const lead = lines.slice(Math.max(0, i - context), i);
+      current = {
+        fromStart: fromLine - lead.length,
+        fromCount: lead.length,
+        toStart: toLine - lead.length,
+        toCount: lead.length,
+        lines: [...lead],
+      };
+    }
+    current.lines.push(line);
+    trailing = 0;
+    if (line.type === 'delete') {
+      current.fromCount++;
+      fromLine++;
+    } else {
+      current.toCount++;
+      toLine++;
+    }
+  }
+  if (current) hunks.push(current);
+
+  // Unified diff convention: a range with no lines starts at the line before it
+  for (const hunk of hunks) {
+    if (hunk.fromCount === 0) hunk.fromStart--;
+    if (hunk.toCount === 0) hunk.toStart--;
+  }
+  return hunks;
+}
+
+/**
+ * Diff two texts line by line into unified diff hunks
+ */
+export function diffText(a: string, b: string, context: number = 3): DiffHunk[] {
+  const split = (text: string) => (text ? text.split('\n') : []);
+  return buildHunks(diffLines(split(a), split(b)), context);
+}
+
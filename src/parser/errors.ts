@@ -0,0 +1,140 @@
+// Error and rate limit analysis
+
+import type { CapturedResponse, RequestResponsePair } from '../types.js';
+
+export interface ErrorEntry {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  status?: number;
+  type: string;
+  message: string;
+  retryAfter?: string;
+  apiRequestId?: string;
+}
+
+export interface RateLimitSnapshot {
+  timestamp: string;
+  /** anthropic-ratelimit-* headers with the prefix stripped, e.g. "input-tokens-remaining" */
+  limits: Record<string, string>;
+}
+
+export interface ErrorSummary {
+  /** Responses recorded, including errors */
+  responses: number;
+  errors: number;
+  /** Requests that never got a response recorded */
+  pending: number;
+  byStatus: Array<{ status: string; count: number }>;
+  byType: Array<{ type: string; count: number }>;
+  byDay: Array<{ day: string; requests: number; errors: number; rateLimited: number; overloaded: number }>;
+  rateLimited: number;
+  overloaded: number;
+  /** Most recent rate limit headers seen */
+  latestRateLimits: RateLimitSnapshot | null;
+  recent: ErrorEntry[];
+}
+
+const RATE_LIMIT_PREFIX = 'anthropic-ratelimit-';
+
+export function isRateLimited(response: CapturedResponse): boolean {
+  return response.status === 429 || response.error?.type === 'rate_limit_error';
+}
+
+export function isOverloaded(response: CapturedResponse): boolean {
+  return response.status === 529 || response.error?.type === 'overloaded_error';
+}
+
+/**
+ * Whether a response failed: an HTTP error status, a streamed error event or a proxy failure
+ */
+export function isErrorResponse(response: CapturedResponse): boolean {
+  return !!response.error || (response.status !== undefined && response.status >= 400);
+}
+
+/**
+ * Summarize failed responses by status, error type and day, and track rate limit headers
+ */
+export function summarizeErrors(pairs: RequestResponsePair[], recentLimit: number = 20): ErrorSummary {
+  const byStatus = new Map<string, number>();
+  const byType = new Map<string, number>();
+  const byDay = new Map<string, { requests: number; errors: number; rateLimited: number; overloaded: number }>();
+  const entries: ErrorEntry[] = [];
+  let responses = 0;
+  let pending = 0;
+  let rateLimited = 0;
+  let overloaded = 0;
+  let latestRateLimits: RateLimitSnapshot | null = null;
+
+  const sorted = [...pairs].sort((a, b) => a.request.timestamp.localeCompare(b.request.timestamp));
+
+  for (const { request, response } of sorted) {
+    if (!response) {
+      pending++;
+      continue;
+    }
+    responses++;
+
+    const day = request.timestamp.slice(0, 10);
+    const dayEntry = byDay.get(day) || { requests: 0, errors: 0, rateLimited: 0, overloaded: 0 };
+    dayEntry.requests++;
+    byDay.set(day, dayEntry);
+
+    const limits = Object.entries(response.headers || {}).filter(([name]) => name.startsWith(RATE_LIMIT_PREFIX));
+    if (limits.length > 0) {
+      latestRateLimits = {
+        timestamp: response.timestamp,
+        limits: Object.fromEntries(limits.map(([name, value]) => [name.slice(RATE_LIMIT_PREFIX.length), value])),
+      };
+    }
+
+    if (!isErrorResponse(response)) continue;
+
+    // Errors streamed after a 200 have no error status of their own
+    const status = response.status !== undefined && response.status >= 400 ? String(response.status) : 'stream';
+    const type = response.error?.type || `http_${status}`;
+    byStatus.set(status, (byStatus.get(status) || 0) + 1);
+    byType.set(type, (byType.get(type) || 0) + 1);
+    dayEntry.errors++;
+
+    if (isRateLimited(response)) {
+      rateLimited++;
+      dayEntry.rateLimited++;
+    }
+    if (isOverloaded(response)) {
+      overloaded++;
+      dayEntry.overloaded++;
+    }
+
+    entries.push({
+      requestId: request.id,
+      timestamp: response.timestamp,
+      model: request.model,
+      status: response.status,
+      type,
+      message: response.error?.message || '',
+      retryAfter: response.headers?.['retry-after'],
+      apiRequestId: response.headers?.['request-id'],
+    });
+  }
+
+  const toList = <K extends string>(map: Map<string, number>, key: K) =>
+    Array.from(map.entries())
+      .map(([value, count]) => ({ [key]: value, count }) as Record<K, string> & { count: number })
+      .sort((a, b) => b.count - a.count);
+
+  return {
+    responses,
+    errors: entries.length,
+    pending,
+    byStatus: toList(byStatus, 'status'),
+    byType: toList(byType, 'type'),
+    byDay: Array.from(byDay.entries())
+      .map(([day, entry]) => ({ day, ...entry }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+    rateLimited,
+    overloaded,
+    latestRateLimits,
+    recent: entries.slice(-recentLimit).reverse(),
+  };
+}
@@ -0,0 +1,135 @@
+// Latency analysis from response timing milestones
+
+import type { CapturedResponse, GapStats } from '../types.js';
+
+export interface Percentiles {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Where the time of a single response went, in milliseconds. The phases add
+ * up to the response's duration_ms.
+ */
+export interface LatencyPhases {
+  /** Until the upstream accepted the request and sent message_start */
+  queue: number;
+  /** From message_start to the first content delta */
+  firstToken: number;
+  /** Leading thinking, before the first text or tool input delta */
+  thinking: number;
+  /** Streaming text and tool input */
+  generating: number;
+  /** After the last content delta until the stream closed */
+  tail: number;
+}
+
+export interface LatencySummary {
+  /** Responses with timing data */
+  timed: number;
+  duration: Percentiles | null;
+  ttfb: Percentiles | null;
+  messageStart: Percentiles | null;
+  firstContent: Percentiles | null;
+  thinking: Percentiles | null;
+  generating: Percentiles | null;
+  /** Per-response p95 inter-chunk gap */
+  interChunkP95: Percentiles | null;
+  /** Output tokens (including thinking) per second of streamed content */
+  outputTokensPerSecond: Percentiles | null;
+}
+
+/**
+ * Nearest-rank percentile of an ascending sorted list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * p50/p90/p99/max of a list of values, or null when there are none
+ */
+export function summarizePercentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Summarize gaps between consecutive event times, as stored on ResponseTiming
+ */
+export function summarizeGaps(times: number[]): GapStats | undefined {
+  if (times.length < 2) return undefined;
+  const gaps = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  return {
+    count: gaps.length,
+    mean_ms: Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length),
+    p50_ms: percentile(gaps, 50),
+    p95_ms: percentile(gaps, 95),
+    max_ms: gaps[gaps.length - 1],
+  };
+}
+
+/**
+ * Split a streamed response's duration into queue, first token, thinking,
+ * generating and tail phases. Returns null without streaming timing data.
+ */
+export function getLatencyPhases(response: CapturedResponse): LatencyPhases | null {
+  const timing = response.timing;
+  if (!timing || timing.first_content_ms === undefined) return null;
+
+  const queueEnd = timing.message_start_ms ?? timing.ttfb_ms;
+  const firstContent = timing.first_content_ms;
+  const firstOutput = timing.first_output_ms ?? firstContent;
+  const lastContent = timing.last_content_ms ?? firstOutput;
+  const end = Math.max(response.duration_ms, lastContent);
+
+  return {
+    queue: queueEnd,
+    firstToken: firstContent - queueEnd,
+    thinking: firstOutput - firstContent,
+    generating: lastContent - firstOutput,
+    tail: end - lastContent,
+  };
+}
+
+/**
+ * Latency percentiles across responses
+ */
+export function summarizeLatency(responses: CapturedResponse[]): LatencySummary {
+  const timed = responses.filter((r) => r.timing);
+  const phases = timed
+    .map((response) => ({ response, phases: getLatencyPhases(response) }))
+    .filter((entry): entry is { response: CapturedResponse; phases: LatencyPhases } => entry.phases !== null);
+
+  const collect = (values: Array<number | undefined>): Percentiles | null =>
+    summarizePercentiles(values.filter((v): v is number => v !== undefined));
+
+  return {
+    timed: timed.length,
+    duration: collect(responses.map((r) => r.duration_ms)),
+    ttfb: collect(timed.map((r) => r.timing!.ttfb_ms)),
+    messageStart: collect(timed.map((r) => r.timing!.message_start_ms)),
+    firstContent: collect(timed.map((r) => r.timing!.first_content_ms)),
+    thinking: collect(phases.filter((p) => p.phases.thinking > 0).map((p) => p.phases.thinking)),
+    generating: collect(phases.map((p) => p.phases.generating)),
+    interChunkP95: collect(timed.map((r) => r.timing!.inter_chunk?.p95_ms)),
+    outputTokensPerSecond: collect(
+      phases
+        .map((p) => ({ tokens: p.response.usage.output_tokens, ms: p.phases.thinking + p.phases.generating }))
+        .filter(({ ms }) => ms > 0)
+        .map(({ tokens, ms }) => Math.round((tokens * 1000) / ms))
+    ),
+  };
+}
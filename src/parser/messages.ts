@@ -102,13 +102,7 @@ export function extractToolUses(response: CapturedResponse): ToolUseContent[] {
   );
 }
 
-/**
- * Get conversation statistics
- */
-export function getConversationStats(
-  requests: CapturedRequest[],
-  responses: CapturedResponse[]
-): {
+export interface ConversationStats {
   totalMessages: number;
   userMessages: number;
   assistantMessages: number;
@@ -118,45 +112,66 @@ export function getConversationStats(
   cacheReadTokens: number;
   cacheCreationTokens: number;
   averageResponseTime: number;
-} {
-  let userMessages = 0;
-  let assistantMessages = 0;
-  let toolCalls = 0;
+}
 
-  for (const request of requests) {
+/**
+ * Accumulates conversation statistics as captures are streamed from a store
+ */
+export class ConversationStatsCollector {
+  private userMessages = 0;
+  private assistantMessages = 0;
+  private toolCalls = 0;
+  private totalInputTokens = 0;
+  private totalOutputTokens = 0;
+  private cacheReadTokens = 0;
+  private cacheCreationTokens = 0;
+  private totalResponseTime = 0;
+  private responses = 0;
+
+  addRequest(request: CapturedRequest): void {
     for (const msg of request.messages) {
-      if (msg.role === 'user') userMessages++;
-      else assistantMessages++;
+      if (msg.role === 'user') this.userMessages++;
+      else this.assistantMessages++;
     }
   }
 
-  let totalInputTokens = 0;
-  let totalOutputTokens = 0;
-  let cacheReadTokens = 0;
-  let cacheCreationTokens = 0;
-  let totalResponseTime = 0;
+  addResponse(response: CapturedResponse): void {
+    this.totalInputTokens += response.usage.input_tokens;
+    this.totalOutputTokens += response.usage.output_tokens;
+    this.cacheReadTokens += response.usage.cache_read_input_tokens || 0;
+    this.cacheCreationTokens += response.usage.cache_creation_input_tokens || 0;
+    this.totalResponseTime += response.duration_ms;
+    this.responses++;
 
-  for (const response of responses) {
-    totalInputTokens += response.usage.input_tokens;
-    totalOutputTokens += response.usage.output_tokens;
-    cacheReadTokens += response.usage.cache_read_input_tokens || 0;
-    cacheCreationTokens += response.usage.cache_creation_input_tokens || 0;
-    totalResponseTime += response.duration_ms;
+    this.toolCalls += response.content.filter((b) => b.type === 'tool_use').length;
+  }
 
-    toolCalls += response.content.filter((b) => b.type === 'tool_use').length;
+  stats(): ConversationStats {
+    return {
+      totalMessages: this.userMessages + this.assistantMessages,
+      userMessages: this.userMessages,
+      assistantMessages: this.assistantMessages,
+      toolCalls: this.toolCalls,
+      totalInputTokens: this.totalInputTokens,
+      totalOutputTokens: this.totalOutputTokens,
+      cacheReadTokens: this.cacheReadTokens,
+      cacheCreationTokens: this.cacheCreationTokens,
+      averageResponseTime: this.responses > 0 ? this.totalResponseTime / this.responses : 0,
+    };
   }
+}
 
-  return {
-    totalMessages: userMessages + assistantMessages,
-    userMessages,
-    assistantMessages,
-    toolCalls,
-    totalInputTokens,
-    totalOutputTokens,
-    cacheReadTokens,
-    cacheCreationTokens,
-    averageResponseTime: responses.length > 0 ? totalResponseTime / responses.length : 0,
-  };
+/**
+ * Get conversation statistics
+ */
+export function getConversationStats(
+  requests: CapturedRequest[],
+  responses: CapturedResponse[]
+): ConversationStats {
+  const collector = new ConversationStatsCollector();
+  for (const request of requests) collector.addRequest(request);
+  for (const response of responses) collector.addResponse(response);
+  return collector.stats();
 }
 
 /**
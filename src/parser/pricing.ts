@@ -0,0 +1,203 @@
+// Cost estimation from token usage
+
+import fs from 'fs';
+import path from 'path';
+import type { RequestResponsePair, TokenUsage } from '../types.js';
+import type { Session } from './sessions.js';
+
+/** Rates in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+  cacheRead: number;
+}
+
+export interface PricingTable {
+  version: string;
+  /** Keyed by model family, e.g. "claude-sonnet-4-5", or by exact model id */
+  models: Record<string, ModelPricing>;
+}
+
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+  total: number;
+  /** False when no pricing entry matched the model */
+  priced: boolean;
+}
+
+export interface CostSummary {
+  pricingVersion: string;
+  total: number;
+  perRequest: Array<{ requestId: string; timestamp: string; model: string; cost: number }>;
+  bySession: Array<{ sessionId: string; requests: number; cost: number }>;
+  byModel: Array<{ model: string; requests: number; cost: number }>;
+  byDay: Array<{ day: string; requests: number; cost: number }>;
+  unpricedModels: string[];
+}
+
+export const PRICING_FILE_NAME = 'pricing.json';
+
+/**
+ * Anthropic list prices. Cache writes cost 1.25x (5 minute TTL) or 2x
+ * (1 hour TTL) the input rate; cache reads cost 0.1x.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  version: '2025-11-24',
+  models: {
+    'claude-opus-4-5': { input: 5, output: 25, cacheWrite5m: 6.25, cacheWrite1h: 10, cacheRead: 0.5 },
+    'claude-opus-4-1': { input: 15, output: 75, cacheWrite5m: 18.75, cacheWrite1h: 30, cacheRead: 1.5 },
+    'claude-opus-4': { input: 15, output: 75, cacheWrite5m: 18.75, cacheWrite1h: 30, cacheRead: 1.5 },
+    'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+    'claude-sonnet-4': { input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+    'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+    'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+    'claude-haiku-4-5': { input: 1, output: 5, cacheWrite5m: 1.25, cacheWrite1h: 2, cacheRead: 0.1 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite5m: 1, cacheWrite1h: 1.6, cacheRead: 0.08 },
+    'claude-3-opus': { input: 15, output: 75, cacheWrite5m: 18.75, cacheWrite1h: 30, cacheRead: 1.5 },
+    'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite5m: 0.3, cacheWrite1h: 0.5, cacheRead: 0.03 },
+  },
+};
+
+/**
+ * Load the pricing table, merging user overrides over the defaults.
+ * An explicit file must exist; otherwise `pricing.json` in the data
+ * directory is used when present.
+ */
+export function loadPricing(options: { file?: string; dataDir?: string } = {}): PricingTable {
+  let file = options.file;
+  if (!file && options.dataDir) {
+    const candidate = path.join(options.dataDir, PRICING_FILE_NAME);
+    if (fs.existsSync(candidate)) file = candidate;
+  }
+  if (!file) {
+    return DEFAULT_PRICING;
+  }
+
+  const overrides = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<PricingTable>;
+  return {
+    version: overrides.version || `${DEFAULT_PRICING.version}+${path.basename(file)}`,
+    models: { ...DEFAULT_PRICING.models, ...overrides.models },
+  };
+}
+
+/**
+ * Model family of an id: drops Bedrock region/provider prefixes, a dated
+ * ("-20251101", "@20251101") or "-latest" snapshot suffix and a Bedrock
+ * version suffix ("-v1:0")
+ */
+const MODEL_ID = /^(?:[a-z]+\.)*(.+?)(?:[-@](?:\d{8}|latest))?(?:-v\d+(?::\d+)?)?$/;
+
+/**
+ * Find pricing for a model id: an entry keyed by the exact id, else by its
+ * family, so "claude-opus-4-5-20251101" and Bedrock/Vertex ids resolve but
+ * an unlisted family such as "claude-opus-4-6" stays unpriced.
+ */
+export function findModelPricing(model: string, table: PricingTable): ModelPricing | null {
+  if (table.models[model]) return table.models[model];
+  const family = MODEL_ID.exec(model)?.[1];
+  return family && table.models[family] ? table.models[family] : null;
+}
+
+/**
+ * Estimate the cost of a single response's token usage
+ */
+export function estimateCost(usage: TokenUsage, model: string, table: PricingTable): CostBreakdown {
+  const pricing = findModelPricing(model, table);
+  if (!pricing) {
+    return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0, total: 0, priced: false };
+  }
+
+  // Without a TTL breakdown all cache writes are billed at the 5 minute rate
+  const cacheCreation = usage.cache_creation_input_tokens || 0;
+  const write1h = usage.cache_creation?.ephemeral_1h_input_tokens || 0;
+  const write5m = usage.cache_creation
+    ? usage.cache_creation.ephemeral_5m_input_tokens || 0
+    : cacheCreation;
+
+  const input = (usage.input_tokens * pricing.input) / 1_000_000;
+  const output = (usage.output_tokens * pricing.output) / 1_000_000;
+  const cacheWrite = (write5m * pricing.cacheWrite5m + write1h * pricing.cacheWrite1h) / 1_000_000;
+  const cacheRead = ((usage.cache_read_input_tokens || 0) * pricing.cacheRead) / 1_000_000;
+
+  return {
+    input,
+    output,
+    cacheWrite,
+    cacheRead,
+    total: input + output + cacheWrite + cacheRead,
+    priced: true,
+  };
+}
+
+/**
+ * Summarize cost per request, session, model and day
+ */
+export function summarizeCosts(
+  pairs: RequestResponsePair[],
+  table: PricingTable,
+  sessions: Session[] = []
+): CostSummary {
+  const perRequest: CostSummary['perRequest'] = [];
+  const byModel = new Map<string, { requests: number; cost: number }>();
+  const byDay = new Map<string, { requests: number; cost: number }>();
+  const costByRequest = new Map<string, number>();
+  const unpriced = new Set<string>();
+  let total = 0;
+
+  for (const { request, response } of pairs) {
+    if (!response) continue;
+
+    const model = response.model || request.model;
+    const cost = estimateCost(response.usage, model, table);
+    if (!cost.priced) unpriced.add(model);
+
+    total += cost.total;
+    costByRequest.set(request.id, cost.total);
+    perRequest.push({ requestId: request.id, timestamp: request.timestamp, model, cost: cost.total });
+
+    const modelEntry = byModel.get(model) || { requests: 0, cost: 0 };
+    modelEntry.requests++;
+    modelEntry.cost += cost.total;
+    byModel.set(model, modelEntry);
+
+    const day = request.timestamp.slice(0, 10);
+    const dayEntry = byDay.get(day) || { requests: 0, cost: 0 };
+    dayEntry.requests++;
+    dayEntry.cost += cost.total;
+    byDay.set(day, dayEntry);
+  }
+
+  const bySession = sessions.map((session) => ({
+    sessionId: session.id,
+    requests: session.requestIds.length,
+    cost: session.requestIds.reduce((sum, id) => sum + (costByRequest.get(id) || 0), 0),
+  }));
+
+  return {
+    pricingVersion: table.version,
+    total,
+    perRequest,
+    bySession: bySession.sort((a, b) => b.cost - a.cost),
+    byModel: Array.from(byModel.entries())
+      .map(([model, entry]) => ({ model, ...entry }))
+      .sort((a, b) => b.cost - a.cost),
+    byDay: Array.from(byDay.entries())
+      .map(([day, entry]) => ({ day, ...entry }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+    unpricedModels: Array.from(unpriced),
+  };
+}
+
+/**
+ * Format a dollar amount for display
+ */
+export function formatCost(cost: number): string {
+  if (cost >= 100) return `$${cost.toFixed(0)}`;
+  if (cost >= 1) return `$${cost.toFixed(2)}`;
+  return `$${cost.toFixed(4)}`;
+}
@@ -0,0 +1,209 @@
+// Content-addressed registry of distinct system prompts and their sections
+
+import crypto from 'crypto';
+import type { CapturedRequest } from '../types.js';
+import { extractSystemPrompt } from './messages.js';
+import { getAgentType, type AgentType } from './agents.js';
+import { buildHunks, diffLines, type DiffHunk } from './diff.js';
+
+/** Title of the text before the first header */
+export const PREAMBLE_TITLE = '(preamble)';
+
+export interface PromptSection {
+  title: string;
+  hash: string;
+  /** Section text including its header line */
+  text: string;
+  /** 1-based line of the section within the prompt */
+  startLine: number;
+}
+
+export interface PromptVersion {
+  hash: string;
+  text: string;
+  sections: PromptSection[];
+  agentType: AgentType;
+  models: string[];
+  firstSeen: string;
+  lastSeen: string;
+  requestCount: number;
+  /** First request that sent this prompt */
+  requestId: string;
+}
+
+export interface SectionDiff {
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  fromHash?: string;
+  toHash?: string;
+  hunks: DiffHunk[];
+}
+
+export interface PromptDiff {
+  from: string;
+  to: string;
+  sections: SectionDiff[];
+}
+
+/**
+ * SHA-256 of a text, as used for prompt and section hashes
+ */
+export function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Split a prompt into sections at markdown headers, keeping any text before
+ * the first header as a preamble so that the sections cover the whole prompt
+ */
+export function splitPromptSections(text: string): PromptSection[] {
+  const lines = text.split('\n');
+  const sections: PromptSection[] = [];
+  let current: { title: string; lines: string[]; startLine: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const sectionText = current.lines.join('\n');
+    sections.push({ title: current.title, hash: hashText(sectionText), text: sectionText, startLine: current.startLine });
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const header = lines[index].match(/^#{1,6}\s+(.+)$/);
+    if (header || !current) {
+      flush();
+      current = { title: header ? header[1].trim() : PREAMBLE_TITLE, lines: [], startLine: index + 1 };
+    }
+    current.lines.push(lines[index]);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Collect the distinct system prompts sent in captured requests, ordered by
+ * when each was first seen. Requests are read in the order a store yields
+ * them, which is the order they were captured in.
+ */
+export async function buildPromptRegistry(requests: AsyncIterable<CapturedRequest>): Promise<PromptVersion[]> {
+  const versions = new Map<string, PromptVersion>();
+
+  for await (const request of requests) {
+    const text = extractSystemPrompt(request);
+    if (!text) continue;
+
+    const hash = hashText(text);
+    const existing = versions.get(hash);
+    if (existing) {
+      existing.lastSeen = request.timestamp;
+      existing.requestCount++;
+      if (!existing.models.includes(request.model)) existing.models.push(request.model);
+      continue;
+    }
+
+    versions.set(hash, {
+      hash,
+      text,
+      sections: splitPromptSections(text),
+      agentType: getAgentType(request),
+      models: [request.model],
+      firstSeen: request.timestamp,
+      lastSeen: request.timestamp,
+      requestCount: 1,
+      requestId: request.id,
+    });
+  }
+
+  return Array.from(versions.values());
+}
+
+/**
+ * Find a prompt version by hash or unique hash prefix
+ */
+export function findPromptVersion(versions: PromptVersion[], hash: string): PromptVersion | null {
+  const matches = versions.filter((v) => v.hash.startsWith(hash.toLowerCase()));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * The version of the same agent's prompt seen before this one, if any
+ */
+export function previousPromptVersion(versions: PromptVersion[], version: PromptVersion): PromptVersion | null {
+  const earlier = versions.filter((v) => v.agentType === version.agentType && v.firstSeen < version.firstSeen);
+  return earlier[earlier.length - 1] || null;
+}
+
+// Match sections by title, pairing repeated titles in order of appearance
+function sectionKeys(sections: PromptSection[]): string[] {
+  const seen = new Map<string, number>();
+  return sections.map((section) => {
+    const count = seen.get(section.title) || 0;
+    seen.set(section.title, count + 1);
+    return `${section.title}\u0000${count}`;
+  });
+}
+
+/**
+ * Diff two prompt versions section by section. Sections are matched by title,
+ * and hunk line numbers refer to lines of the whole prompt.
+ */
+export function diffPrompts(from: PromptVersion, to: PromptVersion, context: number = 3): PromptDiff {
+  const fromKeys = sectionKeys(from.sections);
+  const toKeys = sectionKeys(to.sections);
+  const fromByKey = new Map(fromKeys.map((key, i) => [key, from.sections[i]]));
+  const toKeySet = new Set(toKeys);
+
+  // Line offsets of each side, so an added or removed section's empty range
+  // points at where it was inserted or deleted
+  let fromLine = 0;
+  let toLine = 0;
+  const endLine = (section: PromptSection) => section.startLine + section.text.split('\n').length - 1;
+
+  const diffSection = (a: PromptSection | undefined, b: PromptSection | undefined): DiffHunk[] => {
+    const hunks = buildHunks(diffLines(a ? a.text.split('\n') : [], b ? b.text.split('\n') : []), context);
+    for (const hunk of hunks) {
+      hunk.fromStart += a ? a.startLine - 1 : fromLine;
+      hunk.toStart += b ? b.startLine - 1 : toLine;
+    }
+    if (a) fromLine = endLine(a);
+    if (b) toLine = endLine(b);
+    return hunks;
+  };
+
+  const sections: SectionDiff[] = [];
+  let fromIndex = 0;
+
+  const flushRemoved = (until: number) => {
+    for (; fromIndex < until; fromIndex++) {
+      if (toKeySet.has(fromKeys[fromIndex])) continue;
+      const section = from.sections[fromIndex];
+      sections.push({ title: section.title, status: 'removed', fromHash: section.hash, hunks: diffSection(section, undefined) });
+    }
+  };
+
+  to.sections.forEach((section, i) => {
+    const previous = fromByKey.get(toKeys[i]);
+    if (!previous) {
+      sections.push({ title: section.title, status: 'added', toHash: section.hash, hunks: diffSection(undefined, section) });
+      return;
+    }
+
+    // Removed sections are reported where they used to be
+    const previousIndex = fromKeys.indexOf(toKeys[i]);
+    flushRemoved(previousIndex);
+    fromIndex = Math.max(fromIndex, previousIndex + 1);
+
+    const unchanged = previous.hash === section.hash;
+    const hunks = diffSection(previous, section);
+    sections.push({
+      title: section.title,
+      status: unchanged ? 'unchanged' : 'changed',
+      fromHash: previous.hash,
+      toHash: section.hash,
+      hunks,
+    });
+  });
+  flushRemoved(from.sections.length);
+
+  return { from: from.hash, to: to.hash, sections };
+}
@@ -0,0 +1,247 @@
+// Catalog of tool definitions sent to the API and how their schemas change
+
+import crypto from 'crypto';
+import type { CapturedRequest, ToolDefinition } from '../types.js';
+import { getAgentType, type AgentType } from './agents.js';
+import { diffText, type DiffHunk } from './diff.js';
+
+export interface ToolSchemaVersion {
+  /** Fingerprint of the description and input schema */
+  hash: string;
+  description: string;
+  input_schema: ToolDefinition['input_schema'];
+  agentTypes: AgentType[];
+  firstSeen: string;
+  lastSeen: string;
+  requestCount: number;
+  /** First request that sent this version */
+  requestId: string;
+}
+
+export interface ToolCatalogEntry {
+  name: string;
+  /** MCP server for tools named mcp__<server>__<tool> */
+  mcpServer?: string;
+  /** Distinct versions, ordered by when each was first seen */
+  versions: ToolSchemaVersion[];
+  agentTypes: AgentType[];
+  firstSeen: string;
+  lastSeen: string;
+  requestCount: number;
+}
+
+export interface ToolSchemaChange {
+  name: string;
+  fromHash: string;
+  toHash: string;
+  addedParams: string[];
+  removedParams: string[];
+  /** Parameters present in both versions whose schema differs */
+  changedParams: string[];
+  addedRequired: string[];
+  removedRequired: string[];
+  descriptionHunks: DiffHunk[];
+  schemaHunks: DiffHunk[];
+}
+
+/** A tool set sent by an agent for the first time, compared with the one it sent before */
+export interface ToolSetChange {
+  requestId: string;
+  timestamp: string;
+  agentType: AgentType;
+  previousRequestId: string;
+  added: string[];
+  removed: string[];
+  changed: ToolSchemaChange[];
+}
+
+// JSON with object keys sorted, so that key order never counts as a change
+function stableStringify(value: unknown, indent?: number): string {
+  const sortKeys = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === 'object') {
+      return Object.fromEntries(
+        Object.keys(v).sort().map((key) => [key, sortKeys((v as Record<string, unknown>)[key])])
+      );
+    }
+    return v;
+  };
+  return JSON.stringify(sortKeys(value), null, indent);
+}
+
+/**
+ * Fingerprint a tool definition by its description and input schema
+ */
+export function fingerprintTool(tool: ToolDefinition): string {
+  return crypto
+    .createHash('sha256')
+    .update(stableStringify({ description: tool.description ?? '', input_schema: tool.input_schema ?? {} }))
+    .digest('hex');
+}
+
+/**
+ * The MCP server a tool comes from, for tools named mcp__<server>__<tool>
+ */
+export function getMcpServer(name: string): string | undefined {
+  const match = name.match(/^mcp__(.+?)__/);
+  return match ? match[1] : undefined;
+}
+
+function addUnique<T>(list: T[], value: T): void {
+  if (!list.includes(value)) list.push(value);
+}
+
+/**
+ * Build a catalog of every tool definition sent in captured requests, with
+ * each distinct version of its description and schema. Requests are read in
+ * the order a store yields them, which is the order they were captured in.
+ */
+export async function buildToolCatalog(requests: AsyncIterable<CapturedRequest>): Promise<ToolCatalogEntry[]> {
+  const entries = new Map<string, ToolCatalogEntry>();
+
+  for await (const request of requests) {
+    if (!request.tools?.length) continue;
+    const agentType = getAgentType(request);
+
+    for (const tool of request.tools) {
+      let entry = entries.get(tool.name);
+      if (!entry) {
+        entry = {
+          name: tool.name,
+          mcpServer: getMcpServer(tool.name),
+          versions: [],
+          agentTypes: [],
+          firstSeen: request.timestamp,
+          lastSeen: request.timestamp,
+          requestCount: 0,
+        };
+        entries.set(tool.name, entry);
+      }
+      entry.lastSeen = request.timestamp;
+      entry.requestCount++;
+      addUnique(entry.agentTypes, agentType);
+
+      const hash = fingerprintTool(tool);
+      let version = entry.versions.find((v) => v.hash === hash);
+      if (!version) {
+        version = {
+          hash,
+          description: tool.description ?? '',
+          input_schema: tool.input_schema,
+          agentTypes: [],
+          firstSeen: request.timestamp,
+          lastSeen: request.timestamp,
+          requestCount: 0,
+          requestId: request.id,
+        };
+        entry.versions.push(version);
+      }
+      version.lastSeen = request.timestamp;
+      version.requestCount++;
+      addUnique(version.agentTypes, agentType);
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Compare two versions of a tool definition
+ */
+export function diffToolSchemas(from: ToolDefinition, to: ToolDefinition, context: number = 3): ToolSchemaChange {
+  const fromProps = from.input_schema?.properties ?? {};
+  const toProps = to.input_schema?.properties ?? {};
+  const fromRequired = from.input_schema?.required ?? [];
+  const toRequired = to.input_schema?.required ?? [];
+
+  return {
+    name: to.name,
+    fromHash: fingerprintTool(from),
+    toHash: fingerprintTool(to),
+    addedParams: Object.keys(toProps).filter((p) => !(p in fromProps)),
+    removedParams: Object.keys(fromProps).filter((p) => !(p in toProps)),
+    changedParams: Object.keys(toProps).filter(
+      (p) => p in fromProps && stableStringify(fromProps[p]) !== stableStringify(toProps[p])
+    ),
+    addedRequired: toRequired.filter((p) => !fromRequired.includes(p)),
+    removedRequired: fromRequired.filter((p) => !toRequired.includes(p)),
+    descriptionHunks: diffText(from.description ?? '', to.description ?? '', context),
+    schemaHunks: diffText(stableStringify(from.input_schema ?? {}, 2), stableStringify(to.input_schema ?? {}, 2), context),
+  };
+}
+
+/**
+ * Compare the tool sets of two requests: tools added, removed, or whose
+ * definition changed
+ */
+export function diffToolSets(
+  from: ToolDefinition[],
+  to: ToolDefinition[],
+  context: number = 3
+): Pick<ToolSetChange, 'added' | 'removed' | 'changed'> {
+  const fromByName = new Map(from.map((tool) => [tool.name, tool]));
+  const toNames = new Set(to.map((tool) => tool.name));
+  const changed: ToolSchemaChange[] = [];
+
+  for (const tool of to) {
+    const previous = fromByName.get(tool.name);
+    if (previous && fingerprintTool(previous) !== fingerprintTool(tool)) {
+      changed.push(diffToolSchemas(previous, tool, context));
+    }
+  }
+
+  return {
+    added: to.filter((tool) => !fromByName.has(tool.name)).map((tool) => tool.name),
+    removed: from.filter((tool) => !toNames.has(tool.name)).map((tool) => tool.name),
+    changed,
+  };
+}
+
+// Fingerprint of a whole tool set, independent of tool order
+function toolSetKey(tools: ToolDefinition[]): string {
+  return tools.map((tool) => `${tool.name}:${fingerprintTool(tool)}`).sort().join('\n');
+}
+
+/**
+ * Find the requests where an agent sent a tool set it had not sent before,
+ * each diffed against that agent's previous request.
+ *
+ * Tool sets that were already seen are not reported again, so concurrent
+ * sessions with different MCP servers do not show up as repeated changes.
+ */
+export async function findToolSetChanges(
+  requests: AsyncIterable<CapturedRequest>,
+  context: number = 3
+): Promise<ToolSetChange[]> {
+  const previousByAgent = new Map<AgentType, CapturedRequest>();
+  const seenByAgent = new Map<AgentType, Set<string>>();
+  const changes: ToolSetChange[] = [];
+
+  for await (const request of requests) {
+    if (!request.tools) continue;
+    const agentType = getAgentType(request);
+    const key = toolSetKey(request.tools);
+
+    let seen = seenByAgent.get(agentType);
+    if (!seen) {
+      seen = new Set();
+      seenByAgent.set(agentType, seen);
+    }
+
+    const previous = previousByAgent.get(agentType);
+    if (previous && !seen.has(key)) {
+      changes.push({
+        requestId: request.id,
+        timestamp: request.timestamp,
+        agentType,
+        previousRequestId: previous.id,
+        ...diffToolSets(previous.tools ?? [], request.tools, context),
+      });
+    }
+
+    seen.add(key);
+    previousByAgent.set(agentType, request);
+  }
+
+  return changes;
+}
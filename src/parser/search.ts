@@ -0,0 +1,248 @@
+// Full-text search over prompts, messages and tool calls
+
+import crypto from 'crypto';
+import type {
+  CapturedRequest,
+  CapturedResponse,
+  ContentBlock,
+  Message,
+  RequestResponsePair,
+} from '../types.js';
+import { extractSystemPrompt } from './messages.js';
+
+/** Where a hit sits within its capture; block is 0 for plain string messages */
+export type SearchLocation =
+  | { kind: 'system' }
+  | { kind: 'message'; message: number; block: number }
+  | { kind: 'response'; block: number };
+
+export interface SearchHit {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  location: SearchLocation;
+  /** What was matched, e.g. "text", "tool_use: Bash" or "system prompt" */
+  label: string;
+  snippet: string;
+  /** [start, end) offsets of matched terms within the snippet */
+  highlights: Array<[number, number]>;
+}
+
+interface SearchDoc {
+  requestId: string;
+  location: SearchLocation;
+  label: string;
+  text: string;
+}
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 100;
+
+/**
+ * Split text into lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
+
+// String leaves of a tool input, so that e.g. a Bash command is searchable as typed
+function inputText(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(inputText);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(inputText);
+  return [];
+}
+
+function blockDoc(block: ContentBlock): { label: string; text: string } | null {
+  switch (block.type) {
+    case 'text':
+      return { label: 'text', text: block.text };
+    case 'thinking':
+      return { label: 'thinking', text: block.thinking };
+    case 'tool_use':
+    case 'server_tool_use':
+      return { label: `${block.type}: ${block.name}`, text: [block.name, ...inputText(block.input)].join('\n') };
+    case 'tool_result':
+      return {
+        label: block.is_error ? 'tool_result (error)' : 'tool_result',
+        text: typeof block.content === 'string'
+          ? block.content
+          : block.content.map((c) => c.text || '').join('\n'),
+      };
+    default:
+      return null;
+  }
+}
+
+function messageDocs(message: Message): Array<{ block: number; label: string; text: string }> {
+  if (typeof message.content === 'string') {
+    return [{ block: 0, label: `${message.role} message`, text: message.content }];
+  }
+  return message.content.flatMap((block, index) => {
+    const doc = blockDoc(block);
+    return doc ? [{ block: index, ...doc }] : [];
+  });
+}
+
+// Offsets of every occurrence of the terms in text, merged where they overlap
+function findHighlights(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+function buildSnippet(text: string, position: number, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+  const start = Math.max(0, position - SNIPPET_BEFORE);
+  const end = Math.min(text.length, position + SNIPPET_AFTER);
+  const snippet = (start > 0 ? '…' : '') + text.slice(start, end).replace(/\s/g, ' ') + (end < text.length ? '…' : '');
+  return { snippet, highlights: findHighlights(snippet, terms) };
+}
+
+/**
+ * Inverted index over the text of captured requests and responses.
+ *
+ * Requests resend the whole conversation, so identical blocks are indexed once
+ * and attributed to the first capture they appeared in. Add captures in
+ * timestamp order for that attribution to point at the original turn.
+ */
+export class SearchIndex {
+  private docs: SearchDoc[] = [];
+  private postings = new Map<string, Set<number>>();
+  private seen = new Set<string>();
+  private requests = new Map<string, { timestamp: string; model: string }>();
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  addRequest(request: CapturedRequest): void {
+    this.requests.set(request.id, { timestamp: request.timestamp, model: request.model });
+
+    const system = extractSystemPrompt(request);
+    if (system) {
+      this.addDoc({ requestId: request.id, location: { kind: 'system' }, label: 'system prompt', text: system });
+    }
+
+    request.messages.forEach((message, index) => {
+      for (const doc of messageDocs(message)) {
+        this.addDoc({
+          requestId: request.id,
+          location: { kind: 'message', message: index, block: doc.block },
+          label: doc.label,
+          text: doc.text,
+        });
+      }
+    });
+  }
+
+  addResponse(response: CapturedResponse): void {
+    response.content.forEach((block, index) => {
+      const doc = blockDoc(block);
+      if (doc) {
+        this.addDoc({ requestId: response.request_id, location: { kind: 'response', block: index }, ...doc });
+      }
+    });
+  }
+
+  /**
+   * Find blocks containing every word of the query; the last word also matches
+   * as a prefix. Exact phrase matches rank first, then the newest captures.
+   */
+  search(query: string, limit: number = 50): SearchHit[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    let candidates: number[] | null = null;
+    for (let i = 0; i < terms.length; i++) {
+      const matches = i === terms.length - 1
+        ? this.prefixPostings(terms[i])
+        : this.postings.get(terms[i]) || new Set<number>();
+      candidates = candidates ? candidates.filter((id) => matches.has(id)) : [...matches];
+    }
+
+    const phrase = query.trim().toLowerCase();
+    const ranked = (candidates || [])
+      .map((id) => {
+        const doc = this.docs[id];
+        const text = doc.text.toLowerCase();
+        const phraseAt = text.indexOf(phrase);
+        return { doc, phraseAt, position: phraseAt !== -1 ? phraseAt : text.indexOf(terms[0]) };
+      })
+      .sort((a, b) => {
+        if ((a.phraseAt === -1) !== (b.phraseAt === -1)) return a.phraseAt === -1 ? 1 : -1;
+        return this.timestampOf(b.doc).localeCompare(this.timestampOf(a.doc));
+      });
+
+    return ranked.slice(0, limit).map(({ doc, position }) => {
+      const meta = this.requests.get(doc.requestId);
+      return {
+        requestId: doc.requestId,
+        timestamp: meta?.timestamp || '',
+        model: meta?.model || '',
+        location: doc.location,
+        label: doc.label,
+        ...buildSnippet(doc.text, Math.max(position, 0), [phrase, ...terms]),
+      };
+    });
+  }
+
+  private addDoc(doc: SearchDoc): void {
+    if (!doc.text.trim()) return;
+
+    const hash = crypto.createHash('sha1').update(doc.text).digest('hex');
+    if (this.seen.has(hash)) return;
+    this.seen.add(hash);
+
+    const id = this.docs.push(doc) - 1;
+    for (const token of new Set(tokenize(doc.text))) {
+      let list = this.postings.get(token);
+      if (!list) {
+        list = new Set();
+        this.postings.set(token, list);
+      }
+      list.add(id);
+    }
+  }
+
+  private prefixPostings(prefix: string): Set<number> {
+    const matches = new Set<number>();
+    for (const [token, ids] of this.postings) {
+      if (token.startsWith(prefix)) {
+        for (const id of ids) matches.add(id);
+      }
+    }
+    return matches;
+  }
+
+  private timestampOf(doc: SearchDoc): string {
+    return this.requests.get(doc.requestId)?.timestamp || '';
+  }
+}
+
+/**
+ * Build a search index over captured pairs, in the order a store yields them
+ */
+export async function buildSearchIndex(pairs: AsyncIterable<RequestResponsePair>): Promise<SearchIndex> {
+  const index = new SearchIndex();
+  for await (const { request, response } of pairs) {
+    index.addRequest(request);
+    if (response) index.addResponse(response);
+  }
+  return index;
+}
@@ -0,0 +1,287 @@
+// Session reconstruction: thread captured requests into conversations
+
+import type {
+  CapturedRequest,
+  ContentBlock,
+  Message,
+  RequestResponsePair,
+} from '../types.js';
+
+export interface Conversation {
+  id: string;
+  requestIds: string[];
+  startTime: string;
+  endTime: string;
+  model: string;
+  userId?: string;
+}
+
+export interface Session {
+  id: string;
+  userId?: string;
+  startTime: string;
+  endTime: string;
+  requestIds: string[];
+  conversations: Conversation[];
+  models: string[];
+  inputTokens: number;
+  outputTokens: number;
+  toolCalls: number;
+  firstPrompt: string;
+}
+
+interface ThreadState {
+  conversation: Conversation;
+  /** Fingerprints of the last request's messages */
+  messages: string[];
+  /** Fingerprint of the assistant turn returned for the last request, if any */
+  assistantTurn: string | null;
+}
+
+/**
+ * Reduce a content block to what stays stable when Claude Code re-sends it.
+ * cache_control markers move between turns and thinking blocks may be dropped,
+ * so only text, tool ids and block types are compared.
+ */
+function fingerprintBlock(block: ContentBlock): string | null {
+  switch (block.type) {
+    case 'text':
+      return block.text.trim() ? `text:${block.text.trim()}` : null;
+    case 'tool_use':
+      return `tool_use:${block.id}`;
+    case 'tool_result':
+      return `tool_result:${block.tool_use_id}`;
+    case 'server_tool_use':
+      return `server_tool_use:${block.id}`;
+    case 'web_search_tool_result':
+    case 'web_fetch_tool_result':
+      return `${block.type}:${block.tool_use_id}`;
+    case 'image':
+      return 'image';
+    default:
+      return null;
+  }
+}
+
+function fingerprintContent(role: Message['role'], content: string | ContentBlock[]): string {
+  const parts = typeof content === 'string'
+    ? [content.trim() ? `text:${content.trim()}` : null]
+    : content.map(fingerprintBlock);
+  return `${role}|${parts.filter(Boolean).join('|')}`;
+}
+
+function fingerprintMessages(messages: Message[]): string[] {
+  return messages.map((message) => fingerprintContent(message.role, message.content));
+}
+
+function isPrefix(prefix: string[], messages: string[]): boolean {
+  if (prefix.length > messages.length) return false;
+  return prefix.every((fingerprint, i) => fingerprint === messages[i]);
+}
+
+/**
+ * Extract the user id Claude Code sends in request metadata
+ */
+export function getUserId(request: CapturedRequest): string | undefined {
+  const userId = request.metadata?.user_id;
+  return typeof userId === 'string' && userId ? userId : undefined;
+}
+
+/**
+ * Derive a session key: the session id of a `claude-reverse run`, otherwise
+ * from metadata.user_id. Claude Code embeds the session id as
+ * `..._session_<uuid>`; other clients send an opaque id, which is used as-is.
+ */
+export function getSessionKey(request: CapturedRequest): string | undefined {
+  if (request.session_id) return request.session_id;
+
+  const userId = getUserId(request);
+  if (!userId) return undefined;
+
+  const match = userId.match(/_session_([0-9a-f-]+)$/i);
+  return match ? match[1] : userId;
+}
+
+function firstUserText(request: CapturedRequest): string {
+  for (const message of request.messages) {
+    if (message.role !== 'user') continue;
+    if (typeof message.content === 'string') return message.content;
+    const text = message.content.find((b) => b.type === 'text' && b.text.trim());
+    if (text && text.type === 'text') return text.text;
+  }
+  return '';
+}
+
+/** What sessions need of each request once it has been threaded */
+interface RequestInfo {
+  timestamp: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  toolCalls: number;
+}
+
+/** What sessions need of each conversation's first request */
+interface ConversationInfo {
+  sessionKey?: string;
+  firstPrompt: string;
+}
+
+/**
+ * Threads captures into conversations one at a time, as they are streamed
+ * from a store, keeping only the latest messages of each conversation.
+ * Captures must be added in timestamp order.
+ *
+ * Request N+1 continues request N when N's messages (plus the assistant
+ * turn from N's response) are a prefix of N+1's messages. Requests with
+ * different user ids never share a conversation.
+ */
+export class SessionBuilder {
+  private threads: ThreadState[] = [];
+  private requests = new Map<string, RequestInfo>();
+  private firstRequests = new Map<string, ConversationInfo>();
+
+  /**
+   * Thread a capture, returning the conversation it belongs to
+   */
+  add({ request, response }: RequestResponsePair): Conversation {
+    const messages = fingerprintMessages(request.messages);
+    const userId = getUserId(request);
+
+    // Prefer the most recently extended thread when several match
+    let match: ThreadState | null = null;
+    for (let i = this.threads.length - 1; i >= 0; i--) {
+      const thread = this.threads[i];
+      if (thread.conversation.userId !== userId) continue;
+      if (!isPrefix(thread.messages, messages)) continue;
+      if (
+        messages.length > thread.messages.length &&
+        thread.assistantTurn !== null &&
+        messages[thread.messages.length] !== thread.assistantTurn
+      ) {
+        continue;
+      }
+      match = thread;
+      break;
+    }
+
+    if (!match) {
+      match = {
+        conversation: {
+          id: request.id,
+          requestIds: [],
+          startTime: request.timestamp,
+          endTime: request.timestamp,
+          model: request.model,
+          userId,
+        },
+        messages: [],
+        assistantTurn: null,
+      };
+      this.firstRequests.set(request.id, { sessionKey: getSessionKey(request), firstPrompt: firstUserText(request) });
+    } else {
+      this.threads.splice(this.threads.indexOf(match), 1);
+    }
+
+    match.conversation.requestIds.push(request.id);
+    match.conversation.endTime = response?.timestamp || request.timestamp;
+    match.messages = messages;
+    match.assistantTurn = response ? fingerprintContent('assistant', response.content) : null;
+    // Keep the most recently extended thread last so it is matched first
+    this.threads.push(match);
+
+    this.requests.set(request.id, {
+      timestamp: request.timestamp,
+      model: request.model,
+      inputTokens: response?.usage.input_tokens ?? 0,
+      outputTokens: response?.usage.output_tokens ?? 0,
+      toolCalls: response?.content.filter((b) => b.type === 'tool_use').length ?? 0,
+    });
+    return match.conversation;
+  }
+
+  conversations(): Conversation[] {
+    return this.threads
+      .map((thread) => thread.conversation)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Group conversations into sessions. Conversations sharing a session key
+   * from metadata.user_id (e.g. a main agent and its subagents) form one
+   * session; conversations without one are sessions of their own.
+   */
+  sessions(): Session[] {
+    const sessions = new Map<string, Session>();
+
+    for (const conversation of this.conversations()) {
+      const first = this.firstRequests.get(conversation.id)!;
+      const key = first.sessionKey ?? conversation.id;
+
+      let session = sessions.get(key);
+      if (!session) {
+        session = {
+          id: key,
+          userId: conversation.userId,
+          startTime: conversation.startTime,
+          endTime: conversation.endTime,
+          requestIds: [],
+          conversations: [],
+          models: [],
+          inputTokens: 0,
+          outputTokens: 0,
+          toolCalls: 0,
+          firstPrompt: first.firstPrompt.slice(0, 200),
+        };
+        sessions.set(key, session);
+      }
+
+      session.conversations.push(conversation);
+      if (conversation.startTime < session.startTime) session.startTime = conversation.startTime;
+      if (conversation.endTime > session.endTime) session.endTime = conversation.endTime;
+
+      for (const id of conversation.requestIds) {
+        const info = this.requests.get(id)!;
+        session.requestIds.push(id);
+        if (!session.models.includes(info.model)) session.models.push(info.model);
+        session.inputTokens += info.inputTokens;
+        session.outputTokens += info.outputTokens;
+        session.toolCalls += info.toolCalls;
+      }
+    }
+
+    for (const session of sessions.values()) {
+      session.requestIds.sort((a, b) =>
+        this.requests.get(a)!.timestamp.localeCompare(this.requests.get(b)!.timestamp)
+      );
+      // Label the session with its longest conversation, usually the main agent
+      const main = session.conversations.reduce((a, b) => (b.requestIds.length > a.requestIds.length ? b : a));
+      const prompt = this.firstRequests.get(main.id)!.firstPrompt;
+      if (prompt) session.firstPrompt = prompt.slice(0, 200);
+    }
+
+    return Array.from(sessions.values()).sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+}
+
+function threadPairs(pairs: RequestResponsePair[]): SessionBuilder {
+  const builder = new SessionBuilder();
+  const sorted = [...pairs].sort((a, b) => a.request.timestamp.localeCompare(b.request.timestamp));
+  for (const pair of sorted) builder.add(pair);
+  return builder;
+}
+
+/**
+ * Thread requests into conversations by message-prefix continuity
+ * (see SessionBuilder)
+ */
+export function buildConversations(pairs: RequestResponsePair[]): Conversation[] {
+  return threadPairs(pairs).conversations();
+}
+
+/**
+ * Group captures into sessions of conversations (see SessionBuilder)
+ */
+export function buildSessions(pairs: RequestResponsePair[]): Session[] {
+  return threadPairs(pairs).sessions();
+}
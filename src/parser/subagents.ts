@@ -0,0 +1,200 @@
+// Subagent call trees: link Task/Agent tool calls to the conversations they spawned
+
+import type { ContentBlock, RequestResponsePair, ToolResultContent } from '../types.js';
+import type { Conversation } from './sessions.js';
+import { estimateCost, type PricingTable } from './pricing.js';
+
+/** Tools Claude Code uses to launch a subagent; renamed from Task to Agent */
+export const SUBAGENT_TOOLS = ['Task', 'Agent'];
+
+export interface SubagentCall {
+  toolUseId: string;
+  /** Request whose response issued the tool call */
+  parentRequestId: string;
+  description: string;
+  subagentType?: string;
+  prompt: string;
+  /** Requests of the subagent's conversation, empty when none was captured */
+  requestIds: string[];
+  /** Parent request that carried the tool_result back */
+  resultRequestId?: string;
+  result?: string;
+  isError?: boolean;
+  /** Subagents launched by this subagent */
+  children: SubagentCall[];
+  /** Totals over this subagent's requests and those of its descendants */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+interface PendingCall {
+  call: SubagentCall;
+  timestamp: string;
+}
+
+interface CallResult {
+  requestId: string;
+  timestamp: string;
+  block: ToolResultContent;
+}
+
+/** What the tree totals need of each request */
+interface RequestUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+function firstUserTexts(pair: RequestResponsePair): string[] {
+  const message = pair.request.messages.find((m) => m.role === 'user');
+  if (!message) return [];
+  if (typeof message.content === 'string') return [message.content];
+  return message.content.flatMap((block) => (block.type === 'text' ? [block.text] : []));
+}
+
+function resultText(block: ToolResultContent): string {
+  if (typeof block.content === 'string') return block.content;
+  return block.content.map((part) => part.text ?? '').filter(Boolean).join('\n');
+}
+
+function stringInput(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Collects subagent calls, their results and per-request usage as captures
+ * are streamed from a store, keeping only the first user message of each
+ * conversation rather than whole requests
+ */
+export class SubagentCollector {
+  private calls: PendingCall[] = [];
+  private callIds = new Set<string>();
+  private results = new Map<string, CallResult>();
+  private firstTexts = new Map<string, string[]>();
+  private usage = new Map<string, RequestUsage>();
+
+  constructor(private pricing: PricingTable) {}
+
+  /**
+   * Add a capture with the conversation it was threaded into; captures must
+   * be added in timestamp order
+   */
+  add(pair: RequestResponsePair, conversation: Conversation): void {
+    const { request, response } = pair;
+    if (conversation.id === request.id) {
+      this.firstTexts.set(conversation.id, firstUserTexts(pair));
+    }
+
+    // Keep the first request that sent each subagent's tool_result
+    for (const message of request.messages) {
+      if (message.role !== 'user' || typeof message.content === 'string') continue;
+      for (const block of message.content as ContentBlock[]) {
+        if (block.type === 'tool_result' && this.callIds.has(block.tool_use_id) && !this.results.has(block.tool_use_id)) {
+          this.results.set(block.tool_use_id, { requestId: request.id, timestamp: request.timestamp, block });
+        }
+      }
+    }
+
+    for (const block of response?.content ?? []) {
+      if (block.type !== 'tool_use' || !SUBAGENT_TOOLS.includes(block.name)) continue;
+      const prompt = stringInput(block.input, 'prompt');
+      if (!prompt) continue;
+      this.callIds.add(block.id);
+      this.calls.push({
+        timestamp: request.timestamp,
+        call: {
+          toolUseId: block.id,
+          parentRequestId: request.id,
+          description: stringInput(block.input, 'description') ?? '',
+          subagentType: stringInput(block.input, 'subagent_type'),
+          prompt,
+          requestIds: [],
+          children: [],
+          requests: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          cost: 0,
+        },
+      });
+    }
+
+    this.usage.set(request.id, {
+      inputTokens: response?.usage.input_tokens ?? 0,
+      outputTokens: response?.usage.output_tokens ?? 0,
+      cost: response ? estimateCost(response.usage, request.model, this.pricing).total : 0,
+    });
+  }
+
+  /**
+   * Link each Task/Agent tool call to the conversation it spawned and to the
+   * tool_result that returned its answer. A call's subagent is the earliest
+   * unclaimed conversation whose first user message contains the call's prompt
+   * and that starts after the call was requested (and before its result came
+   * back). Returns the top-level calls; subagents launched from within a
+   * subagent are nested under it.
+   */
+  tree(conversations: Conversation[]): SubagentCall[] {
+    const claimed = new Set<Conversation>();
+
+    for (const { call, timestamp } of this.calls) {
+      const result = this.results.get(call.toolUseId);
+      if (result) {
+        call.resultRequestId = result.requestId;
+        call.result = resultText(result.block);
+        call.isError = result.block.is_error || undefined;
+      }
+
+      const prompt = call.prompt.trim();
+      const child = conversations.find((conversation) =>
+        !claimed.has(conversation) &&
+        conversation.startTime >= timestamp &&
+        (!result || conversation.startTime <= result.timestamp) &&
+        !conversation.requestIds.includes(call.parentRequestId) &&
+        (this.firstTexts.get(conversation.id) ?? []).some((text) => text.includes(prompt))
+      );
+      if (child) {
+        claimed.add(child);
+        call.requestIds = child.requestIds;
+      }
+    }
+
+    // Nest calls issued from a subagent's own requests under that subagent
+    const owner = new Map<string, SubagentCall>();
+    for (const { call } of this.calls) {
+      for (const id of call.requestIds) owner.set(id, call);
+    }
+    const roots: SubagentCall[] = [];
+    for (const { call } of this.calls) {
+      const parent = owner.get(call.parentRequestId);
+      if (parent && parent !== call) {
+        parent.children.push(call);
+      } else {
+        roots.push(call);
+      }
+    }
+
+    for (const call of roots) this.aggregate(call);
+    return roots;
+  }
+
+  private aggregate(call: SubagentCall): void {
+    for (const id of call.requestIds) {
+      const usage = this.usage.get(id);
+      call.requests++;
+      if (!usage) continue;
+      call.inputTokens += usage.inputTokens;
+      call.outputTokens += usage.outputTokens;
+      call.cost += usage.cost;
+    }
+    for (const child of call.children) {
+      this.aggregate(child);
+      call.requests += child.requests;
+      call.inputTokens += child.inputTokens;
+      call.outputTokens += child.outputTokens;
+      call.cost += child.cost;
+    }
+  }
+}
@@ -6,47 +6,94 @@ import type {
   ToolCall,
   ToolUseContent,
   ToolResultContent,
+  ServerToolUseContent,
+  WebSearchToolResultContent,
+  WebFetchToolResultContent,
 } from '../types.js';
+import { summarizePercentiles, type Percentiles } from './latency.js';
 
 export interface ToolStats {
   name: string;
   callCount: number;
   successCount: number;
   errorCount: number;
+  /** Summed over calls with a known duration */
   totalDuration: number;
   averageDuration: number;
+  /** Distribution of execution times, null when none are known */
+  durations: Percentiles | null;
   successRate: number;
 }
 
+/**
+ * Wall-clock time spent waiting on the model versus on client-side tools
+ */
+export interface ToolTimeSummary {
+  /** Summed response durations */
+  modelMs: number;
+  /** Summed gaps between a response with tool calls and the request returning their results */
+  toolMs: number;
+}
+
 export interface ToolCallWithResult extends ToolCall {
   request_id: string;
   timestamp: string;
+  /** Executed by the API (e.g. web_search) rather than by the client */
+  server?: boolean;
 }
 
+type ServerToolResultContent = WebSearchToolResultContent | WebFetchToolResultContent;
+
 /**
- * Pair tool_use with tool_result across messages
+ * Whether a web search/fetch result block reports an error instead of results
  */
-export function pairToolCallsWithResults(
-  requests: CapturedRequest[],
-  responses: CapturedResponse[]
-): ToolCallWithResult[] {
-  const toolCalls: ToolCallWithResult[] = [];
-  const pendingToolUses = new Map<string, { toolUse: ToolUseContent; requestId: string; timestamp: string }>();
-
-  // Build a map of request_id -> response for quick lookup
-  const responseMap = new Map<string, CapturedResponse>();
-  for (const response of responses) {
-    responseMap.set(response.request_id, response);
-  }
+export function isServerToolError(block: ServerToolResultContent): boolean {
+  return !Array.isArray(block.content) && block.content.type.endsWith('_error');
+}
 
-  for (const request of requests) {
+/**
+ * Pairs tool_use with tool_result across messages, one capture at a time as
+ * captures are streamed from a store, holding only the calls still waiting
+ * for a result. A client tool's duration_ms is the time from the end of the
+ * response that emitted the tool_use to the arrival of the first request
+ * carrying its tool_result, so it includes any wait for a permission prompt.
+ * Tools called in parallel overlap, and each is charged the whole gap.
+ */
+export class ToolCallCollector {
+  private toolCalls: ToolCallWithResult[] = [];
+  private pendingToolUses = new Map<string, { toolUse: ToolUseContent; requestId: string; timestamp: string }>();
+
+  /**
+   * Add a capture; captures must be added in request order
+   */
+  add(request: CapturedRequest, response: CapturedResponse | null): void {
     // Get tool uses from the response
-    const response = responseMap.get(request.id);
     if (response) {
+      // Server tool results arrive in the same response as their server_tool_use
+      const serverResults = new Map<string, ServerToolResultContent>();
+      for (const block of response.content) {
+        if (block.type === 'web_search_tool_result' || block.type === 'web_fetch_tool_result') {
+          serverResults.set(block.tool_use_id, block);
+        }
+      }
+
       for (const block of response.content) {
-        if (block.type === 'tool_use') {
+        if (block.type === 'server_tool_use') {
+          const serverToolUse = block as ServerToolUseContent;
+          const result = serverResults.get(serverToolUse.id);
+          this.toolCalls.push({
+            id: serverToolUse.id,
+            name: serverToolUse.name,
+            input: serverToolUse.input,
+            result: result ? JSON.stringify(result.content) : undefined,
+            is_error: result ? isServerToolError(result) : undefined,
+            request_id: request.id,
+            timestamp: response.timestamp,
+            server: true,
+          });
+        } else if (block.type === 'tool_use') {
           const toolUse = block as ToolUseContent;
-          pendingToolUses.set(toolUse.id, {
+          this.pendingToolUses.set(toolUse.id, {
             toolUse,
             requestId: request.id,
             timestamp: response.timestamp,
@@ -61,10 +108,11 @@ export function pairToolCallsWithResults(
         for (const block of message.content) {
           if (block.type === 'tool_result') {
             const toolResult = block as ToolResultContent;
-            const pending = pendingToolUses.get(toolResult.tool_use_id);
+            const pending = this.pendingToolUses.get(toolResult.tool_use_id);
 
             if (pending) {
-              toolCalls.push({
+              const duration = Date.parse(request.timestamp) - Date.parse(pending.timestamp);
+              this.toolCalls.push({
                 id: pending.toolUse.id,
                 name: pending.toolUse.name,
                 input: pending.toolUse.input,
@@ -72,10 +120,11 @@ export function pairToolCallsWithResults(
                   ? toolResult.content
                   : toolResult.content,
                 is_error: toolResult.is_error,
+                duration_ms: duration >= 0 ? duration : undefined,
                 request_id: pending.requestId,
                 timestamp: pending.timestamp,
               });
-              pendingToolUses.delete(toolResult.tool_use_id);
+              this.pendingToolUses.delete(toolResult.tool_use_id);
             }
           }
         }
@@ -83,18 +132,39 @@ export function pairToolCallsWithResults(
     }
   }
 
-  // Add any remaining tool uses without results
-  for (const [id, pending] of pendingToolUses) {
-    toolCalls.push({
+  /**
+   * Calls paired so far, followed by those still without a result
+   */
+  calls(): ToolCallWithResult[] {
+    const unanswered = Array.from(this.pendingToolUses, ([id, pending]) => ({
       id,
       name: pending.toolUse.name,
       input: pending.toolUse.input,
       request_id: pending.requestId,
       timestamp: pending.timestamp,
-    });
+    }));
+    return [...this.toolCalls, ...unanswered];
   }
+}
 
-  return toolCalls;
+/**
+ * Pair tool_use with tool_result across messages (see ToolCallCollector)
+ */
+export function pairToolCallsWithResults(
+  requests: CapturedRequest[],
+  responses: CapturedResponse[]
+): ToolCallWithResult[] {
+  // Build a map of request_id -> response for quick lookup
+  const responseMap = new Map<string, CapturedResponse>();
+  for (const response of responses) {
+    responseMap.set(response.request_id, response);
+  }
+
+  const collector = new ToolCallCollector();
+  for (const request of requests) {
+    collector.add(request, responseMap.get(request.id) ?? null);
+  }
+  return collector.calls();
 }
 
 /**
@@ -102,6 +172,7 @@ export function pairToolCallsWithResults(
  */
 export function calculateToolStats(toolCalls: ToolCallWithResult[]): Map<string, ToolStats> {
   const statsMap = new Map<string, ToolStats>();
+  const durations = new Map<string, number[]>();
 
   for (const call of toolCalls) {
     let stats = statsMap.get(call.name);
@@ -113,9 +184,11 @@ export function calculateToolStats(toolCalls: ToolCallWithResult[]): Map<string,
         errorCount: 0,
         totalDuration: 0,
         averageDuration: 0,
+        durations: null,
         successRate: 0,
       };
       statsMap.set(call.name, stats);
+      durations.set(call.name, []);
     }
 
     stats.callCount++;
@@ -126,14 +199,17 @@ export function calculateToolStats(toolCalls: ToolCallWithResult[]): Map<string,
         stats.successCount++;
       }
     }
-    if (call.duration_ms) {
+    if (call.duration_ms !== undefined) {
       stats.totalDuration += call.duration_ms;
+      durations.get(call.name)!.push(call.duration_ms);
     }
   }
 
   // Calculate averages and rates
   for (const stats of statsMap.values()) {
-    stats.averageDuration = stats.callCount > 0 ? stats.totalDuration / stats.callCount : 0;
+    const timed = durations.get(stats.name)!;
+    stats.averageDuration = timed.length > 0 ? stats.totalDuration / timed.length : 0;
+    stats.durations = summarizePercentiles(timed);
     const completedCalls = stats.successCount + stats.errorCount;
     stats.successRate = completedCalls > 0 ? stats.successCount / completedCalls : 1;
   }
@@ -156,3 +232,20 @@ export function getToolCallFrequency(toolCalls: ToolCallWithResult[]): Array<{ n
     .sort((a, b) => b.count - a.count);
 }
 
+
+/**
+ * Split wall-clock time between the model and client tools. Parallel tool
+ * calls from one response are counted once, by the longest of them.
+ */
+export function summarizeToolTime(toolCalls: ToolCallWithResult[], responses: CapturedResponse[]): ToolTimeSummary {
+  const gaps = new Map<string, number>();
+  for (const call of toolCalls) {
+    if (call.server || call.duration_ms === undefined) continue;
+    gaps.set(call.request_id, Math.max(gaps.get(call.request_id) || 0, call.duration_ms));
+  }
+
+  let toolMs = 0;
+  for (const gap of gaps.values()) toolMs += gap;
+  const modelMs = responses.reduce((sum, response) => sum + response.duration_ms, 0);
+  return { modelMs, toolMs };
+}
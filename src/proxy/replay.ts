@@ -0,0 +1,194 @@
+// Replay of captured responses for deterministic, offline sessions
+
+import crypto from 'crypto';
+import type {
+  CapturedRequest,
+  CapturedResponse,
+  ContentBlock,
+  ContentBlockDeltaEvent,
+  StreamEvent,
+  TextContent,
+  ThinkingContent,
+  ToolUseContent,
+  ServerToolUseContent,
+} from '../types.js';
+
+type ReplayKeySource = Pick<CapturedRequest, 'model' | 'system' | 'messages' | 'tools'>;
+
+/**
+ * Compute the replay key for a request from its model, system prompt, messages
+ * and tools. Hash the request as received: redacted copies change whenever the
+ * redaction rules do.
+ */
+export function hashRequest(request: ReplayKeySource): string {
+  const canonical = JSON.stringify({
+    model: request.model,
+    system: request.system ?? null,
+    messages: request.messages ?? [],
+    tools: request.tools ?? null,
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Index of recorded responses keyed by request hash.
+ * Identical requests recorded several times are served in capture order,
+ * repeating the last one once the recordings are exhausted.
+ */
+export class ReplayIndex {
+  private responses = new Map<string, CapturedResponse[]>();
+  private cursors = new Map<string, number>();
+
+  /**
+   * Index the recorded responses of a store's captures, in the order they
+   * were captured
+   */
+  async load(pairs: AsyncIterable<{ request: CapturedRequest; response: CapturedResponse | null }>): Promise<void> {
+    for await (const { request, response } of pairs) {
+      if (!response) continue;
+      // Captures predating stored keys fall back to a hash of the redacted request
+      const key = request.replay_key ?? hashRequest(request);
+      const list = this.responses.get(key) || [];
+      list.push(response);
+      this.responses.set(key, list);
+    }
+  }
+
+  get size(): number {
+    let count = 0;
+    for (const list of this.responses.values()) {
+      count += list.length;
+    }
+    return count;
+  }
+
+  lookup(key: string): CapturedResponse | null {
+    const list = this.responses.get(key);
+    if (!list || list.length === 0) {
+      return null;
+    }
+
+    const cursor = this.cursors.get(key) || 0;
+    this.cursors.set(key, cursor + 1);
+    return list[Math.min(cursor, list.length - 1)];
+  }
+}
+
+/**
+ * Build a non-streaming Messages API body from a captured response
+ */
+export function buildMessageBody(response: CapturedResponse): Record<string, unknown> {
+  return {
+    id: `msg_replay_${response.request_id.replace(/-/g, '')}`,
+    type: 'message',
+    role: 'assistant',
+    model: response.model,
+    content: response.content,
+    stop_reason: response.stop_reason,
+    stop_sequence: null,
+    usage: response.usage,
+  };
+}
+
+/**
+ * Re-synthesize the SSE event sequence the API would have streamed for a captured response
+ */
+export function buildStreamEvents(response: CapturedResponse): StreamEvent[] {
+  const events: StreamEvent[] = [];
+
+  events.push({
+    type: 'message_start',
+    message: {
+      id: `msg_replay_${response.request_id.replace(/-/g, '')}`,
+      type: 'message',
+      role: 'assistant',
+      content: [],
+      model: response.model,
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { ...response.usage, output_tokens: 0 },
+    },
+  });
+
+  response.content.forEach((block, index) => {
+    events.push({
+      type: 'content_block_start',
+      index,
+      content_block: emptyBlock(block),
+    });
+
+    for (const delta of blockDeltas(block)) {
+      events.push({ type: 'content_block_delta', index, delta });
+    }
+
+    events.push({ type: 'content_block_stop', index });
+  });
+
+  // A stream that failed part way ends with the error event instead of message_delta/message_stop
+  if (response.error) {
+    events.push({ type: 'error', error: response.error });
+    return events;
+  }
+
+  events.push({
+    type: 'message_delta',
+    delta: {
+      stop_reason: response.stop_reason || 'end_turn',
+      stop_sequence: null,
+    },
+    usage: {
+      output_tokens: response.usage.output_tokens,
+    },
+  });
+
+  events.push({ type: 'message_stop' });
+
+  return events;
+}
+
+/**
+ * Serialize stream events in the API's SSE wire format
+ */
+export function formatSSE(events: StreamEvent[]): string {
+  return events
+    .map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join('');
+}
+
+function emptyBlock(block: ContentBlock): ContentBlock {
+  switch (block.type) {
+    case 'text':
+      return block.citations ? { type: 'text', text: '', citations: [] } : { type: 'text', text: '' };
+    case 'tool_use':
+    case 'server_tool_use':
+      return { type: block.type, id: block.id, name: block.name, input: {} } as ToolUseContent | ServerToolUseContent;
+    case 'thinking':
+      return { type: 'thinking', thinking: '', signature: '' };
+    default:
+      // Blocks without delta events are sent whole in content_block_start
+      return block;
+  }
+}
+
+type BlockDelta = ContentBlockDeltaEvent['delta'];
+
+function blockDeltas(block: ContentBlock): BlockDelta[] {
+  if (block.type === 'text') {
+    const { text, citations } = block as TextContent;
+    const deltas: BlockDelta[] = (citations || []).map((citation) => ({ type: 'citations_delta', citation }));
+    if (text) deltas.push({ type: 'text_delta', text });
+    return deltas;
+  }
+  if (block.type === 'tool_use' || block.type === 'server_tool_use') {
+    const input = (block as ToolUseContent | ServerToolUseContent).input;
+    return [{ type: 'input_json_delta', partial_json: JSON.stringify(input) }];
+  }
+  if (block.type === 'thinking') {
+    const { thinking, signature } = block as ThinkingContent;
+    const deltas: BlockDelta[] = [];
+    if (thinking) deltas.push({ type: 'thinking_delta', thinking });
+    if (signature) deltas.push({ type: 'signature_delta', signature });
+    return deltas;
+  }
+  return [];
+}
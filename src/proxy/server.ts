@@ -1,42 +1,227 @@
 // Express proxy server for intercepting Claude API requests
 
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import https from 'https';
 import http from 'http';
+import type { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
 import zlib from 'zlib';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import { v4 as uuidv4 } from 'uuid';
 import { WebSocketServer, WebSocket } from 'ws';
-import type { CapturedRequest, CapturedResponse, ContentBlock } from '../types.js';
+import type { ApiError, CapturedRequest, CapturedResponse, ContentBlock, RequestResponsePair } from '../types.js';
 import { SSEParser } from './streaming.js';
-import { JSONLStorage } from '../storage/jsonl.js';
-
-const ANTHROPIC_API_HOST = 'api.anthropic.com';
+import { SessionBuilder, type Session } from '../parser/sessions.js';
+import { AgentClassifier, loadAgentConfig } from '../parser/agents.js';
+import { SubagentCollector } from '../parser/subagents.js';
+import { ContextCollector } from '../parser/context.js';
+import { CacheCollector } from '../parser/cache.js';
+import { ConversationStatsCollector } from '../parser/messages.js';
+import { loadPricing, summarizeCosts, type PricingTable } from '../parser/pricing.js';
+import { summarizeLatency } from '../parser/latency.js';
+import { summarizeErrors } from '../parser/errors.js';
+import { summarizePair, summarizeRequest, summarizeResponse } from '../parser/captures.js';
+import { buildSearchIndex, type SearchIndex } from '../parser/search.js';
+import { buildPromptRegistry, diffPrompts, findPromptVersion } from '../parser/prompts.js';
+import { buildToolCatalog, diffToolSchemas, findToolSetChanges } from '../parser/schemas.js';
+import { ReplayIndex, hashRequest, buildMessageBody, buildStreamEvents, formatSSE } from './replay.js';
+import { createStore, type CaptureStore, type StorageKind } from '../storage/store.js';
+import { decodeCursor, encodeCursor, type CaptureQuery } from '../storage/query.js';
+import { DEFAULT_REDACTED_HEADERS, REDACTED, Redactor, loadRedactionConfig } from '../storage/redact.js';
+import { collectSessions, selectPairs, stripContent } from '../storage/stream.js';
+import type { RetentionPolicy, RotationPolicy } from '../storage/rotation.js';
+
+export const DEFAULT_UPSTREAM = 'https://api.anthropic.com';
+
+/** Production build of the web dashboard, relative to both src/proxy and dist/proxy */
+export const DEFAULT_UI_DIR = fileURLToPath(new URL('../../web/dist', import.meta.url));
+export const UI_PATH = '/ui';
+export const WS_PATH = '/ws';
 
 export interface ProxyServerOptions {
   port: number;
   dataDir: string;
   verbose?: boolean;
+  /** Upstream base URL requests are forwarded to (scheme, host, port and optional base path) */
+  upstream?: string;
+  /** 'record' forwards to the upstream API, 'replay' answers from previously captured responses */
+  mode?: 'record' | 'replay';
+  /** Storage backend for captures (default: jsonl) */
+  storage?: StorageKind;
+  /** JSON file with model pricing overrides (default: pricing.json in the data directory) */
+  pricingFile?: string;
+  /** Redact secrets before captures are stored or broadcast (default: true) */
+  redact?: boolean;
+  /** JSON file with extra redaction rules (default: redaction.json in the data directory) */
+  redactionConfigFile?: string;
+  /** Directory with the built web dashboard, served under /ui (default: web/dist) */
+  uiDir?: string;
+  /** When to start a new capture file (JSONL storage only) */
+  rotation?: RotationPolicy;
+  /** How long, or up to what size, to keep rotated capture files (JSONL storage only) */
+  retention?: RetentionPolicy;
+  /** JSON file with custom agent classification rules (default: agents.json in the data directory) */
+  agentConfigFile?: string;
+  /** Fields stamped on every captured request, e.g. by `claude-reverse run` */
+  captureTags?: Pick<CapturedRequest, 'session_id' | 'cwd'>;
+}
+
+/**
+ * Parse and validate an upstream URL
+ */
+export function parseUpstream(upstream: string): URL {
+  const url = new URL(upstream);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported upstream protocol: ${url.protocol}`);
+  }
+  return url;
+}
+
+/**
+ * Parse a non-negative integer query parameter
+ */
+function parseCount(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${name}`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Build a capture query from /api/captures query string parameters. The
+ * session parameter is resolved by the route since it needs the stored pairs.
+ */
+function parseCaptureQuery(params: Request['query']): CaptureQuery {
+  const query: CaptureQuery = {};
+  if (typeof params.since === 'string') query.since = params.since;
+  if (typeof params.until === 'string') query.until = params.until;
+  if (typeof params.model === 'string') query.model = params.model;
+  if (typeof params.agent === 'string') query.agentType = params.agent;
+  if (typeof params.tool === 'string') query.tool = params.tool;
+  if (typeof params.stop_reason === 'string') query.stopReason = params.stop_reason;
+  if (typeof params.q === 'string' && params.q) query.text = params.q;
+  if (typeof params.limit === 'string') query.limit = parseCount(params.limit, 'limit');
+  if (typeof params.offset === 'string') query.offset = parseCount(params.offset, 'offset');
+  if (typeof params.cursor === 'string') {
+    const after = decodeCursor(params.cursor);
+    if (!after) {
+      throw new Error('Invalid cursor');
+    }
+    query.after = after;
+  }
+  return query;
+}
+
+/**
+ * Keep the upstream response headers worth persisting: rate limit state,
+ * retry-after and the API request id
+ */
+function pickResponseHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    if (name.startsWith('anthropic-ratelimit-') || name === 'retry-after' || name === 'request-id') {
+      result[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Extract the error from an API error body ({"type":"error","error":{...}}),
+ * falling back to the raw body for gateways and load balancers
+ */
+function parseErrorBody(text: string, status: number): ApiError {
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body.error === 'object' && body.error !== null) {
+      return { type: String(body.error.type || 'api_error'), message: String(body.error.message || '') };
+    }
+  } catch {
+    // Not JSON
+  }
+  return { type: 'http_error', message: text.slice(0, 2000) || `HTTP ${status}` };
+}
+
+/**
+ * Flatten incoming request headers to single string values for capture.
+ * Credentials are masked even when redaction is disabled, as they never help
+ * analysis.
+ */
+function captureHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    result[name] = DEFAULT_REDACTED_HEADERS.includes(name.toLowerCase())
+      ? REDACTED
+      : Array.isArray(value) ? value.join(', ') : value;
+  }
+  return result;
 }
 
-export class ProxyServer {
+/**
+ * Wrap an async route handler, passing its errors on to Express, which does
+ * not catch rejected promises itself
+ */
+function asyncRoute(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res).catch(next);
+  };
+}
+
+/**
+ * Forwards and records API traffic. Emits 'request' and 'response' with each
+ * capture as it is broadcast to dashboard clients.
+ */
+export class ProxyServer extends EventEmitter {
   private app: express.Application;
   private server: http.Server | null = null;
   private wss: WebSocketServer | null = null;
-  private storage: JSONLStorage;
+  private storage: CaptureStore;
   private options: ProxyServerOptions;
+  /** Listening port, which differs from options.port when that is 0 */
+  private port: number;
   private wsClients: Set<WebSocket> = new Set();
+  private upstream: URL;
+  private upstreamBasePath: string;
+  private replayIndex: ReplayIndex | null = null;
+  private pricing: PricingTable;
+  private redactor: Redactor | null;
+  private classifier: AgentClassifier;
+  /** Built on the first search, then kept up to date as captures arrive */
+  private searchIndex: Promise<SearchIndex> | null = null;
 
   constructor(options: ProxyServerOptions) {
+    super();
     this.options = options;
-    this.storage = new JSONLStorage(options.dataDir);
+    this.port = options.port;
+    this.upstream = parseUpstream(options.upstream || DEFAULT_UPSTREAM);
+    // URL normalizes an empty path to '/', so strip trailing slashes separately
+    this.upstreamBasePath = this.upstream.pathname.replace(/\/+$/, '');
+    this.storage = createStore(options.storage || 'jsonl', options.dataDir, {
+      rotation: options.rotation,
+      retention: options.retention,
+      // Replay never writes captures
+      lock: options.mode !== 'replay',
+    });
+    this.pricing = loadPricing({ file: options.pricingFile, dataDir: options.dataDir });
+    this.classifier = new AgentClassifier(loadAgentConfig({ file: options.agentConfigFile, dataDir: options.dataDir }));
+    this.redactor = options.redact === false
+      ? null
+      : new Redactor(loadRedactionConfig({ file: options.redactionConfigFile, dataDir: options.dataDir }));
+    if (options.mode === 'replay') {
+      this.replayIndex = new ReplayIndex();
+    }
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
   }
 
   private setupMiddleware(): void {
-    this.app.use(cors());
+    this.app.use(cors({ exposedHeaders: ['X-Next-Cursor'] }));
     // Don't parse body as JSON - we need raw body for forwarding
     this.app.use(express.raw({ type: '*/*', limit: '50mb' }));
   }
@@ -47,18 +232,216 @@ export class ProxyServer {
       res.json({ status: 'ok', timestamp: new Date().toISOString() });
     });
 
-    // API endpoint for fetching captured data
-    this.app.get('/api/captures', (_req: Request, res: Response) => {
-      const pairs = this.storage.getRequestResponsePairs();
-      res.json(pairs);
+    // API endpoint for fetching captured data; view=summary drops message and
+    // content bodies, and X-Next-Cursor is set when more pages may follow
+    this.app.get('/api/captures', asyncRoute(async (req, res) => {
+      let query: CaptureQuery;
+      try {
+        query = parseCaptureQuery(req.query);
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+
+      if (typeof req.query.session === 'string') {
+        const session = await this.findSession(req.query.session);
+        if (!session) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
+        }
+        query.requestIds = session.requestIds;
+      }
+
+      const pairs = await this.storage.query(query);
+      const last = pairs[pairs.length - 1];
+      if (last && query.limit !== undefined && pairs.length === query.limit) {
+        res.setHeader('X-Next-Cursor', encodeCursor(last.request));
+      }
+      res.json(req.query.view === 'summary' ? pairs.map(summarizePair) : pairs);
+    }));
+
+    // Full request and response for a single capture
+    this.app.get('/api/captures/:id', (req: Request, res: Response, next: NextFunction) => {
+      this.storage.getPair(req.params.id)
+        .then((pair) => {
+          if (!pair) {
+            res.status(404).json({ error: 'Capture not found' });
+            return;
+          }
+          res.json(pair);
+        })
+        .catch(next);
     });
 
+    // Captures grouped into sessions and conversations
+    this.app.get('/api/sessions', asyncRoute(async (_req, res) => {
+      res.json(await collectSessions(this.storage));
+    }));
+
+    // Subagent calls linked to the conversations they spawned, with per-subtree totals
+    this.app.get('/api/subagents', asyncRoute(async (_req, res) => {
+      const sessions = new SessionBuilder();
+      const subagents = new SubagentCollector(this.pricing);
+      for await (const pair of this.storage.iteratePairs()) {
+        subagents.add(pair, sessions.add(pair));
+      }
+      res.json(subagents.tree(sessions.conversations()));
+    }));
+
+    // Prompt size per turn against the context limit, with compactions, optionally for a single session
+    this.app.get('/api/context', asyncRoute(async (req, res) => {
+      const builder = new SessionBuilder();
+      const context = new ContextCollector();
+      for await (const pair of this.storage.iteratePairs()) {
+        builder.add(pair);
+        context.add(pair);
+      }
+      let sessions = builder.sessions();
+
+      if (typeof req.query.session === 'string') {
+        sessions = sessions.filter((s) => s.id === req.query.session);
+        if (sessions.length === 0) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
+        }
+      }
+
+      res.json(context.analyze(sessions));
+    }));
+
+    // Prompt cache hit rates, breakpoints and misses, optionally for a single session
+    this.app.get('/api/cache', asyncRoute(async (req, res) => {
+      let ids: Set<string> | undefined;
+
+      if (typeof req.query.session === 'string') {
+        const session = await this.findSession(req.query.session);
+        if (!session) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
+        }
+        ids = new Set(session.requestIds);
+      }
+
+      const sessions = new SessionBuilder();
+      const cache = new CacheCollector(this.pricing);
+      for await (const pair of selectPairs(this.storage, ids)) {
+        cache.add(pair, sessions.add(pair).id);
+      }
+      res.json(cache.summary());
+    }));
+
+    // Token statistics, estimated cost, latency and errors, optionally for a single session
+    this.app.get('/api/stats', asyncRoute(async (req, res) => {
+      let session: Session | undefined;
+
+      if (typeof req.query.session === 'string') {
+        session = await this.findSession(req.query.session);
+        if (!session) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
+        }
+      }
+
+      const builder = new SessionBuilder();
+      const stats = new ConversationStatsCollector();
+      const pairs: RequestResponsePair[] = [];
+      for await (const pair of selectPairs(this.storage, session && new Set(session.requestIds))) {
+        if (!session) builder.add(pair);
+        stats.addRequest(pair.request);
+        if (pair.response) stats.addResponse(pair.response);
+        pairs.push(stripContent(pair));
+      }
+
+      const responses = pairs.flatMap((p) => (p.response ? [p.response] : []));
+      res.json({
+        ...stats.stats(),
+        cost: summarizeCosts(pairs, this.pricing, session ? [session] : builder.sessions()),
+        latency: summarizeLatency(responses),
+        errors: summarizeErrors(pairs),
+      });
+    }));
+
+    // Distinct system prompts, without their text
+    this.app.get('/api/prompts', asyncRoute(async (_req, res) => {
+      const versions = await buildPromptRegistry(this.storage.iterateRequests());
+      res.json(versions.map(({ text, sections, ...version }) => ({
+        ...version,
+        length: text.length,
+        sections: sections.map(({ title, hash }) => ({ title, hash })),
+      })));
+    }));
+
+    // Section-aware diff between two system prompt versions
+    this.app.get('/api/prompts/diff', asyncRoute(async (req, res) => {
+      const versions = await buildPromptRegistry(this.storage.iterateRequests());
+      const from = typeof req.query.from === 'string' ? findPromptVersion(versions, req.query.from) : null;
+      const to = typeof req.query.to === 'string' ? findPromptVersion(versions, req.query.to) : null;
+      if (!from || !to) {
+        res.status(404).json({ error: 'Prompt version not found' });
+        return;
+      }
+      res.json(diffPrompts(from, to));
+    }));
+
+    // Tool definitions and each distinct version of their schemas
+    this.app.get('/api/tools', asyncRoute(async (_req, res) => {
+      res.json(await buildToolCatalog(this.storage.iterateRequests()));
+    }));
+
+    // Diff between two versions of a tool's schema
+    this.app.get('/api/tools/diff', asyncRoute(async (req, res) => {
+      const catalog = await buildToolCatalog(this.storage.iterateRequests());
+      const entry = catalog.find((e) => e.name === req.query.name);
+      const from = entry?.versions.find((v) => v.hash === req.query.from);
+      const to = entry?.versions.find((v) => v.hash === req.query.to);
+      if (!entry || !from || !to) {
+        res.status(404).json({ error: 'Tool version not found' });
+        return;
+      }
+      res.json(diffToolSchemas({ name: entry.name, ...from }, { name: entry.name, ...to }));
+    }));
+
+    // Requests where an agent's tool set changed
+    this.app.get('/api/tools/changes', asyncRoute(async (_req, res) => {
+      res.json(await findToolSetChanges(this.storage.iterateRequests()));
+    }));
+
+    // Full-text search over prompts, messages and tool calls
+    this.app.get('/api/search', asyncRoute(async (req, res) => {
+      if (typeof req.query.q !== 'string' || !req.query.q.trim()) {
+        res.status(400).json({ error: 'Missing query parameter q' });
+        return;
+      }
+      let limit: number | undefined;
+      try {
+        limit = typeof req.query.limit === 'string' ? parseCount(req.query.limit, 'limit') : undefined;
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      const index = await this.getSearchIndex();
+      res.json(index.search(req.query.q, limit));
+    }));
+
     // Clear captured data
     this.app.delete('/api/captures', (_req: Request, res: Response) => {
       this.storage.clear();
+      this.searchIndex = null;
       res.json({ status: 'cleared' });
     });
 
+    // Web dashboard, with client-side routes falling back to index.html
+    const uiDir = this.getUiDir();
+    this.app.use(UI_PATH, express.static(uiDir));
+    this.app.get([UI_PATH, `${UI_PATH}/*`], (_req: Request, res: Response) => {
+      const index = path.join(uiDir, 'index.html');
+      if (fs.existsSync(index)) {
+        res.sendFile(index);
+      } else {
+        res.status(404).type('text/plain').send(`Dashboard not built: ${index} not found. Run "npm run build:web" first.`);
+      }
+    });
+
     // Proxy all other requests to Anthropic API
     this.app.all('*', this.handleProxyRequest.bind(this));
   }
@@ -78,7 +461,7 @@ export class ProxyServer {
     }
 
     // Capture request
-    const capturedRequest: CapturedRequest = {
+    const request: CapturedRequest = {
       id: requestId,
       timestamp: new Date().toISOString(),
       model: body.model as string || 'unknown',
@@ -88,21 +471,35 @@ export class ProxyServer {
       tools: body.tools as CapturedRequest['tools'],
       stream: body.stream as boolean,
       metadata: body.metadata as Record<string, unknown>,
+      headers: captureHeaders(req.headers),
+      ...this.options.captureTags,
+    };
+    // Classify and key before redaction, which may rewrite the text both depend on
+    const capturedRequest: CapturedRequest = {
+      ...this.redactRequest({ ...request, agent_type: this.classifier.classify(request) }),
+      replay_key: hashRequest(request),
     };
 
+    if (this.replayIndex) {
+      this.handleReplayRequest(requestId, startTime, capturedRequest, res);
+      return;
+    }
+
     this.storage.logRequest(capturedRequest);
+    this.updateSearchIndex((index) => index.addRequest(capturedRequest));
     this.log(`[${requestId.slice(0, 8)}] ${req.method} ${req.path} - Model: ${capturedRequest.model}`);
-    this.broadcast({ type: 'request', data: capturedRequest });
+    this.broadcastRequest(capturedRequest);
 
     // Prepare proxy request options
+    const isHttps = this.upstream.protocol === 'https:';
     const proxyOptions: https.RequestOptions = {
-      hostname: ANTHROPIC_API_HOST,
-      port: 443,
-      path: req.path,
+      hostname: this.upstream.hostname,
+      port: this.upstream.port || (isHttps ? 443 : 80),
+      path: this.upstreamBasePath + req.url,
       method: req.method,
       headers: {
         ...req.headers,
-        host: ANTHROPIC_API_HOST,
+        host: this.upstream.host,
       },
     };
 
@@ -115,7 +512,8 @@ export class ProxyServer {
     const isStreaming = body.stream === true;
 
     // Make proxy request
-    const proxyReq = https.request(proxyOptions, (proxyRes) => {
+    const requestFn = isHttps ? https.request : http.request;
+    const proxyReq = requestFn(proxyOptions, (proxyRes) => {
       // Forward status and headers
       res.status(proxyRes.statusCode || 500);
       Object.entries(proxyRes.headers).forEach(([key, value]) => {
@@ -124,16 +522,32 @@ export class ProxyServer {
         }
       });
 
-      if (isStreaming) {
-        this.handleStreamingResponse(requestId, startTime, proxyRes, res, capturedRequest);
+      // Errors come back as JSON even when a stream was requested
+      if (isStreaming && (proxyRes.statusCode || 500) < 400) {
+        this.handleStreamingResponse(requestId, startTime, proxyRes, res);
       } else {
-        this.handleNonStreamingResponse(requestId, startTime, proxyRes, res);
+        this.handleNonStreamingResponse(requestId, startTime, proxyRes, res, capturedRequest.model);
       }
     });
 
     proxyReq.on('error', (error) => {
-      this.log(`Proxy request error: ${error.message}`);
-      res.status(502).json({ error: 'Proxy request failed', message: error.message });
+      this.log(`[${requestId.slice(0, 8)}] Proxy request error: ${error.message}`);
+      this.recordResponse({
+        request_id: requestId,
+        timestamp: new Date().toISOString(),
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+        model: capturedRequest.model,
+        duration_ms: Date.now() - startTime,
+        status: 502,
+        error: { type: 'proxy_error', message: error.message },
+      });
+      if (!res.headersSent) {
+        res.status(502).json({ error: 'Proxy request failed', message: error.message });
+      } else {
+        res.end();
+      }
     });
 
     // Forward request body
@@ -143,29 +557,73 @@ export class ProxyServer {
     proxyReq.end();
   }
 
-  private handleStreamingResponse(
+  private handleReplayRequest(
     requestId: string,
     startTime: number,
-    proxyRes: http.IncomingMessage,
-    res: Response,
-    _capturedRequest: CapturedRequest
+    capturedRequest: CapturedRequest,
+    res: Response
   ): void {
-    const parser = new SSEParser();
-    const chunks: Buffer[] = [];
+    // Replayed traffic is broadcast for live viewing but never written back to storage
+    const recorded = this.replayIndex!.lookup(capturedRequest.replay_key!);
+    this.broadcastRequest(capturedRequest);
+
+    if (!recorded) {
+      this.log(`[${requestId.slice(0, 8)}] Replay miss - Model: ${capturedRequest.model}`);
+      res.status(404).json({
+        type: 'error',
+        error: { type: 'not_found_error', message: 'No recorded response matches this request' },
+      });
+      return;
+    }
 
-    proxyRes.on('data', (chunk: Buffer) => {
-      chunks.push(chunk);
-      res.write(chunk);
-      parser.processChunk(chunk.toString());
+    this.log(`[${requestId.slice(0, 8)}] Replay hit - Model: ${capturedRequest.model}`);
+
+    for (const [name, value] of Object.entries(recorded.headers || {})) {
+      res.setHeader(name, value);
+    }
+
+    if (recorded.error && (recorded.status || 0) >= 400) {
+      res.status(recorded.status!).json({ type: 'error', error: recorded.error });
+    } else if (capturedRequest.stream) {
+      res.status(200);
+      res.setHeader('content-type', 'text/event-stream');
+      res.setHeader('cache-control', 'no-cache');
+      res.end(formatSSE(buildStreamEvents(recorded)));
+    } else {
+      res.status(200).json(buildMessageBody(recorded));
+    }
+
+    this.broadcastResponse({
+      ...recorded,
+      request_id: requestId,
+      timestamp: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
     });
+  }
 
-    proxyRes.on('end', () => {
+  private handleStreamingResponse(
+    requestId: string,
+    startTime: number,
+    proxyRes: http.IncomingMessage,
+    res: Response
+  ): void {
+    const parser = new SSEParser(startTime);
+    parser.getTimer().markResponseHeaders();
+    let finished = false;
+
+    // Record whatever was accumulated, once, whether the stream ended or broke off
+    const finish = (streamError?: Error) => {
+      if (finished) return;
+      finished = true;
       res.end();
 
       const accumulator = parser.getAccumulator();
       const duration = Date.now() - startTime;
+      const error = streamError
+        ? { type: 'proxy_error', message: `Upstream stream failed: ${streamError.message}` }
+        : accumulator.error;
 
-      const capturedResponse: CapturedResponse = {
+      this.recordResponse({
         request_id: requestId,
         timestamp: new Date().toISOString(),
         content: accumulator.content,
@@ -173,27 +631,38 @@ export class ProxyServer {
         usage: accumulator.usage,
         model: accumulator.model,
         duration_ms: duration,
-      };
+        timing: parser.getTimer().getTiming(),
+        status: proxyRes.statusCode,
+        headers: pickResponseHeaders(proxyRes.headers),
+        ...(error ? { error } : {}),
+      });
 
-      this.storage.logResponse(capturedResponse);
-      this.log(`[${requestId.slice(0, 8)}] Response complete - ${duration}ms, ${accumulator.usage.output_tokens} output tokens`);
-      this.broadcast({ type: 'response', data: capturedResponse });
-    });
+      if (error) {
+        this.log(`[${requestId.slice(0, 8)}] Stream error - ${error.type}: ${error.message}`);
+      } else {
+        this.log(`[${requestId.slice(0, 8)}] Response complete - ${duration}ms, ${accumulator.usage.output_tokens} output tokens`);
+      }
+    };
 
-    proxyRes.on('error', (error) => {
-      this.log(`Stream error: ${error.message}`);
-      res.end();
+    proxyRes.on('data', (chunk: Buffer) => {
+      res.write(chunk);
+      parser.processChunk(chunk.toString());
     });
+
+    proxyRes.on('end', () => finish());
+    proxyRes.on('error', (error) => finish(error));
   }
 
   private handleNonStreamingResponse(
     requestId: string,
     startTime: number,
     proxyRes: http.IncomingMessage,
-    res: Response
+    res: Response,
+    model: string
   ): void {
     const chunks: Buffer[] = [];
     const contentEncoding = proxyRes.headers['content-encoding'];
+    const ttfb = Date.now() - startTime;
 
     proxyRes.on('data', (chunk: Buffer) => {
       chunks.push(chunk);
@@ -205,12 +674,38 @@ export class ProxyServer {
 
       const duration = Date.now() - startTime;
 
+      const status = proxyRes.statusCode || 500;
+      const headers = pickResponseHeaders(proxyRes.headers);
+
+      const recordError = (body: string) => {
+        const error = parseErrorBody(body, status);
+        this.recordResponse({
+          request_id: requestId,
+          timestamp: new Date().toISOString(),
+          content: [],
+          stop_reason: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+          model,
+          duration_ms: duration,
+          timing: { ttfb_ms: ttfb },
+          status,
+          headers,
+          error,
+        });
+        this.log(`[${requestId.slice(0, 8)}] Error ${status} - ${error.type}: ${error.message}`);
+      };
+
       // Decompress if needed for logging
       this.decompressBuffer(buffer, contentEncoding)
         .then((decompressed) => {
+          if (status >= 400) {
+            recordError(decompressed.toString());
+            return;
+          }
+
           try {
             const responseBody = JSON.parse(decompressed.toString());
-            const capturedResponse: CapturedResponse = {
+            this.recordResponse({
               request_id: requestId,
               timestamp: new Date().toISOString(),
               content: responseBody.content as ContentBlock[] || [],
@@ -218,21 +713,74 @@ export class ProxyServer {
               usage: responseBody.usage || { input_tokens: 0, output_tokens: 0 },
               model: responseBody.model || 'unknown',
               duration_ms: duration,
-            };
-
-            this.storage.logResponse(capturedResponse);
+              timing: { ttfb_ms: ttfb },
+              status,
+              headers,
+            });
             this.log(`[${requestId.slice(0, 8)}] Response complete - ${duration}ms`);
-            this.broadcast({ type: 'response', data: capturedResponse });
           } catch (e) {
             this.log(`Failed to parse response: ${e}`);
           }
         })
         .catch((e) => {
           this.log(`Failed to decompress response: ${e}`);
+          // Still record the failure, with its status and headers
+          if (status >= 400) {
+            recordError(`Undecodable ${contentEncoding} response body (${buffer.length} bytes)`);
+          }
         });
     });
   }
 
+  private recordResponse(response: CapturedResponse): void {
+    const capturedResponse = this.redactResponse(response);
+    try {
+      this.storage.logResponse(capturedResponse);
+    } catch (error) {
+      console.error(`Failed to store response ${response.request_id}: ${(error as Error).message}`);
+    }
+    this.updateSearchIndex((index) => index.addResponse(capturedResponse));
+    this.broadcastResponse(capturedResponse);
+  }
+
+  /**
+   * Find a session by id, threading every capture in the store
+   */
+  private async findSession(id: string): Promise<Session | undefined> {
+    const sessions = await collectSessions(this.storage);
+    return sessions.find((s) => s.id === id);
+  }
+
+  private getSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndex) {
+      this.searchIndex = buildSearchIndex(this.storage.iteratePairs());
+      // Build again on the next search rather than keep failing
+      this.searchIndex.catch(() => {
+        this.searchIndex = null;
+      });
+    }
+    return this.searchIndex;
+  }
+
+  /**
+   * Add a capture to the search index once it has been built. Captures that
+   * arrive while it is being built may be read by the build too, which is
+   * harmless as the index keeps each distinct text once.
+   */
+  private updateSearchIndex(update: (index: SearchIndex) => void): void {
+    this.searchIndex?.then(update, () => undefined);
+  }
+
+  // Captures are redacted before they reach storage or WebSocket clients; the
+  // traffic forwarded upstream and back to the client is left untouched
+  private redactRequest(request: CapturedRequest): CapturedRequest {
+    return this.redactor ? this.redactor.redactRequest(request) : request;
+  }
+
+  private redactResponse(response: CapturedResponse): CapturedResponse {
+    return this.redactor ? this.redactor.redactResponse(response) : response;
+  }
+
   private decompressBuffer(buffer: Buffer, encoding: string | undefined): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       if (!encoding) {
@@ -262,6 +810,17 @@ export class ProxyServer {
     });
   }
 
+  // Live clients get the full capture plus the summary used by list views
+  private broadcastRequest(request: CapturedRequest): void {
+    this.broadcast({ type: 'request', data: request, summary: summarizeRequest(request) });
+    this.emit('request', request);
+  }
+
+  private broadcastResponse(response: CapturedResponse): void {
+    this.broadcast({ type: 'response', data: response, summary: summarizeResponse(response) });
+    this.emit('response', response);
+  }
+
   private broadcast(message: unknown): void {
     const data = JSON.stringify(message);
     for (const client of this.wsClients) {
@@ -277,18 +836,36 @@ export class ProxyServer {
     }
   }
 
-  start(): Promise<void> {
+  async start(): Promise<void> {
+    if (this.replayIndex) {
+      await this.replayIndex.load(this.storage.iteratePairs());
+    }
+
     return new Promise((resolve, reject) => {
       this.server = this.app.listen(this.options.port, () => {
-        this.log(`Proxy server listening on http://localhost:${this.options.port}`);
-        this.log(`Data directory: ${this.options.dataDir}`);
+        this.port = (this.server!.address() as AddressInfo).port;
+        this.log(`Proxy server listening on http://localhost:${this.port}`);
+        this.log(`Data directory: ${this.options.dataDir} (${this.options.storage || 'jsonl'})`);
+        if (this.replayIndex) {
+          this.log(`Replay mode: serving ${this.replayIndex.size} recorded responses`);
+        } else {
+          this.log(`Upstream: ${this.upstream.origin}${this.upstreamBasePath}`);
+        }
+        if (!this.redactor) {
+          this.log('Redaction disabled: captures are stored verbatim, apart from auth headers');
+        }
         this.log('');
         this.log('To use with Claude Code, run:');
-        this.log(`  ANTHROPIC_BASE_URL=http://localhost:${this.options.port} claude`);
+        this.log(`  ANTHROPIC_BASE_URL=http://localhost:${this.port} claude`);
+        this.log('');
+        this.log(`Dashboard: ${this.getDashboardUrl()}`);
+        if (!this.isDashboardBuilt()) {
+          this.log(`  (not built yet: run "npm run build:web")`);
+        }
         this.log('');
 
         // Setup WebSocket server for real-time updates
-        this.wss = new WebSocketServer({ server: this.server! });
+        this.wss = new WebSocketServer({ server: this.server!, path: WS_PATH });
         this.wss.on('connection', (ws) => {
           this.wsClients.add(ws);
           this.log('WebSocket client connected');
@@ -333,7 +910,23 @@ export class ProxyServer {
     });
   }
 
-  getStorage(): JSONLStorage {
+  getStorage(): CaptureStore {
     return this.storage;
   }
+
+  getPort(): number {
+    return this.port;
+  }
+
+  getDashboardUrl(): string {
+    return `http://localhost:${this.port}${UI_PATH}/`;
+  }
+
+  isDashboardBuilt(): boolean {
+    return fs.existsSync(path.join(this.getUiDir(), 'index.html'));
+  }
+
+  private getUiDir(): string {
+    return path.resolve(this.options.uiDir || DEFAULT_UI_DIR);
+  }
 }
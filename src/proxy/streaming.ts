@@ -7,7 +7,13 @@ import type {
   TokenUsage,
   TextContent,
   ToolUseContent,
+  ThinkingContent,
+  ServerToolUseContent,
+  Citation,
+  ResponseTiming,
+  ApiError,
 } from '../types.js';
+import { summarizeGaps } from '../parser/latency.js';
 
 export interface StreamAccumulator {
   messageId: string;
@@ -17,8 +23,13 @@ export interface StreamAccumulator {
   currentBlock: Partial<ContentBlock> | null;
   currentText: string;
   currentJson: string;
+  currentThinking: string;
+  currentSignature: string;
+  currentCitations: Citation[];
   stopReason: string | null;
   usage: TokenUsage;
+  /** Set when the stream ends with an error event */
+  error: ApiError | null;
 }
 
 export function createStreamAccumulator(): StreamAccumulator {
@@ -30,11 +41,15 @@ export function createStreamAccumulator(): StreamAccumulator {
     currentBlock: null,
     currentText: '',
     currentJson: '',
+    currentThinking: '',
+    currentSignature: '',
+    currentCitations: [],
     stopReason: null,
     usage: {
       input_tokens: 0,
       output_tokens: 0,
     },
+    error: null,
   };
 }
 
@@ -72,11 +87,20 @@ export function processStreamEvent(
       accumulator.currentBlock = { ...event.content_block };
       accumulator.currentText = '';
       accumulator.currentJson = '';
+      accumulator.currentThinking = '';
+      accumulator.currentSignature = '';
+      accumulator.currentCitations = [];
 
       if (event.content_block.type === 'text') {
-        accumulator.currentText = (event.content_block as TextContent).text || '';
+        const textBlock = event.content_block as TextContent;
+        accumulator.currentText = textBlock.text || '';
+        accumulator.currentCitations = [...(textBlock.citations || [])];
+      } else if (event.content_block.type === 'thinking') {
+        const thinkingBlock = event.content_block as ThinkingContent;
+        accumulator.currentThinking = thinkingBlock.thinking || '';
+        accumulator.currentSignature = thinkingBlock.signature || '';
       }
-      // For tool_use, input starts empty and is built via input_json_delta events
+      // For tool_use and server_tool_use, input starts empty and is built via input_json_delta events
       break;
 
     case 'content_block_delta':
@@ -84,18 +108,28 @@ export function processStreamEvent(
         accumulator.currentText += event.delta.text;
       } else if (event.delta.type === 'input_json_delta' && event.delta.partial_json) {
         accumulator.currentJson += event.delta.partial_json;
+      } else if (event.delta.type === 'thinking_delta' && event.delta.thinking) {
+        accumulator.currentThinking += event.delta.thinking;
+      } else if (event.delta.type === 'signature_delta' && event.delta.signature) {
+        accumulator.currentSignature += event.delta.signature;
+      } else if (event.delta.type === 'citations_delta' && event.delta.citation) {
+        accumulator.currentCitations.push(event.delta.citation);
       }
       break;
 
     case 'content_block_stop':
       if (accumulator.currentBlock) {
         if (accumulator.currentBlock.type === 'text') {
-          accumulator.content.push({
+          const textBlock: TextContent = {
             type: 'text',
             text: accumulator.currentText,
-          } as TextContent);
-        } else if (accumulator.currentBlock.type === 'tool_use') {
-          const toolBlock = accumulator.currentBlock as Partial<ToolUseContent>;
+          };
+          if (accumulator.currentCitations.length > 0) {
+            textBlock.citations = accumulator.currentCitations;
+          }
+          accumulator.content.push(textBlock);
+        } else if (accumulator.currentBlock.type === 'tool_use' || accumulator.currentBlock.type === 'server_tool_use') {
+          const toolBlock = accumulator.currentBlock as Partial<ToolUseContent | ServerToolUseContent>;
           let parsedInput = {};
           try {
             if (accumulator.currentJson) {
@@ -105,11 +139,21 @@ export function processStreamEvent(
             // Keep empty object if JSON parsing fails
           }
           accumulator.content.push({
-            type: 'tool_use',
+            type: toolBlock.type,
             id: toolBlock.id || '',
             name: toolBlock.name || '',
             input: parsedInput,
-          } as ToolUseContent);
+          } as ToolUseContent | ServerToolUseContent);
+        } else if (accumulator.currentBlock.type === 'thinking') {
+          accumulator.content.push({
+            type: 'thinking',
+            thinking: accumulator.currentThinking,
+            signature: accumulator.currentSignature,
+          } as ThinkingContent);
+        } else {
+          // redacted_thinking, web_search_tool_result, web_fetch_tool_result and
+          // other blocks without deltas arrive whole in content_block_start
+          accumulator.content.push(accumulator.currentBlock as ContentBlock);
         }
       }
       accumulator.currentBlock = null;
@@ -125,15 +169,68 @@ export function processStreamEvent(
     case 'message_stop':
       // Message complete
       break;
+
+    case 'error':
+      // e.g. overloaded_error sent after the stream has started
+      accumulator.error = event.error;
+      break;
+  }
+}
+
+/**
+ * Records when stream milestones arrive, relative to when the request was received
+ */
+export class StreamTimer {
+  private startTime: number;
+  private ttfb: number | null = null;
+  private messageStart: number | null = null;
+  private firstOutput: number | null = null;
+  private deltaTimes: number[] = [];
+
+  constructor(startTime: number = Date.now()) {
+    this.startTime = startTime;
+  }
+
+  markResponseHeaders(): void {
+    this.ttfb = Date.now() - this.startTime;
+  }
+
+  recordEvent(event: StreamEvent): void {
+    const elapsed = Date.now() - this.startTime;
+    if (event.type === 'message_start' && this.messageStart === null) {
+      this.messageStart = elapsed;
+    } else if (event.type === 'content_block_delta') {
+      this.deltaTimes.push(elapsed);
+      const type = event.delta.type;
+      if (this.firstOutput === null && (type === 'text_delta' || type === 'input_json_delta')) {
+        this.firstOutput = elapsed;
+      }
+    }
+  }
+
+  getTiming(): ResponseTiming {
+    const deltas = this.deltaTimes;
+    const timing: ResponseTiming = { ttfb_ms: this.ttfb ?? this.messageStart ?? 0 };
+    if (this.messageStart !== null) timing.message_start_ms = this.messageStart;
+    if (deltas.length > 0) {
+      timing.first_content_ms = deltas[0];
+      timing.first_output_ms = this.firstOutput ?? deltas[0];
+      timing.last_content_ms = deltas[deltas.length - 1];
+    }
+    const gaps = summarizeGaps(deltas);
+    if (gaps) timing.inter_chunk = gaps;
+    return timing;
   }
 }
 
 export class SSEParser {
   private buffer: string = '';
   private accumulator: StreamAccumulator;
+  private timer: StreamTimer;
 
-  constructor() {
+  constructor(startTime: number = Date.now()) {
     this.accumulator = createStreamAccumulator();
+    this.timer = new StreamTimer(startTime);
   }
 
   processChunk(chunk: string): StreamEvent[] {
@@ -155,6 +252,7 @@ export class SSEParser {
         try {
           const parsed = JSON.parse(sseEvent.data) as StreamEvent;
           processStreamEvent(this.accumulator, parsed);
+          this.timer.recordEvent(parsed);
           events.push(parsed);
         } catch {
           // Skip invalid JSON
@@ -169,8 +267,13 @@ export class SSEParser {
     return this.accumulator;
   }
 
-  reset(): void {
+  getTimer(): StreamTimer {
+    return this.timer;
+  }
+
+  reset(startTime: number = Date.now()): void {
     this.buffer = '';
     this.accumulator = createStreamAccumulator();
+    this.timer = new StreamTimer(startTime);
   }
 }
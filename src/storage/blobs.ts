@@ -0,0 +1,228 @@
+// Content-addressed blob store for content that repeats across captures
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { CapturedRequest, Message, SystemPrompt, ToolDefinition } from '../types.js';
+
+/** Reference to a blob, stored in place of the value it holds */
+export interface BlobRef {
+  $blob: string;
+}
+
+/**
+ * Messages as logged: whole chunks of the history in a chain of blobs, and the
+ * messages after the last whole chunk inline
+ */
+export interface ChunkedMessages extends BlobRef {
+  tail?: Message[];
+}
+
+/**
+ * A request as logged, with its system prompt, tools and messages moved to blobs.
+ * Messages are cut into chunks of a fixed number of messages, each stored in a
+ * blob pointing at the chunk before it, so a conversation's history is stored
+ * once no matter how many requests resend it. Short histories are kept inline.
+ */
+export interface StoredRequest extends Omit<CapturedRequest, 'system' | 'tools' | 'messages'> {
+  system?: SystemPrompt[] | BlobRef;
+  tools?: ToolDefinition[] | BlobRef;
+  messages: Message[] | ChunkedMessages;
+}
+
+interface MessageNode {
+  parent: string | null;
+  messages: Message[];
+}
+
+/** Logs written before messages were chunked hold one message per blob */
+interface LegacyMessageNode {
+  parent: string | null;
+  message: Message;
+}
+
+// Messages per chunk. Messages after the last whole chunk are logged inline
+// with each request until their chunk fills up: larger chunks mean fewer
+// files but more copies of recent messages in the log.
+const CHUNK_SIZE = 8;
+
+// Parsed blobs kept in memory; prompts and early messages are read over and over
+const CACHE_SIZE = 10000;
+
+/**
+ * Check whether a stored value is a reference to a blob
+ */
+export function isBlobRef(value: unknown): value is BlobRef {
+  return !!value && typeof value === 'object' && typeof (value as BlobRef).$blob === 'string';
+}
+
+/**
+ * Stores JSON values in files named by the SHA-256 of their contents, so each
+ * distinct value is written once however often it is stored
+ */
+export class BlobStore {
+  private dir: string;
+  /** Hashes of the blobs on disk, listed once on first use */
+  private known: Set<string> | null = null;
+  private cache = new Map<string, unknown>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.dir, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  /**
+   * Store a value and return its hash
+   */
+  put(value: unknown): string {
+    const json = JSON.stringify(value);
+    const hash = crypto.createHash('sha256').update(json).digest('hex');
+    const known = this.knownHashes();
+    if (known.has(hash)) return hash;
+
+    const file = this.blobPath(hash);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temporary file first so a blob is never seen half written
+    const tempPath = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, json);
+    fs.renameSync(tempPath, file);
+    known.add(hash);
+    return hash;
+  }
+
+  /**
+   * Read a stored value, throwing if the blob is missing
+   */
+  get<T>(hash: string): T {
+    if (this.cache.has(hash)) return this.cache.get(hash) as T;
+
+    const file = this.blobPath(hash);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Missing blob ${hash}`);
+    }
+    const value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (this.cache.size >= CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(hash, value);
+    return value as T;
+  }
+
+  // Blobs are only written through put or deleted by sweep while captures are
+  // being logged (rewrites refuse to run alongside a writer), so the listing
+  // stays accurate without checking the disk on every write
+  private knownHashes(): Set<string> {
+    if (!this.known) {
+      this.known = new Set();
+      for (const shard of fs.existsSync(this.dir) ? fs.readdirSync(this.dir) : []) {
+        for (const file of fs.readdirSync(path.join(this.dir, shard))) {
+          if (file.endsWith('.json')) this.known.add(file.slice(0, -'.json'.length));
+        }
+      }
+    }
+    return this.known;
+  }
+
+  /**
+   * Delete every blob not in the referenced set, optionally only those last
+   * written before a given time, returning how many were deleted
+   */
+  sweep(referenced: Set<string>, modifiedBefore?: number): number {
+    if (!fs.existsSync(this.dir)) return 0;
+
+    let deleted = 0;
+    for (const shard of fs.readdirSync(this.dir)) {
+      const shardDir = path.join(this.dir, shard);
+      for (const file of fs.readdirSync(shardDir)) {
+        const hash = file.replace(/\.json$/, '');
+        if (referenced.has(hash)) continue;
+        const blobFile = path.join(shardDir, file);
+        if (modifiedBefore !== undefined && fs.statSync(blobFile).mtimeMs >= modifiedBefore) continue;
+        fs.unlinkSync(blobFile);
+        this.known?.delete(hash);
+        this.cache.delete(hash);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    this.known = new Set();
+    this.cache.clear();
+    if (fs.existsSync(this.dir)) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Store whole chunks of messages as a chain of blobs, keeping the rest inline.
+// Chunks are cut at fixed positions and hashed from the start, so a resent
+// history maps onto the chunks already written. Claude Code moves its
+// cache_control markers between the last few messages on every turn, which
+// only ever touches the inline tail or the last chunk.
+function storeMessages(messages: Message[], blobs: BlobStore): Message[] | ChunkedMessages {
+  const whole = messages.length - (messages.length % CHUNK_SIZE);
+  if (whole === 0) return messages;
+
+  let parent: string | null = null;
+  for (let start = 0; start < whole; start += CHUNK_SIZE) {
+    const node: MessageNode = { parent, messages: messages.slice(start, start + CHUNK_SIZE) };
+    parent = blobs.put(node);
+  }
+  const tail = messages.slice(whole);
+  return tail.length > 0 ? { $blob: parent!, tail } : { $blob: parent! };
+}
+
+function loadMessages(ref: ChunkedMessages, blobs: BlobStore): Message[] {
+  const chunks: Message[][] = [ref.tail ?? []];
+  for (let hash: string | null = ref.$blob; hash; ) {
+    const node: MessageNode | LegacyMessageNode = blobs.get(hash);
+    chunks.push('messages' in node ? node.messages : [node.message]);
+    hash = node.parent;
+  }
+  return chunks.reverse().flat();
+}
+
+/**
+ * Add the hashes of every blob a logged request refers to, including its whole
+ * message chain, to the given set
+ */
+export function collectBlobRefs(stored: StoredRequest, blobs: BlobStore, into: Set<string>): void {
+  if (isBlobRef(stored.system)) into.add(stored.system.$blob);
+  if (isBlobRef(stored.tools)) into.add(stored.tools.$blob);
+  if (!isBlobRef(stored.messages)) return;
+
+  // Chains share their history, so stop at the first chunk already counted
+  for (let hash: string | null = stored.messages.$blob; hash && !into.has(hash); ) {
+    into.add(hash);
+    hash = blobs.get<MessageNode | LegacyMessageNode>(hash).parent;
+  }
+}
+
+/**
+ * Move a request's system prompt, tools and messages into the blob store
+ */
+export function dehydrateRequest(request: CapturedRequest, blobs: BlobStore): StoredRequest {
+  return {
+    ...request,
+    system: request.system ? { $blob: blobs.put(request.system) } : undefined,
+    tools: request.tools ? { $blob: blobs.put(request.tools) } : undefined,
+    messages: storeMessages(request.messages, blobs),
+  };
+}
+
+/**
+ * Restore a logged request, reading any blob references back from the store
+ */
+export function rehydrateRequest(stored: StoredRequest, blobs: BlobStore): CapturedRequest {
+  return {
+    ...stored,
+    system: isBlobRef(stored.system) ? blobs.get<SystemPrompt[]>(stored.system.$blob) : stored.system,
+    tools: isBlobRef(stored.tools) ? blobs.get<ToolDefinition[]>(stored.tools.$blob) : stored.tools,
+    messages: isBlobRef(stored.messages) ? loadMessages(stored.messages, blobs) : stored.messages,
+  };
+}
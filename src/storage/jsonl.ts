@@ -2,7 +2,13 @@
 
 import fs from 'fs';
 import path from 'path';
-import type { CapturedRequest, CapturedResponse } from '../types.js';
+import { once } from 'events';
+import type { CapturedRequest, CapturedResponse, RequestResponsePair } from '../types.js';
+import type { CaptureStore, CaptureTransform } from './store.js';
+import { matchesQuery, type CaptureQuery } from './query.js';
+import { BlobStore, collectBlobRefs, dehydrateRequest, rehydrateRequest, type StoredRequest } from './blobs.js';
+import { rotationPeriod, type RetentionPolicy, type RotationPolicy } from './rotation.js';
+import { OffsetIndex, readLineAt, readLines, writeCompressed, type LineLocation } from './offsets.js';
 
 export interface LogEntry {
   type: 'request' | 'response';
@@ -10,13 +16,96 @@ export interface LogEntry {
   data: CapturedRequest | CapturedResponse;
 }
 
-export class JSONLStorage {
+// Requests are written with their bulky, repeated parts moved to the blob store
+interface StoredLogEntry {
+  type: 'request' | 'response';
+  timestamp: string;
+  data: StoredRequest | CapturedResponse;
+}
+
+export interface JSONLStorageOptions {
+  rotation?: RotationPolicy;
+  /** Applied when the store opens and after each rotation */
+  retention?: RetentionPolicy;
+  /**
+   * Claim the data directory for writing until the store is closed, so that
+   * other processes refuse to rewrite or delete the files it appends to
+   */
+  lock?: boolean;
+}
+
+/** A rotated capture file, named by when it was rotated */
+interface Segment {
+  path: string;
+  /** Rotation time; every entry in the segment was logged before it */
+  endTime: string;
+  compressed: boolean;
+  size: number;
+}
+
+const SEGMENT_PATTERN = /^messages-(\d{8}T\d{9}Z)\.jsonl(\.gz)?$/;
+
+// Holds the pid of the process writing to a data directory
+const LOCK_FILE = 'writer.pid';
+
+// Blobs written this recently are never swept, as another process may be
+// about to log the request that refers to them
+const SWEEP_GRACE_MS = 10 * 60 * 1000;
+
+function segmentStamp(timestamp: string): string {
+  return timestamp.replace(/[-:.]/g, '');
+}
+
+function stampToTimestamp(stamp: string): string {
+  return `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T` +
+    `${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}.${stamp.slice(15, 18)}Z`;
+}
+
+// Text of each complete line of a file
+async function* lineTexts(file: string): AsyncGenerator<string> {
+  for await (const line of readLines(file)) yield line.text;
+}
+
+/**
+ * Appends captures to messages.jsonl. With a rotation policy, the file is
+ * renamed to messages-<time>.jsonl when the period or size limit is reached
+ * and then gzipped; readers span rotated segments and the current file.
+ */
+export class JSONLStorage implements CaptureStore {
+  private dataDir: string;
   private filePath: string;
   private writeStream: fs.WriteStream | null = null;
+  private blobs: BlobStore;
+  private offsets = new OffsetIndex();
+  private rotation?: RotationPolicy;
+  private retention?: RetentionPolicy;
+  private lockPath: string;
+  private locked = false;
+  /** Size and first entry time of the current file, loaded on first write */
+  private active: { size: number; startTime: string | null } | null = null;
 
-  constructor(dataDir: string) {
+  constructor(dataDir: string, options: JSONLStorageOptions = {}) {
+    this.dataDir = dataDir;
     this.filePath = path.join(dataDir, 'messages.jsonl');
+    this.blobs = new BlobStore(path.join(dataDir, 'blobs'));
+    this.rotation = options.rotation;
+    this.retention = options.retention;
+    this.lockPath = path.join(dataDir, LOCK_FILE);
     this.ensureDirectory(dataDir);
+    if (options.lock) {
+      fs.writeFileSync(this.lockPath, String(process.pid));
+      this.locked = true;
+    }
+
+    if (this.rotation) {
+      // Finish compressing segments left behind by a previous run
+      for (const segment of this.listSegments()) {
+        if (!segment.compressed) this.compressSegment(segment.path);
+      }
+    }
+    this.applyRetention().catch((error) => {
+      console.error(`Failed to apply retention: ${(error as Error).message}`);
+    });
   }
 
   private ensureDirectory(dir: string): void {
@@ -27,95 +116,503 @@ export class JSONLStorage {
 
   private getWriteStream(): fs.WriteStream {
     if (!this.writeStream) {
-      this.writeStream = fs.createWriteStream(this.filePath, { flags: 'a' });
+      // Open the file synchronously so it exists as soon as a line is written,
+      // which rotation relies on
+      this.writeStream = fs.createWriteStream(this.filePath, { fd: fs.openSync(this.filePath, 'a') });
     }
     return this.writeStream;
   }
 
   logRequest(request: CapturedRequest): void {
-    const entry: LogEntry = {
+    const timestamp = new Date().toISOString();
+    // Rotate before storing blobs, so a sweep after rotation cannot miss them
+    this.rotateIfNeeded(timestamp);
+    const entry: StoredLogEntry = {
       type: 'request',
-      timestamp: new Date().toISOString(),
-      data: request,
+      timestamp,
+      data: dehydrateRequest(request, this.blobs),
     };
     this.writeLine(entry);
   }
 
   logResponse(response: CapturedResponse): void {
+    const timestamp = new Date().toISOString();
+    this.rotateIfNeeded(timestamp);
     const entry: LogEntry = {
       type: 'response',
-      timestamp: new Date().toISOString(),
+      timestamp,
       data: response,
     };
     this.writeLine(entry);
   }
 
-  private writeLine(entry: LogEntry): void {
-    const stream = this.getWriteStream();
-    stream.write(JSON.stringify(entry) + '\n');
+  private writeLine(entry: StoredLogEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    this.getWriteStream().write(line);
+    if (this.active) {
+      this.active.size += Buffer.byteLength(line);
+      this.active.startTime ??= entry.timestamp;
+    }
   }
 
-  readAll(): LogEntry[] {
+  private loadActiveState(): { size: number; startTime: string | null } {
     if (!fs.existsSync(this.filePath)) {
-      return [];
+      return { size: 0, startTime: null };
     }
+    // Entries start with their type and timestamp, so the first bytes are enough
+    const fd = fs.openSync(this.filePath, 'r');
+    const head = Buffer.alloc(256);
+    const bytes = fs.readSync(fd, head, 0, head.length, 0);
+    fs.closeSync(fd);
+    const match = head.subarray(0, bytes).toString('utf-8').match(/"timestamp":"([^"]+)"/);
+    return { size: fs.statSync(this.filePath).size, startTime: match ? match[1] : null };
+  }
+
+  private rotateIfNeeded(timestamp: string): void {
+    if (!this.rotation) return;
+    this.active ??= this.loadActiveState();
+    if (this.active.size === 0) return;
+
+    const { interval, maxSize } = this.rotation;
+    const periodEnded = interval && this.active.startTime &&
+      rotationPeriod(this.active.startTime, interval) !== rotationPeriod(timestamp, interval);
+    if (!periodEnded && !(maxSize && this.active.size >= maxSize)) return;
 
-    const content = fs.readFileSync(this.filePath, 'utf-8');
-    const lines = content.trim().split('\n').filter(Boolean);
+    // Segment names must stay unique, even for rotations within a millisecond
+    let time = Date.parse(timestamp);
+    let segmentPath: string;
+    do {
+      segmentPath = path.join(this.dataDir, `messages-${segmentStamp(new Date(time++).toISOString())}.jsonl`);
+    } while (fs.existsSync(segmentPath) || fs.existsSync(`${segmentPath}.gz`));
+    // Lines still buffered in the old stream land in the renamed file, since
+    // the stream keeps its file descriptor
+    fs.renameSync(this.filePath, segmentPath);
+    this.offsets.forget(this.filePath);
+    this.active = { size: 0, startTime: null };
+
+    const stream = this.writeStream;
+    this.writeStream = null;
+    if (stream) {
+      stream.end(() => this.compressSegment(segmentPath));
+    } else {
+      this.compressSegment(segmentPath);
+    }
+  }
 
-    return lines.map((line) => {
-      try {
-        return JSON.parse(line) as LogEntry;
-      } catch {
-        return null;
+  // Gzip a rotated segment in the background, then apply retention
+  private compressSegment(segmentPath: string): void {
+    const gzPath = `${segmentPath}.gz`;
+    const tempPath = `${gzPath}.tmp`;
+
+    writeCompressed(tempPath, lineTexts(segmentPath))
+      .then((index) => {
+        // Retention or prune may have deleted the segment in the meantime
+        if (!fs.existsSync(segmentPath)) {
+          fs.unlinkSync(tempPath);
+          return;
+        }
+        fs.renameSync(tempPath, gzPath);
+        // The segment was indexed in full while compressing, including lines
+        // flushed after an earlier scan of it
+        this.offsets.replace(gzPath, index);
+        fs.unlinkSync(segmentPath);
+        return this.flush().then(() => this.applyRetention());
+      })
+      .catch((error) => {
+        console.error(`Failed to compress ${segmentPath}: ${(error as Error).message}`);
+        fs.rmSync(tempPath, { force: true });
+      });
+  }
+
+  // Resolve once lines written so far are on disk, so a sweep sees their blobs
+  private flush(): Promise<void> {
+    const stream = this.writeStream;
+    return stream ? new Promise((resolve) => stream.write('', () => resolve())) : Promise.resolve();
+  }
+
+  /**
+   * Rotated segments, oldest first. A segment caught between being compressed
+   * and its uncompressed copy being removed is listed once.
+   */
+  private listSegments(): Segment[] {
+    const byStamp = new Map<string, Segment>();
+    for (const file of fs.existsSync(this.dataDir) ? fs.readdirSync(this.dataDir) : []) {
+      const match = file.match(SEGMENT_PATTERN);
+      if (!match || (byStamp.has(match[1]) && match[2])) continue;
+      const segmentPath = path.join(this.dataDir, file);
+      byStamp.set(match[1], {
+        path: segmentPath,
+        endTime: stampToTimestamp(match[1]),
+        compressed: !!match[2],
+        size: fs.statSync(segmentPath).size,
+      });
+    }
+    return Array.from(byStamp.values()).sort((a, b) => a.endTime.localeCompare(b.endTime));
+  }
+
+  /** Every capture file, oldest first, ending with the current one */
+  private listFiles(): string[] {
+    const files = this.listSegments().map((segment) => segment.path);
+    if (fs.existsSync(this.filePath)) files.push(this.filePath);
+    return files;
+  }
+
+  /**
+   * Stream a file's entries through a transform into a temporary copy, then
+   * replace the file with it. Entries the transform returns null for are
+   * dropped. Returns how many were dropped.
+   */
+  private async rewriteFile(file: string, transform: (entry: StoredLogEntry) => StoredLogEntry | null): Promise<number> {
+    // Write to a temporary file first so an interrupted rewrite never loses captures
+    const tempPath = `${file}.tmp`;
+    let dropped = 0;
+    const kept = async function* () {
+      for await (const line of readLines(file)) {
+        let entry: StoredLogEntry;
+        try {
+          entry = JSON.parse(line.text) as StoredLogEntry;
+        } catch {
+          // Malformed lines are dropped, as they are skipped when reading
+          continue;
+        }
+        const result = transform(entry);
+        if (result) {
+          yield JSON.stringify(result);
+        } else {
+          dropped++;
+        }
+      }
+    };
+
+    let index: string | null = null;
+    const out = file.endsWith('.gz') ? null : fs.createWriteStream(tempPath);
+    try {
+      if (out) {
+        for await (const text of kept()) {
+          if (!out.write(text + '\n')) await once(out, 'drain');
+        }
+        out.end();
+        await once(out, 'finish');
+      } else {
+        index = await writeCompressed(tempPath, kept());
       }
-    }).filter((entry): entry is LogEntry => entry !== null);
+    } catch (error) {
+      out?.destroy();
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+
+    fs.renameSync(tempPath, file);
+    if (index === null) {
+      this.offsets.forget(file);
+    } else {
+      this.offsets.replace(file, index);
+    }
+    return dropped;
   }
 
-  readRequests(): CapturedRequest[] {
-    return this.readAll()
-      .filter((entry) => entry.type === 'request')
-      .map((entry) => entry.data as CapturedRequest);
+  /**
+   * Stream every entry, oldest first, without loading whole files into memory.
+   * Given the location of a line, start with the entry after it.
+   */
+  async *entries(after?: LineLocation): AsyncGenerator<LogEntry> {
+    const files = this.listFiles();
+    // The segment may have been compressed since the line was located; its
+    // offsets carry over to the compressed copy
+    const first = after ? files.findIndex((file) => file.replace(/\.gz$/, '') === after.file.replace(/\.gz$/, '')) : 0;
+    for (const [i, file] of files.slice(Math.max(first, 0)).entries()) {
+      const lines = after && i === 0 && first !== -1
+        ? readLines(file, after.offset + after.length + 1, file === after.file ? after.member : undefined)
+        : readLines(file);
+      for await (const line of lines) {
+        const entry = this.parseLine(line.text);
+        if (entry) yield entry;
+      }
+    }
   }
 
-  readResponses(): CapturedResponse[] {
-    return this.readAll()
-      .filter((entry) => entry.type === 'response')
-      .map((entry) => entry.data as CapturedResponse);
+  /**
+   * Yield entries as they are appended to the current file, starting from its
+   * end and continuing into the new file after each rotation. Never returns;
+   * stop iterating to stop following.
+   */
+  async *follow(pollMs: number = 500): AsyncGenerator<LogEntry> {
+    let inode = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).ino : null;
+    let position = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+    // Segments rotated since this time were rotated after the last poll
+    let polledAt = new Date().toISOString();
+
+    for (;;) {
+      const now = new Date().toISOString();
+      const stat = fs.existsSync(this.filePath) ? fs.statSync(this.filePath) : null;
+      if ((stat?.ino ?? null) !== inode) {
+        // The file was rotated or rewritten. Lines appended after the last
+        // poll went to the renamed segment, so it is read from where the poll
+        // stopped, and any segment rotated after it from its start.
+        if (inode !== null) {
+          const rotated = this.listSegments().filter((segment) => segment.endTime >= polledAt);
+          for (const [i, segment] of rotated.entries()) {
+            yield* this.readSegment(segment.path, i === 0 ? position : 0);
+          }
+        }
+        inode = stat?.ino ?? null;
+        position = 0;
+      } else if (stat && stat.size < position) {
+        // A file truncated in place is read from its start
+        position = 0;
+      }
+      polledAt = now;
+
+      if (stat && stat.size > position) {
+        for await (const line of readLines(this.filePath, position)) {
+          position = line.offset + line.length + 1;
+          const entry = this.parseLine(line.text);
+          if (entry) yield entry;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
   }
 
-  getRequestResponsePairs(): Array<{ request: CapturedRequest; response: CapturedResponse | null }> {
-    const entries = this.readAll();
-    const responseMap = new Map<string, CapturedResponse>();
+  // Read a rotated segment from an offset, from its gzipped copy if that has
+  // replaced it since the segment was listed
+  private async *readSegment(file: string, start: number): AsyncGenerator<LogEntry> {
+    const source = fs.existsSync(file) ? file : `${file}.gz`;
+    for await (const line of readLines(source, start)) {
+      const entry = this.parseLine(line.text);
+      if (entry) yield entry;
+    }
+  }
 
-    // Index responses by request_id
-    for (const entry of entries) {
-      if (entry.type === 'response') {
-        const response = entry.data as CapturedResponse;
-        responseMap.set(response.request_id, response);
+  private parseLine(text: string): LogEntry | null {
+    try {
+      return this.loadEntry(JSON.parse(text) as StoredLogEntry);
+    } catch {
+      return null;
+    }
+  }
+
+  private loadEntry(entry: StoredLogEntry): LogEntry {
+    if (entry.type !== 'request') {
+      return entry as LogEntry;
+    }
+    return { ...entry, data: rehydrateRequest(entry.data as StoredRequest, this.blobs) };
+  }
+
+  /**
+   * Stream requests in the order they were logged, without their responses
+   */
+  async *iterateRequests(): AsyncGenerator<CapturedRequest> {
+    for await (const entry of this.entries()) {
+      if (entry.type === 'request') yield entry.data as CapturedRequest;
+    }
+  }
+
+  /**
+   * Stream captures in the order they were logged and keep those matching the
+   * query, stopping once a page is full. A cursor is looked up in the offset
+   * index and the scan resumes at the line after its request, so paging never
+   * rereads earlier captures or skips ones logged in the same millisecond.
+   */
+  async query(query: CaptureQuery): Promise<RequestResponsePair[]> {
+    // Look ids up in a set rather than scanning the list for every pair
+    const { requestIds, limit, offset = 0, after, ...filters } = query;
+    const ids = requestIds ? new Set(requestIds) : null;
+    const results: RequestResponsePair[] = [];
+    if (limit === 0) return results;
+
+    // A cursor whose request has since been pruned falls back to comparing
+    // timestamps from the start
+    const start = after && (await this.offsets.lookup(this.listFiles(), after.id)).request;
+    const match = start ? filters : { ...filters, after };
+
+    let skipped = 0;
+    for await (const pair of this.pairs(start)) {
+      if ((ids && !ids.has(pair.request.id)) || !matchesQuery(pair, match)) continue;
+      if (skipped < offset) {
+        skipped++;
+        continue;
       }
+      results.push(pair);
+      if (results.length === limit) break;
     }
+    return results;
+  }
+
+  /**
+   * Stream captures in request order. The offset index tells which requests
+   * have a response still to come, so only requests awaiting one are held
+   * in memory.
+   */
+  async *iteratePairs(): AsyncGenerator<RequestResponsePair> {
+    yield* this.pairs();
+  }
+
+  // Pair captures logged after a line, or from the start. Responses always
+  // follow their request, so none is missed by starting part way.
+  private async *pairs(after?: LineLocation): AsyncGenerator<RequestResponsePair> {
+    const responded = await this.offsets.respondedIds(this.listFiles());
+    const queue: RequestResponsePair[] = [];
+    const waiting = new Map<string, RequestResponsePair>();
 
-    // Match requests with responses
-    return entries
-      .filter((entry) => entry.type === 'request')
-      .map((entry) => {
+    for await (const entry of this.entries(after)) {
+      if (entry.type === 'request') {
         const request = entry.data as CapturedRequest;
-        return {
-          request,
-          response: responseMap.get(request.id) || null,
-        };
+        const pair = { request, response: null };
+        queue.push(pair);
+        if (responded.has(request.id)) waiting.set(request.id, pair);
+      } else {
+        const response = entry.data as CapturedResponse;
+        const pair = waiting.get(response.request_id);
+        if (pair) {
+          pair.response = response;
+          waiting.delete(response.request_id);
+        }
+      }
+
+      while (queue.length > 0 && !waiting.has(queue[0].request.id)) {
+        yield queue.shift()!;
+      }
+    }
+    // Responses the index knew of but that failed to parse
+    yield* queue;
+  }
+
+  async getPair(id: string): Promise<RequestResponsePair | null> {
+    const location = await this.offsets.lookup(this.listFiles(), id);
+    const request = location.request && this.parseLine(await readLineAt(location.request));
+    if (!request) return null;
+    const response = location.response && this.parseLine(await readLineAt(location.response));
+    return {
+      request: request.data as CapturedRequest,
+      response: response ? (response.data as CapturedResponse) : null,
+    };
+  }
+
+  async rewrite(transform: CaptureTransform): Promise<void> {
+    this.assertNoOtherWriter('rewriting');
+    await this.endWriteStream();
+
+    for (const file of this.listFiles()) {
+      await this.rewriteFile(file, (entry) => {
+        if (entry.type !== 'request') {
+          return { ...entry, data: transform.response(entry.data as CapturedResponse) };
+        }
+        let request: CapturedRequest;
+        try {
+          request = this.loadEntry(entry).data as CapturedRequest;
+        } catch {
+          // Requests whose blobs are missing cannot be read back, so are dropped
+          return null;
+        }
+        return { ...entry, data: dehydrateRequest(transform.request(request), this.blobs) };
       });
+    }
+
+    // Drop blobs only the old captures referred to, so that nothing the
+    // transform removed, such as secrets, is left behind in the blob store.
+    // Blobs written in the last few minutes are kept for a proxy that may be
+    // about to log the request referring to them.
+    await this.collectGarbage();
+  }
+
+  async prune(before: string): Promise<number> {
+    this.assertNoOtherWriter('pruning');
+    await this.endWriteStream();
+
+    // Pairs are pruned whole: a response can land in a later file than its
+    // request, so pruned ids are carried forward to drop those responses too
+    const prunedIds = new Set<string>();
+    const segments = new Map(this.listSegments().map((segment) => [segment.path, segment]));
+    // Every entry of a file was logged after the previous segment was rotated
+    let startTime: string | null = null;
+
+    for (const file of this.listFiles()) {
+      const segment = segments.get(file);
+      const ids = await this.offsets.entryIds(file);
+
+      if (segment && segment.endTime < before) {
+        // Every entry of a segment rotated before the cutoff goes
+        for (const id of ids.requests) prunedIds.add(id);
+        fs.unlinkSync(file);
+        this.offsets.forget(file);
+      } else if ((startTime === null || startTime < before) || ids.responses.some((id) => prunedIds.has(id))) {
+        // Only a file that may hold requests from before the cutoff, or
+        // responses to pruned requests, is rewritten
+        await this.rewriteFile(file, (entry) => {
+          if (entry.type === 'request') {
+            const request = entry.data as StoredRequest;
+            if (request.timestamp >= before) return entry;
+            prunedIds.add(request.id);
+            return null;
+          }
+          return prunedIds.has((entry.data as CapturedResponse).request_id) ? null : entry;
+        });
+      }
+      startTime = segment?.endTime ?? startTime;
+    }
+
+    await this.collectGarbage();
+    return prunedIds.size;
+  }
+
+  // Delete rotated segments past the retention limits, oldest first
+  private async applyRetention(): Promise<void> {
+    if (!this.retention || (!this.retention.maxAge && !this.retention.maxTotalSize)) return;
+    const { maxAge, maxTotalSize } = this.retention;
+
+    const segments = this.listSegments();
+    const cutoff = maxAge ? new Date(Date.now() - maxAge).toISOString() : null;
+    const expired = segments.filter((segment) => cutoff && segment.endTime < cutoff);
+
+    if (maxTotalSize) {
+      let total = segments.reduce((sum, segment) => sum + segment.size, 0) +
+        (fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0);
+      total -= expired.reduce((sum, segment) => sum + segment.size, 0);
+      for (const segment of segments) {
+        if (total <= maxTotalSize) break;
+        if (expired.includes(segment)) continue;
+        expired.push(segment);
+        total -= segment.size;
+      }
+    }
+    if (expired.length === 0) return;
+
+    for (const segment of expired) {
+      fs.rmSync(segment.path, { force: true });
+      this.offsets.forget(segment.path);
+    }
+    await this.collectGarbage();
+  }
+
+  // Sweep blobs that no remaining capture refers to
+  private async collectGarbage(): Promise<void> {
+    const referenced = new Set<string>();
+    for (const file of this.listFiles()) {
+      for await (const line of readLines(file)) {
+        try {
+          const entry = JSON.parse(line.text) as StoredLogEntry;
+          if (entry.type === 'request') collectBlobRefs(entry.data as StoredRequest, this.blobs, referenced);
+        } catch {
+          // Malformed lines and missing blobs leave nothing more to keep
+        }
+      }
+    }
+    this.blobs.sweep(referenced, Date.now() - SWEEP_GRACE_MS);
   }
 
   clear(): void {
+    this.assertNoOtherWriter('clearing');
     if (this.writeStream) {
       this.writeStream.close();
       this.writeStream = null;
     }
-    if (fs.existsSync(this.filePath)) {
-      fs.unlinkSync(this.filePath);
+    for (const file of this.listFiles()) {
+      fs.unlinkSync(file);
+      this.offsets.forget(file);
     }
+    this.active = null;
+    this.blobs.clear();
   }
 
   close(): void {
@@ -123,6 +620,44 @@ export class JSONLStorage {
       this.writeStream.close();
       this.writeStream = null;
     }
+    this.active = null;
+    if (this.locked && this.lockingProcess() === null) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+    this.locked = false;
+  }
+
+  /**
+   * Pid of another live process writing to the data directory, if any
+   */
+  private lockingProcess(): number | null {
+    if (!fs.existsSync(this.lockPath)) return null;
+    const pid = Number(fs.readFileSync(this.lockPath, 'utf-8'));
+    if (!pid || pid === process.pid) return null;
+    try {
+      process.kill(pid, 0);
+    } catch (error) {
+      // The writer exited without releasing the lock
+      if ((error as NodeJS.ErrnoException).code !== 'EPERM') return null;
+    }
+    return pid;
+  }
+
+  // Rewriting replaces files a running proxy keeps appending to, so its
+  // captures would land in deleted files
+  private assertNoOtherWriter(action: string): void {
+    const pid = this.lockingProcess();
+    if (pid !== null) {
+      throw new Error(`A proxy (pid ${pid}) is writing to ${this.dataDir}; stop it before ${action} captures`);
+    }
+  }
+
+  // Close the current file once the lines buffered for it are written
+  private async endWriteStream(): Promise<void> {
+    const stream = this.writeStream;
+    this.writeStream = null;
+    this.active = null;
+    if (stream) await new Promise<void>((resolve) => stream.end(() => resolve()));
   }
 
   getFilePath(): string {
@@ -0,0 +1,298 @@
+// Streaming line reader and persistent byte offset index for JSONL capture files
+
+import fs from 'fs';
+import zlib from 'zlib';
+import { once } from 'events';
+import { pipeline, type Readable } from 'stream';
+import { promisify } from 'util';
+
+const gzip = promisify(zlib.gzip);
+
+/** Decompressed bytes per gzip member of a compressed capture file */
+const MEMBER_SIZE = 256 * 1024;
+
+export interface Line {
+  text: string;
+  /** Byte offset of the line within the (decompressed) file */
+  offset: number;
+  /** Length in bytes, excluding the newline */
+  length: number;
+}
+
+/**
+ * A gzip member of a compressed file, which can be decompressed on its own
+ */
+export interface Member {
+  /** Byte offset of the member's content within the decompressed file */
+  offset: number;
+  /** Byte offset of the member within the compressed file */
+  start: number;
+}
+
+export interface LineLocation {
+  file: string;
+  offset: number;
+  length: number;
+  /** Member holding the line, for compressed files indexed while written */
+  member?: Member;
+}
+
+interface FileIndex {
+  /** Inode the index was built for; a rotated or rewritten file gets a new one */
+  inode?: number;
+  /** Bytes of the file covered by the index, up to the end of the last complete line */
+  covered: number;
+  requests: Map<string, LineLocation>;
+  responses: Map<string, LineLocation>;
+}
+
+// Decompress a gzipped file from a member boundary. Destroying the returned
+// stream closes the file too.
+function openCompressed(file: string, start: number): Readable {
+  return pipeline(fs.createReadStream(file, { start }), zlib.createGunzip(), () => {});
+}
+
+/**
+ * Stream the complete lines of a file, optionally starting at a byte offset.
+ * Gzipped files are decompressed on the fly, from the member holding the
+ * offset if given; a trailing line without a newline, such as one still being
+ * written, is not returned.
+ */
+export function readLines(file: string, start: number = 0, member?: Member): AsyncGenerator<Line> {
+  // Offsets in gzipped files refer to the decompressed content, so without a
+  // member to start from those are decompressed from the start and skipped up
+  // to the offset
+  const from = member ?? { offset: 0, start: 0 };
+  return file.endsWith('.gz')
+    ? splitLines(openCompressed(file, from.start), from.offset, start)
+    : splitLines(fs.createReadStream(file, { start }), start, start);
+}
+
+// Split a stream whose first byte sits at `position` into lines, skipping
+// those before `skip`
+async function* splitLines(stream: Readable, position: number, skip: number): AsyncGenerator<Line> {
+  // Chunks since the last newline, joined only once the line is complete
+  let pending: Buffer[] = [];
+  let pendingStart = position;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let from = 0;
+    for (let index = chunk.indexOf(10); index !== -1; index = chunk.indexOf(10, from)) {
+      pending.push(chunk.subarray(from, index));
+      const line = pending.length === 1 ? pending[0] : Buffer.concat(pending);
+      if (pendingStart >= skip && line.length > 0) {
+        yield { text: line.toString('utf-8'), offset: pendingStart, length: line.length };
+      }
+      pendingStart = position + index + 1;
+      pending = [];
+      from = index + 1;
+    }
+    if (from < chunk.length) pending.push(chunk.subarray(from));
+    position += chunk.length;
+  }
+}
+
+/**
+ * Read a single line at a known location. In a compressed file, only the
+ * member holding the line is decompressed when the location names it.
+ */
+export async function readLineAt(location: LineLocation): Promise<string> {
+  if (location.file.endsWith('.gz')) {
+    for await (const line of readLines(location.file, location.offset, location.member)) {
+      return line.text;
+    }
+    throw new Error(`No line at ${location.file}:${location.offset}`);
+  }
+
+  const handle = await fs.promises.open(location.file, 'r');
+  try {
+    const buffer = Buffer.alloc(location.length);
+    await handle.read(buffer, 0, location.length, location.offset);
+    return buffer.toString('utf-8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Path of the index kept for a capture file. A segment and its compressed
+ * copy share one, since offsets refer to the decompressed content.
+ */
+export function indexPathFor(file: string): string {
+  return `${file.replace(/\.gz$/, '')}.idx`;
+}
+
+/**
+ * Gzip lines into a file as a series of gzip members, each holding whole
+ * lines, and index them on the way. Returns the index, for
+ * OffsetIndex.replace once the file is in place.
+ */
+export async function writeCompressed(file: string, lines: AsyncIterable<string>): Promise<string> {
+  const out = fs.createWriteStream(file);
+  const index: string[] = [];
+  let block: string[] = [];
+  let blockEntries: string[] = [];
+  let blockSize = 0;
+  const member: Member = { offset: 0, start: 0 };
+
+  const writeMember = async () => {
+    if (block.length === 0) return;
+    const compressed = await gzip(block.join(''));
+    index.push(`member ${member.offset} ${member.start}\n`, ...blockEntries);
+    if (!out.write(compressed)) await once(out, 'drain');
+    member.offset += blockSize;
+    member.start += compressed.length;
+    block = [];
+    blockEntries = [];
+    blockSize = 0;
+  };
+
+  try {
+    for await (const text of lines) {
+      const length = Buffer.byteLength(text);
+      const entry = parseEntry(text);
+      if (entry) blockEntries.push(`${entry.type} ${member.offset + blockSize} ${length} ${entry.id}\n`);
+      block.push(`${text}\n`);
+      blockSize += length + 1;
+      if (blockSize >= MEMBER_SIZE) await writeMember();
+    }
+    await writeMember();
+    out.end();
+    await once(out, 'finish');
+  } catch (error) {
+    out.destroy();
+    throw error;
+  }
+  return index.join('');
+}
+
+function parseEntry(text: string): { type: 'request' | 'response'; id: string } | null {
+  try {
+    const entry = JSON.parse(text);
+    if (entry.type === 'request' && entry.data?.id) return { type: 'request', id: entry.data.id };
+    if (entry.type === 'response' && entry.data?.request_id) return { type: 'response', id: entry.data.request_id };
+  } catch {
+    // Malformed lines are skipped, as when reading captures
+  }
+  return null;
+}
+
+/**
+ * Where each request and response line sits in the capture files, persisted
+ * next to each file as "<type> <offset> <length> <id>" lines, preceded in
+ * compressed files by a "member <offset> <start>" line per gzip member.
+ * Indexes are brought up to date lazily by scanning only what was appended
+ * since.
+ */
+export class OffsetIndex {
+  private files = new Map<string, FileIndex>();
+
+  /**
+   * Find the request and response lines of a request id
+   */
+  async lookup(files: string[], id: string): Promise<{ request?: LineLocation; response?: LineLocation }> {
+    const result: { request?: LineLocation; response?: LineLocation } = {};
+    for (const file of files) {
+      const index = await this.update(file);
+      result.request ??= index.requests.get(id);
+      result.response ??= index.responses.get(id);
+    }
+    return result;
+  }
+
+  /**
+   * Ids of requests with a logged response
+   */
+  async respondedIds(files: string[]): Promise<Set<string>> {
+    const ids = new Set<string>();
+    for (const file of files) {
+      for (const id of (await this.update(file)).responses.keys()) ids.add(id);
+    }
+    return ids;
+  }
+
+  /**
+   * Ids of the requests and responses logged in a file
+   */
+  async entryIds(file: string): Promise<{ requests: string[]; responses: string[] }> {
+    const index = await this.update(file);
+    return { requests: Array.from(index.requests.keys()), responses: Array.from(index.responses.keys()) };
+  }
+
+  /** Drop a file's index, e.g. after the file was rewritten or deleted */
+  forget(file: string): void {
+    this.files.delete(file);
+    fs.rmSync(indexPathFor(file), { force: true });
+  }
+
+  /** Replace a file's index with one built while writing it */
+  replace(file: string, index: string): void {
+    this.files.delete(file);
+    this.files.delete(file.replace(/\.gz$/, ''));
+    const indexPath = indexPathFor(file);
+    fs.writeFileSync(`${indexPath}.tmp`, index);
+    fs.renameSync(`${indexPath}.tmp`, indexPath);
+  }
+
+  private async update(file: string): Promise<FileIndex> {
+    const stat = fs.statSync(file);
+    let index = this.files.get(file);
+    if (!index || index.inode !== stat.ino) {
+      index = this.loadIndex(file);
+      index.inode = stat.ino;
+    }
+    const compressed = file.endsWith('.gz');
+
+    // Plain files may have grown, or been replaced by a shorter file
+    if (!compressed && index.covered > stat.size) {
+      this.forget(file);
+      index = { ...this.emptyIndex(), inode: stat.ino };
+    }
+    if (compressed && index.covered > 0) {
+      this.files.set(file, index);
+      return index;
+    }
+
+    const added: string[] = [];
+    for await (const line of readLines(file, index.covered)) {
+      const entry = parseEntry(line.text);
+      if (entry) {
+        const location = { file, offset: line.offset, length: line.length };
+        (entry.type === 'request' ? index.requests : index.responses).set(entry.id, location);
+        added.push(`${entry.type} ${line.offset} ${line.length} ${entry.id}\n`);
+      }
+      index.covered = line.offset + line.length + 1;
+    }
+    if (added.length > 0) {
+      fs.appendFileSync(indexPathFor(file), added.join(''));
+    }
+
+    this.files.set(file, index);
+    return index;
+  }
+
+  private emptyIndex(): FileIndex {
+    return { covered: 0, requests: new Map(), responses: new Map() };
+  }
+
+  private loadIndex(file: string): FileIndex {
+    const index = this.emptyIndex();
+    const indexPath = indexPathFor(file);
+    if (!fs.existsSync(indexPath)) return index;
+
+    let member: Member | undefined;
+    for (const line of fs.readFileSync(indexPath, 'utf-8').split('\n')) {
+      const [type, offset, length, id] = line.split(' ');
+      if (type === 'member') {
+        member = { offset: Number(offset), start: Number(length) };
+        continue;
+      }
+      if (!id) continue;
+      const location: LineLocation = { file, offset: Number(offset), length: Number(length) };
+      if (member && file.endsWith('.gz')) location.member = member;
+      (type === 'request' ? index.requests : index.responses).set(id, location);
+      index.covered = Math.max(index.covered, location.offset + location.length + 1);
+    }
+    return index;
+  }
+}
@@ -0,0 +1,108 @@
+// Capture query filters shared by storage backends
+
+import type { ContentBlock, Message, RequestResponsePair } from '../types.js';
+import { getAgentType } from '../parser/agents.js';
+
+/**
+ * Position of a capture, used for pagination: SQLite pages in (timestamp, id)
+ * order, JSONL in log order from the line of the capture's request
+ */
+export interface CaptureCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface CaptureQuery {
+  /** Only include requests captured at or after this ISO timestamp */
+  since?: string;
+  /** Only include requests captured before this ISO timestamp */
+  until?: string;
+  model?: string;
+  /** Only include these requests, e.g. the requests of one session */
+  requestIds?: string[];
+  /** Agent type stamped at capture time, or classified by the built-in rules (see parser/agents) */
+  agentType?: string;
+  /** Only include requests whose response called this tool */
+  tool?: string;
+  stopReason?: string;
+  /** Case-insensitive substring of message or response text, tool inputs or tool results */
+  text?: string;
+  /** Only include requests after this capture */
+  after?: CaptureCursor;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Encode the position of a capture as an opaque cursor string
+ */
+export function encodeCursor(cursor: CaptureCursor): string {
+  return Buffer.from(JSON.stringify([cursor.timestamp, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, or return null if it is malformed
+ */
+export function decodeCursor(value: string): CaptureCursor | null {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    return typeof timestamp === 'string' && typeof id === 'string' ? { timestamp, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+function compareCaptures(a: CaptureCursor, b: CaptureCursor): number {
+  return a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id);
+}
+
+function blockText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'thinking':
+      return block.thinking;
+    case 'tool_use':
+    case 'server_tool_use':
+      return `${block.name} ${JSON.stringify(block.input)}`;
+    case 'tool_result':
+      return typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+    default:
+      return '';
+  }
+}
+
+function contentText(content: Message['content']): string {
+  return typeof content === 'string' ? content : content.map(blockText).join('\n');
+}
+
+/**
+ * Whether a pair contains the search text; the system prompt is not searched
+ * since nearly every request shares it
+ */
+export function pairContainsText(pair: RequestResponsePair, text: string): boolean {
+  const needle = text.toLowerCase();
+  if (pair.request.messages.some((m) => contentText(m.content).toLowerCase().includes(needle))) {
+    return true;
+  }
+  return !!pair.response && contentText(pair.response.content).toLowerCase().includes(needle);
+}
+
+/**
+ * Check whether a pair matches the filter part of a query
+ */
+export function matchesQuery(pair: RequestResponsePair, query: CaptureQuery): boolean {
+  const { request, response } = pair;
+  if (query.since && request.timestamp < query.since) return false;
+  if (query.until && request.timestamp >= query.until) return false;
+  if (query.model && request.model !== query.model) return false;
+  if (query.requestIds && !query.requestIds.includes(request.id)) return false;
+  if (query.after && compareCaptures(request, query.after) <= 0) return false;
+  if (query.stopReason && response?.stop_reason !== query.stopReason) return false;
+  if (query.tool && !response?.content.some((b) => (b.type === 'tool_use' || b.type === 'server_tool_use') && b.name === query.tool)) {
+    return false;
+  }
+  if (query.agentType && getAgentType(request) !== query.agentType) return false;
+  if (query.text && !pairContainsText(pair, query.text)) return false;
+  return true;
+}
@@ -0,0 +1,198 @@
+// Secret redaction applied to captures before they are written to disk
+
+import fs from 'fs';
+import path from 'path';
+import type { CapturedRequest, CapturedResponse } from '../types.js';
+
+export const REDACTION_CONFIG_FILE = 'redaction.json';
+export const REDACTED = '[REDACTED]';
+
+export interface RedactionRule {
+  name: string;
+  /** Regular expression source */
+  pattern: string;
+  /** Regular expression flags; "g" is always added */
+  flags?: string;
+  /** Replacement string, may reference capture groups (default: [REDACTED]) */
+  replacement?: string;
+  /** Apply everywhere, or only inside tool_result blocks (default: all) */
+  scope?: 'all' | 'tool_result';
+}
+
+export interface RedactionConfig {
+  /** Include the built-in rules (default: true) */
+  defaults?: boolean;
+  /** Extra request header names to mask, in addition to auth headers */
+  headers?: string[];
+  rules?: RedactionRule[];
+}
+
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'cookie',
+  'set-cookie',
+];
+
+export const DEFAULT_RULES: RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+  },
+  { name: 'anthropic-api-key', pattern: '\\bsk-ant-[A-Za-z0-9_-]{10,}' },
+  { name: 'openai-api-key', pattern: '\\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}' },
+  { name: 'aws-access-key-id', pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b' },
+  {
+    name: 'aws-secret-access-key',
+    pattern: '(aws_secret_access_key["\']?\\s*[:=]\\s*["\']?)[A-Za-z0-9/+=]{40}',
+    flags: 'i',
+    replacement: `$1${REDACTED}`,
+  },
+  { name: 'github-token', pattern: '\\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})' },
+  { name: 'slack-token', pattern: '\\bxox[abposr]-[A-Za-z0-9-]{10,}' },
+  { name: 'bearer-token', pattern: '(Bearer\\s+)[A-Za-z0-9._~+/=-]{16,}', replacement: `$1${REDACTED}` },
+  { name: 'jwt', pattern: '\\beyJ[A-Za-z0-9_-]{8,}\\.[A-Za-z0-9_-]{8,}\\.[A-Za-z0-9_-]{8,}' },
+  {
+    // KEY=value lines as printed when Claude Code reads a .env file
+    name: 'env-secret',
+    pattern: '^(\\s*(?:export\\s+)?[A-Za-z_][A-Za-z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|PWD|CREDENTIALS?|AUTH)[A-Za-z0-9_]*\\s*=\\s*).+$',
+    flags: 'im',
+    replacement: `$1${REDACTED}`,
+    scope: 'tool_result',
+  },
+];
+
+// Opaque block fields that must round-trip unchanged (and would only produce false
+// positives), by block type; any other field, whatever its name, is redacted
+const OPAQUE_FIELDS: Record<string, string> = {
+  thinking: 'signature',
+  redacted_thinking: 'data',
+};
+
+// Blocks whose base64 source.data is skipped
+const MEDIA_BLOCKS = new Set(['image', 'document']);
+
+interface CompiledRule {
+  name: string;
+  regex: RegExp;
+  replacement: string;
+  scope: 'all' | 'tool_result';
+}
+
+/**
+ * Load redaction config from an explicit file, or from redaction.json in the
+ * data directory when present
+ */
+export function loadRedactionConfig(options: { file?: string; dataDir?: string } = {}): RedactionConfig {
+  let file = options.file;
+  if (!file && options.dataDir) {
+    const candidate = path.join(options.dataDir, REDACTION_CONFIG_FILE);
+    if (fs.existsSync(candidate)) file = candidate;
+  }
+  if (!file) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as RedactionConfig;
+}
+
+export class Redactor {
+  private rules: CompiledRule[];
+  private headers: Set<string>;
+  private counts = new Map<string, number>();
+
+  constructor(config: RedactionConfig = {}) {
+    const rules = [...(config.defaults === false ? [] : DEFAULT_RULES), ...(config.rules || [])];
+    this.rules = rules.map((rule) => ({
+      name: rule.name,
+      regex: new RegExp(rule.pattern, (rule.flags || '').replace('g', '') + 'g'),
+      replacement: rule.replacement ?? REDACTED,
+      scope: rule.scope || 'all',
+    }));
+    this.headers = new Set([
+      ...DEFAULT_REDACTED_HEADERS,
+      ...(config.headers || []).map((h) => h.toLowerCase()),
+    ]);
+  }
+
+  /**
+   * Number of redactions made so far, per rule name
+   */
+  getCounts(): Map<string, number> {
+    return new Map(this.counts);
+  }
+
+  redactText(text: string, inToolResult: boolean = false): string {
+    let result = text;
+    for (const rule of this.rules) {
+      if (rule.scope === 'tool_result' && !inToolResult) continue;
+      result = result.replace(rule.regex, (...args) => {
+        this.count(rule.name);
+        // Expand $n references against this match's capture groups; the trailing
+        // arguments are offset, input and, with named groups, the groups object
+        const trailing = typeof args[args.length - 1] === 'object' ? 3 : 2;
+        const groups = args.slice(1, -trailing);
+        return rule.replacement.replace(/\$(\d)/g, (_, n) => String(groups[Number(n) - 1] ?? ''));
+      });
+    }
+    return result;
+  }
+
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (this.headers.has(name.toLowerCase())) {
+        this.count('header');
+        result[name] = REDACTED;
+      } else {
+        result[name] = this.redactText(value);
+      }
+    }
+    return result;
+  }
+
+  redactRequest(request: CapturedRequest): CapturedRequest {
+    const { headers, ...rest } = request;
+    const redacted = this.redactValue(rest, false) as CapturedRequest;
+    if (headers) {
+      redacted.headers = this.redactHeaders(headers);
+    }
+    return redacted;
+  }
+
+  redactResponse(response: CapturedResponse): CapturedResponse {
+    return this.redactValue(response, false) as CapturedResponse;
+  }
+
+  private redactValue(value: unknown, inToolResult: boolean): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value, inToolResult);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, inToolResult));
+    }
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const nested = inToolResult || record.type === 'tool_result';
+      const result: Record<string, unknown> = {};
+      const type = typeof record.type === 'string' ? record.type : '';
+      for (const [key, child] of Object.entries(record)) {
+        if (OPAQUE_FIELDS[type] === key) {
+          result[key] = child;
+        } else if (MEDIA_BLOCKS.has(type) && key === 'source' && child && typeof child === 'object') {
+          result[key] = Object.fromEntries(
+            Object.entries(child).map(([field, v]) => [field, field === 'data' ? v : this.redactValue(v, nested)])
+          );
+        } else {
+          result[key] = this.redactValue(child, nested);
+        }
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private count(rule: string): void {
+    this.counts.set(rule, (this.counts.get(rule) || 0) + 1);
+  }
+}
@@ -0,0 +1,77 @@
+// Rotation and retention settings for capture log files
+
+export interface RotationPolicy {
+  /** Start a new file when the hour or UTC day changes */
+  interval?: 'hourly' | 'daily';
+  /** Start a new file once the current one reaches this many bytes */
+  maxSize?: number;
+}
+
+export interface RetentionPolicy {
+  /** Delete rotated files older than this many milliseconds */
+  maxAge?: number;
+  /** Delete the oldest rotated files while all capture files exceed this many bytes */
+  maxTotalSize?: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parse a duration such as "30m", "12h", "7d" or "2w" into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (expected e.g. 12h, 7d or 2w)`);
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Parse a size such as "500KB", "100MB" or "2GB" into bytes
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new Error(`Invalid size: ${value} (expected e.g. 100MB or 2GB)`);
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2] || '']);
+}
+
+/**
+ * Parse a rotation policy: "daily", "hourly", a size, a comma-separated
+ * combination such as "daily,100MB", or "none"
+ */
+export function parseRotation(value: string): RotationPolicy | undefined {
+  if (value.trim().toLowerCase() === 'none') return undefined;
+
+  const policy: RotationPolicy = {};
+  for (const part of value.split(',').map((p) => p.trim().toLowerCase()).filter(Boolean)) {
+    if (part === 'daily' || part === 'hourly') {
+      policy.interval = part;
+    } else {
+      policy.maxSize = parseSize(part);
+    }
+  }
+  return policy;
+}
+
+/**
+ * The period an ISO timestamp falls in, for interval-based rotation
+ */
+export function rotationPeriod(timestamp: string, interval: 'hourly' | 'daily'): string {
+  return timestamp.slice(0, interval === 'daily' ? 10 : 13);
+}
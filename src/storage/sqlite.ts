@@ -0,0 +1,499 @@
+// SQLite storage for structured queries over large capture sets
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  CapturedRequest,
+  CapturedResponse,
+  ContentBlock,
+  Message,
+  RequestResponsePair,
+} from '../types.js';
+import type { CaptureStore, CaptureTransform } from './store.js';
+import { matchesQuery, type CaptureCursor, type CaptureQuery } from './query.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS requests (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    model TEXT NOT NULL,
+    max_tokens INTEGER NOT NULL,
+    stream INTEGER,
+    system TEXT,
+    tools TEXT,
+    metadata TEXT,
+    extra TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_requests_timestamp ON requests (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_requests_model ON requests (model);
+
+  CREATE TABLE IF NOT EXISTS responses (
+    request_id TEXT PRIMARY KEY REFERENCES requests (id) ON DELETE CASCADE,
+    timestamp TEXT NOT NULL,
+    model TEXT NOT NULL,
+    stop_reason TEXT,
+    duration_ms INTEGER NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    cache_creation_input_tokens INTEGER,
+    cache_read_input_tokens INTEGER,
+    usage TEXT NOT NULL,
+    extra TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    request_id TEXT NOT NULL REFERENCES requests (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    text_content TEXT,
+    PRIMARY KEY (request_id, position)
+  );
+
+  CREATE TABLE IF NOT EXISTS content_blocks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id TEXT NOT NULL REFERENCES requests (id) ON DELETE CASCADE,
+    message_position INTEGER,
+    position INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_content_blocks_owner ON content_blocks (request_id, message_position, position);
+  CREATE INDEX IF NOT EXISTS idx_content_blocks_type ON content_blocks (type);
+
+  CREATE TABLE IF NOT EXISTS tool_calls (
+    id TEXT PRIMARY KEY,
+    request_id TEXT NOT NULL REFERENCES requests (id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    input TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tool_calls_name ON tool_calls (name);
+`;
+
+// Columns added after the initial schema, applied to existing databases on open
+const MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'requests', column: 'extra', definition: 'TEXT' },
+  { table: 'responses', column: 'extra', definition: 'TEXT' },
+];
+
+// Captures hydrated at a time when streaming
+const PAGE_SIZE = 500;
+
+// Fields stored in dedicated columns; anything else is kept in the extra JSON column
+const REQUEST_COLUMNS = new Set(['id', 'timestamp', 'model', 'max_tokens', 'stream', 'system', 'tools', 'metadata', 'messages']);
+const RESPONSE_COLUMNS = new Set(['request_id', 'timestamp', 'model', 'stop_reason', 'duration_ms', 'usage', 'content']);
+
+interface RequestRow {
+  id: string;
+  timestamp: string;
+  model: string;
+  max_tokens: number;
+  stream: number | null;
+  system: string | null;
+  tools: string | null;
+  metadata: string | null;
+  extra: string | null;
+}
+
+interface ResponseRow {
+  request_id: string;
+  timestamp: string;
+  model: string;
+  stop_reason: string | null;
+  duration_ms: number;
+  usage: string;
+  extra: string | null;
+}
+
+interface MessageRow {
+  request_id: string;
+  position: number;
+  role: 'user' | 'assistant';
+  text_content: string | null;
+}
+
+interface BlockRow {
+  request_id: string;
+  message_position: number | null;
+  data: string;
+}
+
+/**
+ * Stores captures normalized into requests, responses, messages,
+ * content blocks and tool calls. Content blocks keep their full JSON
+ * so captures round-trip exactly; typed columns are for querying.
+ * Blocks with a null message_position belong to the response.
+ */
+export class SQLiteStorage implements CaptureStore {
+  private filePath: string;
+  private db: Database.Database;
+
+  constructor(dataDir: string) {
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    this.filePath = path.join(dataDir, 'claude-reverse.db');
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  private migrate(): void {
+    for (const { table, column, definition } of MIGRATIONS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some((c) => c.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  logRequest(request: CapturedRequest): void {
+    const insertRequest = this.db.prepare(`
+      INSERT INTO requests (id, timestamp, model, max_tokens, stream, system, tools, metadata, extra)
+      VALUES (@id, @timestamp, @model, @max_tokens, @stream, @system, @tools, @metadata, @extra)
+    `);
+    const insertMessage = this.db.prepare(`
+      INSERT INTO messages (request_id, position, role, text_content) VALUES (?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      insertRequest.run({
+        id: request.id,
+        timestamp: request.timestamp,
+        model: request.model,
+        max_tokens: request.max_tokens,
+        stream: request.stream === undefined ? null : Number(request.stream),
+        system: toJson(request.system),
+        tools: toJson(request.tools),
+        metadata: toJson(request.metadata),
+        extra: extraJson(request, REQUEST_COLUMNS),
+      });
+
+      request.messages.forEach((message, position) => {
+        const isText = typeof message.content === 'string';
+        insertMessage.run(request.id, position, message.role, isText ? message.content : null);
+        if (!isText) {
+          this.insertBlocks(request.id, position, message.content as ContentBlock[]);
+        }
+      });
+    })();
+  }
+
+  logResponse(response: CapturedResponse): void {
+    const requestExists = this.db.prepare('SELECT 1 FROM requests WHERE id = ?');
+    const insertResponse = this.db.prepare(`
+      INSERT OR REPLACE INTO responses (
+        request_id, timestamp, model, stop_reason, duration_ms,
+        input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens, usage, extra
+      ) VALUES (
+        @request_id, @timestamp, @model, @stop_reason, @duration_ms,
+        @input_tokens, @output_tokens, @cache_creation_input_tokens, @cache_read_input_tokens, @usage, @extra
+      )
+    `);
+    const insertToolCall = this.db.prepare(`
+      INSERT OR REPLACE INTO tool_calls (id, request_id, name, input) VALUES (?, ?, ?, ?)
+    `);
+    const deleteBlocks = this.db.prepare('DELETE FROM content_blocks WHERE request_id = ? AND message_position IS NULL');
+    const deleteToolCalls = this.db.prepare('DELETE FROM tool_calls WHERE request_id = ?');
+
+    this.db.transaction(() => {
+      // The request may have been cleared or pruned while it was in flight
+      if (!requestExists.get(response.request_id)) return;
+
+      // Logging a response again replaces it, blocks and tool calls included
+      deleteBlocks.run(response.request_id);
+      deleteToolCalls.run(response.request_id);
+      insertResponse.run({
+        request_id: response.request_id,
+        timestamp: response.timestamp,
+        model: response.model,
+        stop_reason: response.stop_reason,
+        duration_ms: response.duration_ms,
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens,
+        cache_creation_input_tokens: response.usage.cache_creation_input_tokens ?? null,
+        cache_read_input_tokens: response.usage.cache_read_input_tokens ?? null,
+        usage: JSON.stringify(response.usage),
+        extra: extraJson(response, RESPONSE_COLUMNS),
+      });
+
+      this.insertBlocks(response.request_id, null, response.content);
+
+      for (const block of response.content) {
+        if (block.type === 'tool_use') {
+          insertToolCall.run(block.id, response.request_id, block.name, JSON.stringify(block.input));
+        }
+      }
+    })();
+  }
+
+  private insertBlocks(requestId: string, messagePosition: number | null, blocks: ContentBlock[]): void {
+    const insertBlock = this.db.prepare(`
+      INSERT INTO content_blocks (request_id, message_position, position, type, data) VALUES (?, ?, ?, ?, ?)
+    `);
+    blocks.forEach((block, position) => {
+      insertBlock.run(requestId, messagePosition, position, block.type, JSON.stringify(block));
+    });
+  }
+
+  async query(query: CaptureQuery): Promise<RequestResponsePair[]> {
+    const { agentType, text, limit, offset = 0, ...filters } = query;
+    if (!agentType && !text) return this.select(query);
+
+    // Agent type and text need the hydrated capture, so those filters and the
+    // pagination after them run in memory, a page of captures at a time
+    const results: RequestResponsePair[] = [];
+    if (limit === 0) return results;
+    let skipped = 0;
+    for (const pair of this.pages(filters)) {
+      if (!matchesQuery(pair, { agentType, text })) continue;
+      if (skipped < offset) {
+        skipped++;
+        continue;
+      }
+      results.push(pair);
+      if (results.length === limit) break;
+    }
+    return results;
+  }
+
+  /**
+   * Select captures matching the SQL filters of a query; agent type and text
+   * filters are ignored
+   */
+  private select(query: CaptureQuery): RequestResponsePair[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (query.since) {
+      conditions.push('timestamp >= @since');
+      params.since = query.since;
+    }
+    if (query.until) {
+      conditions.push('timestamp < @until');
+      params.until = query.until;
+    }
+    if (query.model) {
+      conditions.push('model = @model');
+      params.model = query.model;
+    }
+    if (query.requestIds) {
+      conditions.push('id IN (SELECT value FROM json_each(@requestIds))');
+      params.requestIds = JSON.stringify(query.requestIds);
+    }
+    if (query.stopReason) {
+      conditions.push('id IN (SELECT request_id FROM responses WHERE stop_reason = @stopReason)');
+      params.stopReason = query.stopReason;
+    }
+    if (query.tool) {
+      conditions.push(`id IN (
+        SELECT request_id FROM content_blocks
+        WHERE message_position IS NULL AND type IN ('tool_use', 'server_tool_use')
+          AND json_extract(data, '$.name') = @tool
+      )`);
+      params.tool = query.tool;
+    }
+    if (query.after) {
+      conditions.push('(timestamp > @afterTimestamp OR (timestamp = @afterTimestamp AND id > @afterId))');
+      params.afterTimestamp = query.after.timestamp;
+      params.afterId = query.after.id;
+    }
+
+    let sql = 'SELECT * FROM requests';
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ' ORDER BY timestamp, id';
+    if (query.limit !== undefined || query.offset !== undefined) {
+      sql += ' LIMIT @limit OFFSET @offset';
+      params.limit = query.limit ?? -1;
+      params.offset = query.offset ?? 0;
+    }
+
+    const rows = this.db.prepare(sql).all(params) as RequestRow[];
+    return this.hydratePairs(rows);
+  }
+
+  // Page through by cursor so only one page is hydrated at a time
+  private *pages(query: CaptureQuery): Generator<RequestResponsePair> {
+    let after: CaptureCursor | undefined = query.after;
+    for (;;) {
+      const page = this.select({ ...query, after, limit: PAGE_SIZE, offset: undefined });
+      yield* page;
+      if (page.length < PAGE_SIZE) return;
+      after = page[page.length - 1].request;
+    }
+  }
+
+  async *iteratePairs(): AsyncGenerator<RequestResponsePair> {
+    yield* this.pages({});
+  }
+
+  async *iterateRequests(): AsyncGenerator<CapturedRequest> {
+    for await (const { request } of this.iteratePairs()) {
+      yield request;
+    }
+  }
+
+  async getPair(id: string): Promise<RequestResponsePair | null> {
+    const row = this.db.prepare('SELECT * FROM requests WHERE id = ?').get(id) as RequestRow | undefined;
+    return row ? this.hydratePairs([row])[0] : null;
+  }
+
+  /**
+   * Hydrate a page of requests with their responses, loading the messages,
+   * content blocks and responses of the whole page in one query each
+   */
+  private hydratePairs(rows: RequestRow[]): RequestResponsePair[] {
+    if (rows.length === 0) return [];
+    const ids = JSON.stringify(rows.map((row) => row.id));
+
+    const responseRows = this.db
+      .prepare('SELECT * FROM responses WHERE request_id IN (SELECT value FROM json_each(?))')
+      .all(ids) as ResponseRow[];
+    const messageRows = this.db
+      .prepare(`
+        SELECT request_id, position, role, text_content FROM messages
+        WHERE request_id IN (SELECT value FROM json_each(?))
+        ORDER BY request_id, position
+      `)
+      .all(ids) as MessageRow[];
+    const blocks = this.loadBlocks(rows.map((row) => row.id));
+
+    const responses = new Map(responseRows.map((row) => [row.request_id, row]));
+    const messages = groupBy(messageRows, (row) => row.request_id);
+
+    return rows.map((row) => {
+      const responseRow = responses.get(row.id);
+      const rowBlocks = blocks.get(row.id);
+      return {
+        request: this.hydrateRequest(row, messages.get(row.id) || [], rowBlocks),
+        response: responseRow ? this.hydrateResponse(responseRow, rowBlocks) : null,
+      };
+    });
+  }
+
+  /**
+   * Content blocks of the given requests, grouped by request in message
+   * and block order
+   */
+  private loadBlocks(requestIds: string[]): Map<string, BlockRow[]> {
+    if (requestIds.length === 0) return new Map();
+    const rows = this.db
+      .prepare(`
+        SELECT request_id, message_position, data FROM content_blocks
+        WHERE request_id IN (SELECT value FROM json_each(?))
+        ORDER BY request_id, message_position, position
+      `)
+      .all(JSON.stringify(requestIds)) as BlockRow[];
+    return groupBy(rows, (row) => row.request_id);
+  }
+
+  private hydrateRequest(row: RequestRow, messageRows: MessageRow[], blockRows: BlockRow[] = []): CapturedRequest {
+    const blocksByMessage = new Map<number, ContentBlock[]>();
+    for (const block of blockRows) {
+      if (block.message_position === null) continue;
+      const list = blocksByMessage.get(block.message_position) || [];
+      list.push(JSON.parse(block.data) as ContentBlock);
+      blocksByMessage.set(block.message_position, list);
+    }
+
+    const messages: Message[] = messageRows.map((message) => ({
+      role: message.role,
+      content: message.text_content !== null
+        ? message.text_content
+        : blocksByMessage.get(message.position) || [],
+    }));
+
+    const request: CapturedRequest = {
+      ...(row.extra !== null ? JSON.parse(row.extra) : {}),
+      id: row.id,
+      timestamp: row.timestamp,
+      model: row.model,
+      max_tokens: row.max_tokens,
+      messages,
+    };
+    if (row.system !== null) request.system = JSON.parse(row.system);
+    if (row.tools !== null) request.tools = JSON.parse(row.tools);
+    if (row.stream !== null) request.stream = row.stream === 1;
+    if (row.metadata !== null) request.metadata = JSON.parse(row.metadata);
+    return request;
+  }
+
+  private hydrateResponse(row: ResponseRow, blockRows: BlockRow[] = []): CapturedResponse {
+    return {
+      ...(row.extra !== null ? JSON.parse(row.extra) : {}),
+      request_id: row.request_id,
+      timestamp: row.timestamp,
+      content: blockRows
+        .filter((block) => block.message_position === null)
+        .map((block) => JSON.parse(block.data) as ContentBlock),
+      stop_reason: row.stop_reason,
+      usage: JSON.parse(row.usage),
+      model: row.model,
+      duration_ms: row.duration_ms,
+    };
+  }
+
+  async rewrite(transform: CaptureTransform): Promise<void> {
+    // Messages, content blocks, tool calls and responses cascade
+    const remove = this.db.prepare('DELETE FROM requests WHERE id = ?');
+    this.db.transaction(() => {
+      for (const { request, response } of this.pages({})) {
+        remove.run(request.id);
+        this.logRequest(transform.request(request));
+        if (response) {
+          this.logResponse(transform.response(response));
+        }
+      }
+    })();
+  }
+
+  async prune(before: string): Promise<number> {
+    // Messages, content blocks, tool calls and responses cascade
+    return this.db.prepare('DELETE FROM requests WHERE timestamp < ?').run(before).changes;
+  }
+
+  clear(): void {
+    this.db.exec(`
+      DELETE FROM tool_calls;
+      DELETE FROM content_blocks;
+      DELETE FROM messages;
+      DELETE FROM responses;
+      DELETE FROM requests;
+    `);
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = groups.get(key(row)) || [];
+    list.push(row);
+    groups.set(key(row), list);
+  }
+  return groups;
+}
+
+function extraJson(record: object, columns: Set<string>): string | null {
+  const extra = Object.fromEntries(
+    Object.entries(record).filter(([key, value]) => !columns.has(key) && value !== undefined)
+  );
+  return Object.keys(extra).length > 0 ? JSON.stringify(extra) : null;
+}
@@ -0,0 +1,51 @@
+// Storage backend interface shared by the proxy and CLI
+
+import type { CapturedRequest, CapturedResponse, RequestResponsePair } from '../types.js';
+import { JSONLStorage, type JSONLStorageOptions } from './jsonl.js';
+import { SQLiteStorage } from './sqlite.js';
+import type { CaptureQuery } from './query.js';
+
+export type StorageKind = 'jsonl' | 'sqlite';
+
+export const STORAGE_KINDS: StorageKind[] = ['jsonl', 'sqlite'];
+
+export interface CaptureTransform {
+  request(request: CapturedRequest): CapturedRequest;
+  response(response: CapturedResponse): CapturedResponse;
+}
+
+export interface CaptureStore {
+  logRequest(request: CapturedRequest): void;
+  logResponse(response: CapturedResponse): void;
+  /** Captures matching a query, in request order */
+  query(query: CaptureQuery): Promise<RequestResponsePair[]>;
+  /** Stream requests in order, without waiting for their responses */
+  iterateRequests(): AsyncIterable<CapturedRequest>;
+  /** Stream captures in request order, for captures too large to load at once */
+  iteratePairs(): AsyncIterable<RequestResponsePair>;
+  /** Look up a single capture by request id */
+  getPair(id: string): Promise<RequestResponsePair | null>;
+  /** Rewrite every stored capture in place, e.g. to scrub secrets */
+  rewrite(transform: CaptureTransform): Promise<void>;
+  /** Delete captures of requests sent before an ISO timestamp, returning how many were removed */
+  prune(before: string): Promise<number>;
+  clear(): void;
+  close(): void;
+}
+
+/** Backend options; rotation, retention and locking apply to the JSONL backend */
+export type StoreOptions = JSONLStorageOptions;
+
+/**
+ * Create a storage backend for the given data directory
+ */
+export function createStore(kind: StorageKind, dataDir: string, options: StoreOptions = {}): CaptureStore {
+  switch (kind) {
+    case 'sqlite':
+      return new SQLiteStorage(dataDir);
+    case 'jsonl':
+      return new JSONLStorage(dataDir, options);
+    default:
+      throw new Error(`Unknown storage backend: ${kind}`);
+  }
+}
@@ -0,0 +1,35 @@
+// Helpers for reading large capture sets through a store's pair iterator
+
+import type { RequestResponsePair } from '../types.js';
+import { SessionBuilder, type Session } from '../parser/sessions.js';
+import type { CaptureStore } from './store.js';
+
+/**
+ * Reduce a capture to its metadata, usage and timing, dropping the prompt
+ * and response content that make up most of its size. Enough for cost,
+ * latency and error summaries over a whole store.
+ */
+export function stripContent({ request, response }: RequestResponsePair): RequestResponsePair {
+  return {
+    request: { ...request, system: undefined, tools: undefined, messages: [] },
+    response: response && { ...response, content: [] },
+  };
+}
+
+/**
+ * Stream a store's captures in request order, or only those whose ids are given
+ */
+export async function* selectPairs(store: CaptureStore, ids?: Set<string>): AsyncGenerator<RequestResponsePair> {
+  for await (const pair of store.iteratePairs()) {
+    if (!ids || ids.has(pair.request.id)) yield pair;
+  }
+}
+
+/**
+ * Thread every capture in a store into sessions in a single pass
+ */
+export async function collectSessions(store: CaptureStore): Promise<Session[]> {
+  const builder = new SessionBuilder();
+  for await (const pair of store.iteratePairs()) builder.add(pair);
+  return builder.sessions();
+}
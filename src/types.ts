@@ -3,12 +3,24 @@
 export interface SystemPrompt {
   type: 'text';
   text: string;
-  cache_control?: { type: 'ephemeral' };
+  cache_control?: { type: 'ephemeral'; ttl?: '5m' | '1h' };
+}
+
+export interface Citation {
+  type: string;
+  cited_text?: string;
+  url?: string;
+  title?: string;
+  encrypted_index?: string;
+  document_index?: number;
+  document_title?: string | null;
+  [key: string]: unknown;
 }
 
 export interface TextContent {
   type: 'text';
   text: string;
+  citations?: Citation[];
 }
 
 export interface ToolUseContent {
@@ -18,6 +30,45 @@ export interface ToolUseContent {
   input: Record<string, unknown>;
 }
 
+export interface ServerToolUseContent {
+  type: 'server_tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface WebSearchResult {
+  type: 'web_search_result';
+  url: string;
+  title: string;
+  encrypted_content: string;
+  page_age?: string | null;
+}
+
+export interface ServerToolError {
+  type: 'web_search_tool_result_error' | 'web_fetch_tool_result_error';
+  error_code: string;
+}
+
+export interface WebSearchToolResultContent {
+  type: 'web_search_tool_result';
+  tool_use_id: string;
+  content: WebSearchResult[] | ServerToolError;
+}
+
+export interface WebFetchToolResultContent {
+  type: 'web_fetch_tool_result';
+  tool_use_id: string;
+  content:
+    | {
+        type: 'web_fetch_result';
+        url: string;
+        retrieved_at?: string;
+        content: Record<string, unknown>;
+      }
+    | ServerToolError;
+}
+
 export interface ToolResultContent {
   type: 'tool_result';
   tool_use_id: string;
@@ -34,7 +85,27 @@ export interface ImageContent {
   };
 }
 
-export type ContentBlock = TextContent | ToolUseContent | ToolResultContent | ImageContent;
+export interface ThinkingContent {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+export interface RedactedThinkingContent {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+export type ContentBlock =
+  | TextContent
+  | ToolUseContent
+  | ToolResultContent
+  | ImageContent
+  | ThinkingContent
+  | RedactedThinkingContent
+  | ServerToolUseContent
+  | WebSearchToolResultContent
+  | WebFetchToolResultContent;
 
 export interface Message {
   role: 'user' | 'assistant';
@@ -61,6 +132,16 @@ export interface CapturedRequest {
   tools?: ToolDefinition[];
   stream?: boolean;
   metadata?: Record<string, unknown>;
+  /** Incoming request headers, with credentials masked */
+  headers?: Record<string, string>;
+  /** Agent that sent the request, classified when it was captured (see parser/agents) */
+  agent_type?: string;
+  /** Id shared by every request captured during one `claude-reverse run` */
+  session_id?: string;
+  /** Working directory of the command launched by `claude-reverse run` */
+  cwd?: string;
+  /** Hash of the request as received, before redaction, that replay mode matches on */
+  replay_key?: string;
 }
 
 export interface TokenUsage {
@@ -68,6 +149,10 @@ export interface TokenUsage {
   output_tokens: number;
   cache_creation_input_tokens?: number;
   cache_read_input_tokens?: number;
+  cache_creation?: {
+    ephemeral_5m_input_tokens?: number;
+    ephemeral_1h_input_tokens?: number;
+  };
 }
 
 export interface CapturedResponse {
@@ -78,6 +163,51 @@ export interface CapturedResponse {
   usage: TokenUsage;
   model: string;
   duration_ms: number;
+  timing?: ResponseTiming;
+  /** Upstream HTTP status code */
+  status?: number;
+  /** Selected upstream response headers: anthropic-ratelimit-*, retry-after and request-id */
+  headers?: Record<string, string>;
+  /** Error returned by the API, sent as a streamed error event, or raised by the proxy */
+  error?: ApiError;
+}
+
+export interface ApiError {
+  /** API error type (e.g. rate_limit_error, overloaded_error), or proxy_error / http_error */
+  type: string;
+  message: string;
+}
+
+export interface GapStats {
+  count: number;
+  mean_ms: number;
+  p50_ms: number;
+  p95_ms: number;
+  max_ms: number;
+}
+
+/**
+ * Latency milestones, in milliseconds since the proxy received the request.
+ * Only ttfb_ms is recorded for non-streaming responses.
+ */
+export interface ResponseTiming {
+  /** Upstream response headers received */
+  ttfb_ms: number;
+  /** message_start event received */
+  message_start_ms?: number;
+  /** First content_block_delta of any kind */
+  first_content_ms?: number;
+  /** First text or tool input delta, i.e. the end of any leading thinking */
+  first_output_ms?: number;
+  /** Last content_block_delta */
+  last_content_ms?: number;
+  /** Gaps between consecutive content_block_delta events */
+  inter_chunk?: GapStats;
+}
+
+export interface RequestResponsePair {
+  request: CapturedRequest;
+  response: CapturedResponse | null;
 }
 
 export interface ToolCall {
@@ -122,6 +252,9 @@ export interface ContentBlockDeltaEvent {
     type: string;
     text?: string;
     partial_json?: string;
+    thinking?: string;
+    signature?: string;
+    citation?: Citation;
   };
 }
 
@@ -141,6 +274,11 @@ export interface MessageDeltaEvent {
   };
 }
 
+export interface ErrorEvent {
+  type: 'error';
+  error: ApiError;
+}
+
 export interface MessageStopEvent {
   type: 'message_stop';
 }
@@ -151,4 +289,5 @@ export type StreamEvent =
   | ContentBlockDeltaEvent
   | ContentBlockStopEvent
   | MessageDeltaEvent
-  | MessageStopEvent;
+  | MessageStopEvent
+  | ErrorEvent;
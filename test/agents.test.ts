@@ -0,0 +1,90 @@
+// Tests for rule-based agent classification
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import {
+  AGENT_CONFIG_FILE,
+  AgentClassifier,
+  classifyAgent,
+  getAgentType,
+  loadAgentConfig,
+} from '../src/parser/agents.js';
+import type { CapturedRequest, ToolDefinition } from '../src/types.js';
+import { makeRequest, makeTempDir } from './helpers.js';
+
+function tool(name: string): ToolDefinition {
+  return { name, description: name, input_schema: { type: 'object', properties: {} } };
+}
+
+function withPrompt(system: string, tools: string[] = [], model = 'claude-sonnet-4-5'): CapturedRequest {
+  return {
+    ...makeRequest('r1', '2026-01-01T00:00:00.000Z'),
+    model,
+    system: system ? [{ type: 'text', text: system }] : undefined,
+    tools: tools.map(tool),
+  };
+}
+
+const MAIN_PROMPT = `You are Claude Code, Anthropic's official CLI for Claude. ${'x'.repeat(20000)}`;
+
+describe('built-in agent rules', () => {
+  it('labels the main agent, subagents and utility calls', () => {
+    assert.equal(classifyAgent(withPrompt(MAIN_PROMPT)), 'Main');
+    assert.equal(classifyAgent(withPrompt('You are an exploration agent')), 'Explore');
+    assert.equal(classifyAgent(withPrompt('Analyze if this message indicates a new conversation topic')), 'Title');
+    assert.equal(classifyAgent(withPrompt('You help with a task')), 'Sub-agent');
+    assert.equal(classifyAgent(withPrompt("You are Claude Code, Anthropic's official CLI for Claude.")), 'Short');
+    assert.equal(classifyAgent(withPrompt('')), 'Unknown');
+  });
+
+  it('prefers the agent type stamped at capture time', () => {
+    assert.equal(getAgentType({ ...withPrompt(MAIN_PROMPT), agent_type: 'Reviewer' }), 'Reviewer');
+    assert.equal(getAgentType(withPrompt(MAIN_PROMPT)), 'Main');
+  });
+});
+
+describe('AgentClassifier', () => {
+  it('tries custom rules before the built-in ones', () => {
+    const classifier = new AgentClassifier({
+      rules: [
+        { label: 'Reviewer', systemPattern: 'review(er)? agent', model: '^claude-opus' },
+        { label: 'Searcher', toolSet: ['Grep', 'Glob'] },
+        { label: 'Editor', tools: ['Edit'], systemExcludes: ['read-only'] },
+      ],
+    });
+
+    assert.equal(classifier.classify(withPrompt('You are a reviewer agent', [], 'claude-opus-4-1')), 'Reviewer');
+    // The model must match too, so the built-in rules apply
+    assert.equal(classifier.classify(withPrompt('You are a reviewer agent')), 'Sub-agent');
+    assert.equal(classifier.classify(withPrompt('Find things', ['Glob', 'Grep'])), 'Searcher');
+    // The exact set, not a superset
+    assert.equal(classifier.classify(withPrompt('Find things', ['Glob', 'Grep', 'Edit'])), 'Editor');
+    assert.equal(classifier.classify(withPrompt('You are read-only', ['Edit'])), 'Sub-agent');
+  });
+
+  it('leaves unmatched requests unknown without the defaults', () => {
+    const classifier = new AgentClassifier({ defaults: false, rules: [{ label: 'Long', longerThan: 10 }] });
+    assert.equal(classifier.classify(withPrompt(MAIN_PROMPT)), 'Long');
+    assert.equal(classifier.classify(withPrompt('short')), 'Unknown');
+  });
+
+  it('rejects rules without a label or with an invalid pattern', () => {
+    assert.throws(() => new AgentClassifier({ rules: [{ label: '' }] }), /missing a label/);
+    assert.throws(() => new AgentClassifier({ rules: [{ label: 'Bad', model: '(' }] }), /Invalid pattern in agent rule "Bad"/);
+  });
+});
+
+describe('loadAgentConfig', () => {
+  it('reads agents.json from the data directory when present', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    assert.deepEqual(loadAgentConfig({ dataDir: dir }), {});
+
+    const config = { defaults: false, rules: [{ label: 'Custom' }] };
+    fs.writeFileSync(path.join(dir, AGENT_CONFIG_FILE), JSON.stringify(config));
+    assert.deepEqual(loadAgentConfig({ dataDir: dir }), config);
+    assert.throws(() => loadAgentConfig({ file: path.join(dir, 'missing.json'), dataDir: dir }), /ENOENT/);
+  });
+});
@@ -0,0 +1,138 @@
+// Tests for the content-addressed blob store and request dehydration
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  BlobStore,
+  collectBlobRefs,
+  dehydrateRequest,
+  isBlobRef,
+  rehydrateRequest,
+  type StoredRequest,
+} from '../src/storage/blobs.js';
+import type { CapturedRequest, ContentBlock, Message } from '../src/types.js';
+import { makeRequest, makeTempDir } from './helpers.js';
+
+function blobFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).flatMap((shard) => fs.readdirSync(path.join(dir, shard)));
+}
+
+/** A conversation of a number of turns, with the cache marker on the last message */
+function history(length: number): Message[] {
+  return Array.from({ length }, (_, i): Message => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: i === length - 1
+      ? [{ type: 'text', text: `turn ${i}`, cache_control: { type: 'ephemeral' } } as ContentBlock]
+      : [{ type: 'text', text: `turn ${i}` }],
+  }));
+}
+
+function conversationRequest(id: string, length: number): CapturedRequest {
+  return {
+    ...makeRequest(id, '2026-01-01T00:00:00.000Z', history(length)),
+    system: [{ type: 'text', text: 'You are Claude Code' }],
+    tools: [{ name: 'Bash', description: 'Run a command', input_schema: { type: 'object', properties: {} } }],
+  };
+}
+
+describe('BlobStore', () => {
+  it('writes each distinct value once', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const blobs = new BlobStore(dir);
+
+    const hash = blobs.put({ prompt: 'same' });
+    assert.equal(blobs.put({ prompt: 'same' }), hash);
+    assert.equal(hash, crypto.createHash('sha256').update(JSON.stringify({ prompt: 'same' })).digest('hex'));
+    assert.deepEqual(blobFiles(dir), [`${hash}.json`]);
+    // A second store over the same directory finds what is already there
+    assert.equal(new BlobStore(dir).put({ prompt: 'same' }), hash);
+    assert.deepEqual(new BlobStore(dir).get(hash), { prompt: 'same' });
+    assert.throws(() => blobs.get('0'.repeat(64)), /Missing blob/);
+  });
+
+  it('sweeps unreferenced blobs, sparing recently written ones', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const blobs = new BlobStore(dir);
+    const kept = blobs.put('kept');
+    const stale = blobs.put('stale');
+    const fresh = blobs.put('fresh');
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(path.join(dir, stale.slice(0, 2), `${stale}.json`), past, past);
+    fs.utimesSync(path.join(dir, kept.slice(0, 2), `${kept}.json`), past, past);
+
+    assert.equal(blobs.sweep(new Set([kept]), Date.now() - 30_000), 1);
+    assert.deepEqual(blobFiles(dir).sort(), [`${kept}.json`, `${fresh}.json`].sort());
+    // A swept value is written again when stored again
+    assert.equal(blobs.put('stale'), stale);
+    assert.equal(blobFiles(dir).length, 3);
+  });
+});
+
+describe('request dehydration', () => {
+  it('keeps short histories inline and round-trips long ones', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const blobs = new BlobStore(dir);
+
+    const short = dehydrateRequest(conversationRequest('short', 3), blobs);
+    assert.ok(Array.isArray(short.messages));
+    assert.ok(isBlobRef(short.system) && isBlobRef(short.tools));
+
+    const request = conversationRequest('long', 19);
+    const stored = dehydrateRequest(request, blobs);
+    assert.ok(isBlobRef(stored.messages));
+    assert.equal(stored.messages.tail?.length, 3);
+    assert.deepEqual(rehydrateRequest(JSON.parse(JSON.stringify(stored)), blobs), request);
+  });
+
+  it('shares the chunks of a history resent with a moved cache marker', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const blobs = new BlobStore(dir);
+
+    // System prompt, tools and two chunks of eight messages
+    dehydrateRequest(conversationRequest('A', 17), blobs);
+    assert.equal(blobFiles(dir).length, 4);
+    // Two more turns move the marker off message 16 and fill no new chunk
+    dehydrateRequest(conversationRequest('B', 19), blobs);
+    assert.equal(blobFiles(dir).length, 4);
+    // Message 23 completes a third chunk, written as one more blob
+    dehydrateRequest(conversationRequest('C', 24), blobs);
+    assert.equal(blobFiles(dir).length, 5);
+  });
+
+  it('collects every blob a request refers to', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const blobs = new BlobStore(dir);
+    const stored = dehydrateRequest(conversationRequest('A', 17), blobs);
+    blobs.put('orphan');
+
+    const referenced = new Set<string>();
+    collectBlobRefs(stored, blobs, referenced);
+    assert.equal(referenced.size, 4);
+    assert.equal(blobs.sweep(referenced), 1);
+    assert.deepEqual(rehydrateRequest(stored, blobs), conversationRequest('A', 17));
+  });
+
+  it('reads histories logged as one message per blob', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const blobs = new BlobStore(dir);
+    const messages = history(3);
+    let parent: string | null = null;
+    for (const message of messages) parent = blobs.put({ parent, message });
+
+    const stored: StoredRequest = { ...makeRequest('old', '2026-01-01T00:00:00.000Z'), messages: { $blob: parent! } };
+    assert.deepEqual(rehydrateRequest(stored, blobs).messages, messages);
+    const referenced = new Set<string>();
+    collectBlobRefs(stored, blobs, referenced);
+    assert.equal(referenced.size, 3);
+  });
+});
@@ -0,0 +1,131 @@
+// Tests for locating cache breakpoints and explaining cache misses
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CacheCollector } from '../src/parser/cache.js';
+import { DEFAULT_PRICING } from '../src/parser/pricing.js';
+import type { ContentBlock, Message, RequestResponsePair, ToolDefinition } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+const bash: ToolDefinition = { name: 'Bash', description: 'Run a command', input_schema: { type: 'object', properties: {} } };
+const read: ToolDefinition = { name: 'Read', description: 'Read a file', input_schema: { type: 'object', properties: {} } };
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1) + seconds * 1000).toISOString();
+
+function marked(text: string): ContentBlock {
+  return { type: 'text', text, cache_control: { type: 'ephemeral' } } as ContentBlock;
+}
+
+interface CaptureOptions {
+  system?: string;
+  tools?: ToolDefinition[];
+  messages?: Message[];
+  cacheRead?: number;
+  cacheCreation?: number;
+}
+
+/** A request caching its system prompt and first message, answered a second after it was sent */
+function capture(id: string, seconds: number, options: CaptureOptions = {}): RequestResponsePair {
+  const messages = options.messages ?? [{ role: 'user', content: [marked('Fix the build')] }];
+  return {
+    request: {
+      ...makeRequest(id, at(seconds), messages),
+      system: [{ type: 'text', text: options.system ?? `You are Claude Code. ${'x'.repeat(400)}`, cache_control: { type: 'ephemeral', ttl: '1h' } }],
+      tools: options.tools ?? [bash, read],
+      session_id: 'S1',
+      agent_type: 'Main',
+    },
+    response: {
+      ...makeResponse(id),
+      timestamp: at(seconds + 1),
+      usage: {
+        input_tokens: 10,
+        output_tokens: 5,
+        cache_read_input_tokens: options.cacheRead ?? 0,
+        cache_creation_input_tokens: options.cacheCreation ?? 0,
+      },
+    },
+  };
+}
+
+function collect(captures: Array<[RequestResponsePair, string]>) {
+  const collector = new CacheCollector(DEFAULT_PRICING);
+  for (const [pair, conversationId] of captures) collector.add(pair, conversationId);
+  return collector.summary();
+}
+
+describe('CacheCollector', () => {
+  it('locates breakpoints and estimates the prefix each caches', () => {
+    const [info] = collect([[capture('A', 0, { cacheCreation: 1000 }), 'c1']]).perRequest;
+    assert.deepEqual(info.breakpoints.map((b) => [b.location, b.ttl]), [['system[0]', '1h'], ['messages[0].content[0]', '5m']]);
+    assert.ok(info.breakpoints[0].prefixTokens < info.breakpoints[1].prefixTokens);
+    // The last marker closes the prompt, so it caches all of it
+    assert.equal(info.cachedPrefixTokens, 1010);
+    assert.equal(info.hitRate, 0);
+  });
+
+  it('expects a request to read what the previous turn of its conversation cached', () => {
+    const summary = collect([
+      [capture('A', 0, { cacheCreation: 1000 }), 'c1'],
+      [capture('B', 10, { cacheRead: 1000, cacheCreation: 50 }), 'c1'],
+    ]);
+    const info = summary.perRequest[1];
+    assert.equal(info.previousRequestId, 'A');
+    assert.equal(info.miss, undefined);
+    assert.equal(summary.misses, 0);
+    assert.equal(summary.cacheReadTokens, 1000);
+  });
+
+  it('names the first changed block of a prompt that missed', () => {
+    const summary = collect([
+      [capture('A', 0, { cacheCreation: 1000 }), 'c1'],
+      [capture('B', 10, { system: `You are Claude Code! ${'x'.repeat(400)}`, cacheCreation: 1000 }), 'c1'],
+    ]);
+    const miss = summary.perRequest[1].miss!;
+    assert.equal(miss.reason, 'system-changed');
+    assert.equal(miss.divergence?.location, 'system[0]');
+    assert.equal(miss.divergence?.offset, 19);
+    assert.ok(miss.divergence?.before.startsWith('You are Claude Code.'));
+    assert.ok(miss.divergence?.after.startsWith('You are Claude Code!'));
+    assert.equal(miss.lostTokens, 1000);
+    // Written again at the 5m rate of the last breakpoint, instead of read
+    assert.ok(Math.abs(miss.lostCost - (1000 * (3.75 - 0.3)) / 1_000_000) < 1e-12);
+    assert.equal(miss.gapMs, 9000);
+    assert.deepEqual(summary.missesByReason, { 'system-changed': 1 });
+  });
+
+  it('does not call a changed prefix that still read everything a miss', () => {
+    const summary = collect([
+      [capture('A', 0, { cacheCreation: 1000 }), 'c1'],
+      [capture('B', 10, { system: `You are Claude Code! ${'x'.repeat(400)}`, cacheRead: 1000 }), 'c1'],
+    ]);
+    assert.equal(summary.perRequest[1].miss, undefined);
+  });
+
+  it('tells an expired cache from an unexplained shortfall', () => {
+    const summary = collect([
+      [capture('A', 0, { cacheCreation: 1000 }), 'c1'],
+      [capture('B', 10, { cacheRead: 400, cacheCreation: 600 }), 'c1'],
+      [capture('C', 4000, { cacheCreation: 1000 }), 'c1'],
+    ]);
+    assert.deepEqual(summary.perRequest.map((info) => info.miss?.reason), [undefined, 'unexplained', 'expired']);
+    assert.deepEqual(summary.perRequest.map((info) => info.miss?.lostTokens), [undefined, 600, 1000]);
+    assert.equal(summary.lostTokens, 1600);
+  });
+
+  it('compares a new conversation with the same agent on tools and system prompt only', () => {
+    const summary = collect([
+      [capture('A', 0, { cacheCreation: 1000 }), 'c1'],
+      // New messages are expected to be written, not read
+      [capture('B', 10, { messages: [{ role: 'user', content: [marked('Run the tests')] }], cacheRead: 900, cacheCreation: 100 }), 'c2'],
+      [capture('C', 20, { tools: [read, bash], cacheCreation: 1000 }), 'c3'],
+    ]);
+    const [, reused, reordered] = summary.perRequest;
+    assert.equal(reused.previousRequestId, 'A');
+    assert.equal(reused.miss, undefined);
+    assert.equal(reordered.previousRequestId, 'B');
+    assert.equal(reordered.miss?.reason, 'tools-reordered');
+    assert.equal(reordered.miss?.divergence?.location, 'tools[0]');
+    assert.equal(reordered.miss?.lostTokens, reused.breakpoints[0].prefixTokens);
+  });
+});
@@ -0,0 +1,99 @@
+// Tests for context window growth per turn and compaction detection
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ContextCollector,
+  DEFAULT_CONTEXT_LIMIT,
+  EXTENDED_CONTEXT_LIMIT,
+  getContextLimit,
+  getPromptTokens,
+} from '../src/parser/context.js';
+import { SessionBuilder } from '../src/parser/sessions.js';
+import type { Message, RequestResponsePair, TokenUsage } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+const first: Message = { role: 'user', content: `Refactor the parser ${'x'.repeat(2000)}` };
+const reply: Message = { role: 'assistant', content: [{ type: 'text', text: 'Done with the first step' }] };
+const second: Message = { role: 'user', content: `Now the tests ${'y'.repeat(6000)}` };
+
+function turn(
+  id: string,
+  minute: number,
+  messages: Message[],
+  usage: TokenUsage,
+  options: { session?: string; agentType?: string } = {}
+): RequestResponsePair {
+  return {
+    request: {
+      ...makeRequest(id, `2026-01-01T00:${String(minute).padStart(2, '0')}:00.000Z`, messages),
+      system: [{ type: 'text', text: 'You are Claude Code'.padEnd(1000, '.') }],
+      session_id: options.session ?? 'S1',
+      agent_type: options.agentType ?? 'Main',
+    },
+    response: { ...makeResponse(id, [{ type: 'text', text: 'Done with the first step' }]), usage },
+  };
+}
+
+function analyze(pairs: RequestResponsePair[]) {
+  const sessions = new SessionBuilder();
+  const context = new ContextCollector();
+  for (const pair of pairs) {
+    sessions.add(pair);
+    context.add(pair);
+  }
+  return context.analyze(sessions.sessions());
+}
+
+describe('context limits', () => {
+  it('counts cache reads and writes as prompt tokens', () => {
+    assert.equal(getPromptTokens({ input_tokens: 10, output_tokens: 99, cache_read_input_tokens: 100, cache_creation_input_tokens: 5 }), 115);
+  });
+
+  it('uses the 1M window only with the context-1m beta', () => {
+    const request = makeRequest('A', '2026-01-01T00:00:00.000Z');
+    assert.equal(getContextLimit(request), DEFAULT_CONTEXT_LIMIT);
+    assert.equal(getContextLimit({ ...request, headers: { 'anthropic-beta': 'context-1m-2025-08-07' } }), EXTENDED_CONTEXT_LIMIT);
+  });
+});
+
+describe('ContextCollector', () => {
+  it('charts the main agent and splits each prompt by part', () => {
+    const [context] = analyze([
+      turn('A', 1, [first], { input_tokens: 1000, output_tokens: 5, cache_creation_input_tokens: 9000 }),
+      turn('E', 2, [{ role: 'user', content: 'Explore' }], { input_tokens: 500, output_tokens: 5 }, { agentType: 'Explore' }),
+      turn('B', 3, [first, reply, second], { input_tokens: 100, output_tokens: 5, cache_read_input_tokens: 29900 }),
+      // A response without usage is no turn
+      turn('C', 4, [first, reply, second, reply, { role: 'user', content: 'go on' }], { input_tokens: 0, output_tokens: 0 }),
+    ]);
+
+    assert.equal(context.sessionId, 'S1');
+    assert.equal(context.agentType, 'Main');
+    assert.deepEqual(context.turns.map((t) => [t.requestId, t.total, t.messages]), [['A', 10000, 1], ['B', 30000, 3]]);
+    assert.equal(context.peak, 30000);
+    for (const t of context.turns) {
+      assert.equal(t.system + t.tools + t.history, t.total);
+      assert.equal(t.tools, 0);
+    }
+    // The history grew from one message to three, so its share grew too
+    assert.ok(context.turns[1].history / context.turns[1].total > context.turns[0].history / context.turns[0].total);
+    assert.deepEqual(context.compactions, []);
+  });
+
+  it('detects compaction with a summary and a trimmed history', () => {
+    const summary: Message = { role: 'user', content: 'This session is being continued from a previous conversation that ran out of context.' };
+    const other: Message = { role: 'user', content: `Fix the build ${'z'.repeat(2000)}` };
+    const contexts = analyze([
+      turn('A', 1, [first, reply, second], { input_tokens: 150_000, output_tokens: 5 }),
+      turn('B', 2, [summary], { input_tokens: 5000, output_tokens: 5 }),
+      turn('C', 3, [other, reply, second], { input_tokens: 150_000, output_tokens: 5 }, { session: 'S2' }),
+      turn('D', 4, [second], { input_tokens: 20_000, output_tokens: 5 }, { session: 'S2' }),
+    ]);
+
+    assert.deepEqual(contexts.map((c) => c.compactions.map((e) => [e.requestId, e.kind])), [[['B', 'summary']], [['D', 'trim']]]);
+    const [event] = contexts[0].compactions;
+    assert.equal(event.usageBefore, 0.75);
+    assert.equal(event.historyBefore, contexts[0].turns[0].history);
+    assert.equal(event.historyAfter, contexts[0].turns[1].history);
+  });
+});
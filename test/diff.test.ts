@@ -0,0 +1,95 @@
+// Tests for the Myers line diff and hunk building
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, diffText, type DiffLine } from '../src/parser/diff.js';
+
+/** Apply an edit script to the old lines, which must yield the new ones */
+function apply(a: string[], script: DiffLine[]): string[] {
+  const result: string[] = [];
+  let index = 0;
+  for (const line of script) {
+    if (line.type === 'insert') {
+      result.push(line.text);
+      continue;
+    }
+    assert.equal(a[index], line.text);
+    index++;
+    if (line.type === 'equal') result.push(line.text);
+  }
+  assert.equal(index, a.length);
+  return result;
+}
+
+function edits(script: DiffLine[]): number {
+  return script.filter((line) => line.type !== 'equal').length;
+}
+
+describe('diffLines', () => {
+  it('returns only equal lines for identical input', () => {
+    const lines = ['a', 'b', 'c'];
+    assert.deepEqual(diffLines(lines, lines), lines.map((text) => ({ type: 'equal', text })));
+  });
+
+  it('handles empty sides', () => {
+    assert.deepEqual(diffLines([], []), []);
+    assert.deepEqual(diffLines([], ['a']), [{ type: 'insert', text: 'a' }]);
+    assert.deepEqual(diffLines(['a'], []), [{ type: 'delete', text: 'a' }]);
+  });
+
+  it('finds the shortest edit script', () => {
+    // The classic example from Myers' paper has an edit distance of 5
+    const a = 'ABCABBA'.split('');
+    const b = 'CBABAC'.split('');
+    const script = diffLines(a, b);
+    assert.deepEqual(apply(a, script), b);
+    assert.equal(edits(script), 5);
+  });
+
+  it('keeps a single changed line as one delete and one insert', () => {
+    const script = diffLines(['one', 'two', 'three'], ['one', 'TWO', 'three']);
+    assert.deepEqual(script.filter((line) => line.type !== 'equal'), [
+      { type: 'delete', text: 'two' },
+      { type: 'insert', text: 'TWO' },
+    ]);
+  });
+
+  it('round-trips larger edits', () => {
+    const a = Array.from({ length: 200 }, (_, i) => `line ${i}`);
+    const b = a.filter((_, i) => i % 7 !== 0).map((text, i) => (i % 11 === 0 ? `${text} changed` : text));
+    b.splice(50, 0, 'inserted');
+    assert.deepEqual(apply(a, diffLines(a, b)), b);
+  });
+});
+
+describe('diffText', () => {
+  it('returns no hunks for equal text', () => {
+    assert.deepEqual(diffText('a\nb', 'a\nb'), []);
+  });
+
+  it('numbers hunks from 1 and trims context', () => {
+    const a = Array.from({ length: 20 }, (_, i) => `${i + 1}`).join('\n');
+    const b = a.replace('\n10\n', '\nten\n');
+    const [hunk, ...rest] = diffText(a, b, 2);
+    assert.equal(rest.length, 0);
+    assert.equal(hunk.fromStart, 8);
+    assert.equal(hunk.fromCount, 5);
+    assert.equal(hunk.toStart, 8);
+    assert.equal(hunk.toCount, 5);
+    assert.deepEqual(hunk.lines.map((line) => line.text), ['8', '9', '10', 'ten', '11', '12']);
+  });
+
+  it('splits changes further apart than twice the context', () => {
+    const a = Array.from({ length: 30 }, (_, i) => `${i + 1}`).join('\n');
+    const b = a.replace('\n3\n', '\nthree\n').replace('\n25\n', '\ntwenty-five\n');
+    assert.equal(diffText(a, b, 3).length, 2);
+  });
+
+  it('starts a hunk at 0 when inserting into empty text', () => {
+    const [hunk] = diffText('', 'a\nb');
+    assert.equal(hunk.fromStart, 0);
+    assert.equal(hunk.fromCount, 0);
+    assert.equal(hunk.toStart, 1);
+    assert.equal(hunk.toCount, 2);
+  });
+});
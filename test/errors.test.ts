@@ -0,0 +1,129 @@
+// Tests for capturing upstream errors and summarizing them
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ProxyServer } from '../src/proxy/server.js';
+import { summarizeErrors } from '../src/parser/errors.js';
+import type { CaptureStore } from '../src/storage/store.js';
+import type { RequestResponsePair } from '../src/types.js';
+import { makeRequest, makeResponse, makeTempDir } from './helpers.js';
+
+function listen(server: http.Server): Promise<number> {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+async function freePort(): Promise<number> {
+  const server = http.createServer();
+  const port = await listen(server);
+  await close(server);
+  return port;
+}
+
+/** Wait until every captured request has its response recorded */
+async function waitForResponses(storage: CaptureStore, count: number): Promise<RequestResponsePair[]> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const pairs = await storage.query({});
+    if (pairs.length === count && pairs.every((pair) => pair.response)) return pairs;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`${count} responses were not recorded`);
+}
+
+/**
+ * Send one message through a proxy to an upstream answering with the given
+ * handler, returning the stored capture
+ */
+async function capture(t: { after: (fn: () => Promise<void> | void) => void }, handler: http.RequestListener, stream = false) {
+  const upstream = http.createServer(handler);
+  const upstreamPort = await listen(upstream);
+  const { dir, cleanup } = makeTempDir();
+  const port = await freePort();
+  const proxy = new ProxyServer({ port, dataDir: dir, verbose: false, storage: 'sqlite', upstream: `http://127.0.0.1:${upstreamPort}` });
+  t.after(async () => {
+    await proxy.stop();
+    await close(upstream);
+    cleanup();
+  });
+  await proxy.start();
+
+  const response = await fetch(`http://127.0.0.1:${port}/v1/messages`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-api-key': 'sk-ant-test' },
+    body: JSON.stringify({ model: 'claude-sonnet-4-5', max_tokens: 1, stream, messages: [{ role: 'user', content: 'hello' }] }),
+  });
+  await response.text();
+  const [pair] = await waitForResponses(proxy.getStorage(), 1);
+  return { status: response.status, pair };
+}
+
+describe('error capture', () => {
+  it('records the status, error body and rate limit headers of a failed request', async (t) => {
+    const { status, pair } = await capture(t, (_req, res) => {
+      res.writeHead(429, {
+        'content-type': 'application/json',
+        'retry-after': '30',
+        'request-id': 'req_1',
+        'anthropic-ratelimit-tokens-remaining': '0',
+      });
+      res.end(JSON.stringify({ type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } }));
+    });
+
+    assert.equal(status, 429);
+    const response = pair.response!;
+    assert.equal(response.status, 429);
+    assert.deepEqual(response.error, { type: 'rate_limit_error', message: 'Slow down' });
+    assert.equal(response.headers?.['retry-after'], '30');
+    assert.equal(response.headers?.['anthropic-ratelimit-tokens-remaining'], '0');
+    assert.equal(pair.request.headers?.['x-api-key'], '[REDACTED]');
+  });
+
+  it('records an error event streamed after a 200', async (t) => {
+    const { pair } = await capture(t, (_req, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const events = [
+        { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 1, output_tokens: 0 } } },
+        { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+      ];
+      res.end(events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+    }, true);
+
+    assert.equal(pair.response?.status, 200);
+    assert.deepEqual(pair.response?.error, { type: 'overloaded_error', message: 'Overloaded' });
+  });
+});
+
+describe('summarizeErrors', () => {
+  it('groups failures by status and type and keeps the latest rate limits', () => {
+    const pairs: RequestResponsePair[] = [
+      {
+        request: makeRequest('ok', '2026-01-01T00:00:00.000Z'),
+        response: { ...makeResponse('ok'), status: 200, headers: { 'anthropic-ratelimit-requests-remaining': '49' } },
+      },
+      {
+        request: makeRequest('limited', '2026-01-01T00:01:00.000Z'),
+        response: { ...makeResponse('limited'), status: 429, error: { type: 'rate_limit_error', message: 'Slow down' }, headers: { 'retry-after': '30' } },
+      },
+      {
+        request: makeRequest('overloaded', '2026-01-02T00:00:00.000Z'),
+        response: { ...makeResponse('overloaded'), status: 200, error: { type: 'overloaded_error', message: 'Overloaded' } },
+      },
+      { request: makeRequest('pending', '2026-01-02T00:01:00.000Z'), response: null },
+    ];
+
+    const summary = summarizeErrors(pairs);
+    assert.equal(summary.responses, 3);
+    assert.equal(summary.errors, 2);
+    assert.equal(summary.pending, 1);
+    assert.deepEqual(summary.byStatus, [{ status: '429', count: 1 }, { status: 'stream', count: 1 }]);
+    assert.equal(summary.rateLimited, 1);
+    assert.equal(summary.overloaded, 1);
+    assert.deepEqual(summary.latestRateLimits?.limits, { 'requests-remaining': '49' });
+    assert.deepEqual(summary.recent.map((entry) => [entry.requestId, entry.retryAfter]), [['overloaded', undefined], ['limited', '30']]);
+  });
+});
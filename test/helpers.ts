@@ -0,0 +1,36 @@
+// Capture fixtures and temporary directories shared by the tests
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CapturedRequest, CapturedResponse, ContentBlock, Message } from '../src/types.js';
+
+export function makeRequest(id: string, timestamp: string, messages?: Message[]): CapturedRequest {
+  return {
+    id,
+    timestamp,
+    model: 'claude-sonnet-4-5',
+    max_tokens: 1024,
+    messages: messages ?? [{ role: 'user', content: `prompt ${id}` }],
+  };
+}
+
+export function makeResponse(requestId: string, content: ContentBlock[] = []): CapturedResponse {
+  return {
+    request_id: requestId,
+    timestamp: '',
+    model: 'claude-sonnet-4-5',
+    content,
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 10, output_tokens: 5 },
+    duration_ms: 1,
+  };
+}
+
+/**
+ * Create a temporary directory, removed again by the returned cleanup function
+ */
+export function makeTempDir(): { dir: string; cleanup: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-code-reverse-test-'));
+  return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,81 @@
+// Tests for streaming latency milestones and their analysis
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamTimer } from '../src/proxy/streaming.js';
+import { getLatencyPhases, percentile, summarizeGaps, summarizeLatency } from '../src/parser/latency.js';
+import type { CapturedResponse, StreamEvent } from '../src/types.js';
+import { makeResponse } from './helpers.js';
+
+function delta(type: 'thinking_delta' | 'text_delta'): StreamEvent {
+  return type === 'thinking_delta'
+    ? { type: 'content_block_delta', index: 0, delta: { type, thinking: 'hm' } }
+    : { type: 'content_block_delta', index: 1, delta: { type, text: 'hi' } };
+}
+
+describe('StreamTimer', () => {
+  it('records milestones relative to when the request was received', (t) => {
+    let now = 1000;
+    t.mock.method(Date, 'now', () => now);
+    const timer = new StreamTimer(1000);
+
+    const at = (time: number, event?: StreamEvent) => {
+      now = time;
+      if (event) timer.recordEvent(event);
+    };
+    at(1100);
+    timer.markResponseHeaders();
+    at(1150, { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 1, output_tokens: 0 } } } as StreamEvent);
+    at(1300, delta('thinking_delta'));
+    at(1400, delta('thinking_delta'));
+    at(1450, delta('text_delta'));
+    at(1850, delta('text_delta'));
+
+    assert.deepEqual(timer.getTiming(), {
+      ttfb_ms: 100,
+      message_start_ms: 150,
+      first_content_ms: 300,
+      first_output_ms: 450,
+      last_content_ms: 850,
+      inter_chunk: { count: 3, mean_ms: 183, p50_ms: 100, p95_ms: 400, max_ms: 400 },
+    });
+  });
+
+  it('falls back to message_start without response headers', (t) => {
+    t.mock.method(Date, 'now', () => 1250);
+    const timer = new StreamTimer(1000);
+    timer.recordEvent({ type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 1, output_tokens: 0 } } } as StreamEvent);
+    assert.deepEqual(timer.getTiming(), { ttfb_ms: 250, message_start_ms: 250 });
+  });
+});
+
+describe('latency analysis', () => {
+  const response: CapturedResponse = {
+    ...makeResponse('r1'),
+    duration_ms: 1000,
+    usage: { input_tokens: 10, output_tokens: 110 },
+    timing: { ttfb_ms: 100, message_start_ms: 150, first_content_ms: 300, first_output_ms: 450, last_content_ms: 850 },
+  };
+
+  it('splits a response duration into phases that add up', () => {
+    const phases = getLatencyPhases(response)!;
+    assert.deepEqual(phases, { queue: 150, firstToken: 150, thinking: 150, generating: 400, tail: 150 });
+    assert.equal(Object.values(phases).reduce((sum, value) => sum + value, 0), response.duration_ms);
+    assert.equal(getLatencyPhases(makeResponse('r2')), null);
+  });
+
+  it('summarizes percentiles across responses', () => {
+    const summary = summarizeLatency([response, makeResponse('r2')]);
+    assert.equal(summary.timed, 1);
+    assert.deepEqual(summary.duration, { count: 2, p50: 1, p90: 1000, p99: 1000, max: 1000 });
+    // 110 output tokens over 550ms of thinking and generating
+    assert.equal(summary.outputTokensPerSecond?.p50, 200);
+  });
+
+  it('uses nearest-rank percentiles', () => {
+    assert.equal(percentile([1, 2, 3, 4], 50), 2);
+    assert.equal(percentile([1, 2, 3, 4], 99), 4);
+    assert.equal(percentile([], 50), 0);
+    assert.equal(summarizeGaps([5]), undefined);
+  });
+});
@@ -0,0 +1,130 @@
+// Tests for the streaming line reader and the persistent offset index
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { OffsetIndex, indexPathFor, readLineAt, readLines, writeCompressed } from '../src/storage/offsets.js';
+import { makeTempDir } from './helpers.js';
+
+function entry(type: 'request' | 'response', id: string): string {
+  const data = type === 'request' ? { id, note: 'héllo' } : { request_id: id };
+  return JSON.stringify({ type, timestamp: '2026-01-01T00:00:00.000Z', data });
+}
+
+async function collect(file: string, start?: number): Promise<string[]> {
+  const lines: string[] = [];
+  for await (const line of readLines(file, start)) lines.push(line.text);
+  return lines;
+}
+
+describe('readLines', () => {
+  it('streams complete lines with byte offsets', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const file = path.join(dir, 'lines.jsonl');
+    fs.writeFileSync(file, 'é\n\nsecond\npartial');
+
+    const lines = [];
+    for await (const line of readLines(file)) lines.push(line);
+    // Empty lines are skipped and the unterminated last line is not returned
+    assert.deepEqual(lines, [
+      { text: 'é', offset: 0, length: 2 },
+      { text: 'second', offset: 4, length: 6 },
+    ]);
+    assert.deepEqual(await collect(file, 4), ['second']);
+  });
+
+  it('reads gzipped files from an offset in the decompressed content', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const file = path.join(dir, 'lines.jsonl.gz');
+    fs.writeFileSync(file, zlib.gzipSync('one\ntwo\nthree\n'));
+
+    assert.deepEqual(await collect(file), ['one', 'two', 'three']);
+    assert.deepEqual(await collect(file, 4), ['two', 'three']);
+    assert.equal(await readLineAt({ file, offset: 8, length: 5 }), 'three');
+  });
+});
+
+describe('OffsetIndex', () => {
+  it('locates requests and responses across files', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const segment = path.join(dir, 'messages-1.jsonl.gz');
+    const current = path.join(dir, 'messages.jsonl');
+    fs.writeFileSync(segment, zlib.gzipSync(`${entry('request', 'A')}\n`));
+    fs.writeFileSync(current, `${entry('response', 'A')}\nnot json\n${entry('request', 'B')}\n`);
+
+    const index = new OffsetIndex();
+    const { request, response } = await index.lookup([segment, current], 'A');
+    assert.equal(request?.file, segment);
+    assert.equal(response?.file, current);
+    assert.equal(await readLineAt(request!), entry('request', 'A'));
+    assert.equal(await readLineAt(response!), entry('response', 'A'));
+    assert.deepEqual(await index.respondedIds([segment, current]), new Set(['A']));
+    assert.deepEqual(await index.entryIds(current), { requests: ['B'], responses: ['A'] });
+  });
+
+  it('indexes appended lines and persists the index next to the file', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const file = path.join(dir, 'messages.jsonl');
+    fs.writeFileSync(file, `${entry('request', 'A')}\n`);
+
+    const index = new OffsetIndex();
+    await index.entryIds(file);
+    fs.appendFileSync(file, `${entry('request', 'B')}\n`);
+    assert.deepEqual((await index.entryIds(file)).requests, ['A', 'B']);
+    assert.equal(fs.readFileSync(indexPathFor(file), 'utf-8').split('\n').filter(Boolean).length, 2);
+
+    // A fresh index loads the persisted offsets instead of rescanning
+    const location = (await new OffsetIndex().lookup([file], 'B')).request!;
+    assert.equal(await readLineAt(location), entry('request', 'B'));
+  });
+
+  it('reindexes a file replaced by a shorter one', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const file = path.join(dir, 'messages.jsonl');
+    fs.writeFileSync(file, `${entry('request', 'A')}\n${entry('request', 'B')}\n`);
+
+    const index = new OffsetIndex();
+    await index.entryIds(file);
+    fs.writeFileSync(file, `${entry('request', 'C')}\n`);
+    assert.deepEqual((await index.entryIds(file)).requests, ['C']);
+  });
+
+  it('reads a compressed line from its own gzip member', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const file = path.join(dir, 'messages-1.jsonl.gz');
+    // Lines of about 2 KiB, so the file spans several members
+    const padding = 'x'.repeat(2048);
+    async function* lines() {
+      for (let i = 0; i < 400; i++) yield JSON.stringify({ type: 'request', data: { id: `r${i}`, padding } });
+    }
+
+    const index = new OffsetIndex();
+    index.replace(file, await writeCompressed(file, lines()));
+    assert.equal((await collect(file)).length, 400);
+
+    // The first member is never decompressed for a line in a later one
+    const location = (await index.lookup([file], 'r399')).request!;
+    assert.ok(location.member && location.member.start > 0);
+    const bytes = fs.readFileSync(file);
+    bytes.fill(0, 0, location.member.start);
+    fs.writeFileSync(file, bytes);
+    assert.equal(JSON.parse(await readLineAt(location)).data.id, 'r399');
+
+    // A fresh index reads the members from the persisted index
+    const reloaded = (await new OffsetIndex().lookup([file], 'r399')).request!;
+    assert.deepEqual(reloaded, location);
+  });
+
+  it('shares the index of a segment with its compressed copy', () => {
+    assert.equal(indexPathFor('/data/messages-1.jsonl.gz'), '/data/messages-1.jsonl.idx');
+    assert.equal(indexPathFor('/data/messages.jsonl'), '/data/messages.jsonl.idx');
+  });
+});
@@ -0,0 +1,97 @@
+// Tests for model id resolution and cost estimation
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import {
+  DEFAULT_PRICING,
+  PRICING_FILE_NAME,
+  estimateCost,
+  findModelPricing,
+  loadPricing,
+  summarizeCosts,
+} from '../src/parser/pricing.js';
+import { makeRequest, makeResponse, makeTempDir } from './helpers.js';
+
+const SONNET = DEFAULT_PRICING.models['claude-sonnet-4-5'];
+const OPUS = DEFAULT_PRICING.models['claude-opus-4-5'];
+
+describe('findModelPricing', () => {
+  it('resolves snapshot, Bedrock and Vertex ids to their family', () => {
+    assert.equal(findModelPricing('claude-sonnet-4-5', DEFAULT_PRICING), SONNET);
+    assert.equal(findModelPricing('claude-sonnet-4-5-20250929', DEFAULT_PRICING), SONNET);
+    assert.equal(findModelPricing('claude-opus-4-5@20251101', DEFAULT_PRICING), OPUS);
+    assert.equal(findModelPricing('claude-3-7-sonnet-latest', DEFAULT_PRICING), DEFAULT_PRICING.models['claude-3-7-sonnet']);
+    assert.equal(findModelPricing('us.anthropic.claude-sonnet-4-5-20250929-v1:0', DEFAULT_PRICING), SONNET);
+  });
+
+  it('keeps related but unlisted families unpriced', () => {
+    assert.equal(findModelPricing('claude-opus-4-6', DEFAULT_PRICING), null);
+    assert.equal(findModelPricing('claude-sonnet-4-5-beta', DEFAULT_PRICING), null);
+  });
+
+  it('prefers an entry keyed by the exact id', () => {
+    const exact = { ...SONNET, input: 1 };
+    const table = { ...DEFAULT_PRICING, models: { ...DEFAULT_PRICING.models, 'claude-sonnet-4-5-20250929': exact } };
+    assert.equal(findModelPricing('claude-sonnet-4-5-20250929', table), exact);
+  });
+});
+
+describe('estimateCost', () => {
+  it('bills cache writes by TTL and reads at the read rate', () => {
+    const cost = estimateCost({
+      input_tokens: 1_000_000,
+      output_tokens: 1_000_000,
+      cache_creation_input_tokens: 3_000_000,
+      cache_read_input_tokens: 1_000_000,
+      cache_creation: { ephemeral_5m_input_tokens: 1_000_000, ephemeral_1h_input_tokens: 2_000_000 },
+    }, 'claude-sonnet-4-5', DEFAULT_PRICING);
+    assert.deepEqual(cost, { input: 3, output: 15, cacheWrite: 3.75 + 12, cacheRead: 0.3, total: 34.05, priced: true });
+  });
+
+  it('bills writes without a TTL breakdown at the 5 minute rate', () => {
+    const cost = estimateCost({ input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 1_000_000 }, 'claude-sonnet-4-5', DEFAULT_PRICING);
+    assert.equal(cost.cacheWrite, SONNET.cacheWrite5m);
+  });
+
+  it('reports unknown models as unpriced', () => {
+    assert.equal(estimateCost({ input_tokens: 10, output_tokens: 10 }, 'gpt-4', DEFAULT_PRICING).priced, false);
+  });
+});
+
+describe('loadPricing', () => {
+  it('merges a pricing.json in the data directory over the defaults', (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const custom = { input: 1, output: 2, cacheWrite5m: 3, cacheWrite1h: 4, cacheRead: 5 };
+    fs.writeFileSync(path.join(dir, PRICING_FILE_NAME), JSON.stringify({ models: { 'claude-custom': custom } }));
+
+    const table = loadPricing({ dataDir: dir });
+    assert.equal(table.version, `${DEFAULT_PRICING.version}+${PRICING_FILE_NAME}`);
+    assert.deepEqual(table.models['claude-custom'], custom);
+    assert.equal(table.models['claude-sonnet-4-5'], SONNET);
+    assert.equal(loadPricing({}), DEFAULT_PRICING);
+  });
+});
+
+describe('summarizeCosts', () => {
+  it('totals per model and day and lists unpriced models', () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 0 };
+    const pairs = [
+      { request: makeRequest('A', '2026-01-01T10:00:00.000Z'), response: { ...makeResponse('A'), usage } },
+      { request: makeRequest('B', '2026-01-02T10:00:00.000Z'), response: { ...makeResponse('B'), usage } },
+      { request: makeRequest('C', '2026-01-02T11:00:00.000Z'), response: { ...makeResponse('C'), model: 'mystery', usage } },
+      { request: makeRequest('D', '2026-01-02T12:00:00.000Z'), response: null },
+    ];
+
+    const summary = summarizeCosts(pairs, DEFAULT_PRICING);
+    assert.equal(summary.total, 6);
+    assert.deepEqual(summary.byModel, [
+      { model: 'claude-sonnet-4-5', requests: 2, cost: 6 },
+      { model: 'mystery', requests: 1, cost: 0 },
+    ]);
+    assert.deepEqual(summary.byDay.map((day) => day.requests), [1, 2]);
+    assert.deepEqual(summary.unpricedModels, ['mystery']);
+  });
+});
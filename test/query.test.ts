@@ -0,0 +1,68 @@
+// Tests for capture queries and cursor pagination
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { JSONLStorage } from '../src/storage/jsonl.js';
+import { decodeCursor, encodeCursor, type CaptureQuery } from '../src/storage/query.js';
+import { makeRequest, makeResponse, makeTempDir } from './helpers.js';
+
+const TIMESTAMP = '2026-01-01T00:00:00.000Z';
+
+/** Follow cursors page by page, as the dashboard does */
+async function pageIds(storage: JSONLStorage, query: CaptureQuery): Promise<string[][]> {
+  const pages: string[][] = [];
+  let after: CaptureQuery['after'];
+  for (;;) {
+    const pairs = await storage.query({ ...query, after });
+    pages.push(pairs.map((pair) => pair.request.id));
+    if (pairs.length < query.limit!) return pages;
+    after = decodeCursor(encodeCursor(pairs[pairs.length - 1].request))!;
+  }
+}
+
+describe('cursors', () => {
+  it('round-trip and reject malformed values', () => {
+    const cursor = { timestamp: TIMESTAMP, id: 'r1' };
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+    assert.equal(decodeCursor('not a cursor'), null);
+  });
+});
+
+describe('JSONLStorage.query', () => {
+  it('pages in log order without skipping captures logged in the same millisecond', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    // Ids out of order, all sharing one timestamp
+    const ids = ['d', 'b', 'e', 'a', 'c'];
+    const lines = ids.flatMap((id) => [
+      { type: 'request', timestamp: TIMESTAMP, data: makeRequest(id, TIMESTAMP) },
+      { type: 'response', timestamp: TIMESTAMP, data: makeResponse(id) },
+    ]);
+    fs.writeFileSync(path.join(dir, 'messages.jsonl'), lines.map((line) => JSON.stringify(line) + '\n').join(''));
+
+    const storage = new JSONLStorage(dir);
+    t.after(() => storage.close());
+    assert.deepEqual(await pageIds(storage, { limit: 2 }), [['d', 'b'], ['e', 'a'], ['c']]);
+
+    const [first] = await storage.query({ limit: 1, after: { timestamp: TIMESTAMP, id: 'e' } });
+    assert.equal(first.request.id, 'a');
+    assert.equal(first.response?.request_id, 'a');
+  });
+
+  it('falls back to comparing positions for a cursor whose capture is gone', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+    const lines = ['A', 'B'].map((id, minute) => {
+      const timestamp = `2026-01-01T00:0${minute}:00.000Z`;
+      return JSON.stringify({ type: 'request', timestamp, data: makeRequest(id, timestamp) }) + '\n';
+    });
+    fs.writeFileSync(path.join(dir, 'messages.jsonl'), lines.join(''));
+
+    const storage = new JSONLStorage(dir);
+    t.after(() => storage.close());
+    const pairs = await storage.query({ after: { timestamp: '2026-01-01T00:00:30.000Z', id: 'pruned' } });
+    assert.deepEqual(pairs.map((pair) => pair.request.id), ['B']);
+  });
+});
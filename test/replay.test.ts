@@ -0,0 +1,103 @@
+// Tests for replay keys, the replay index and re-synthesized SSE streams
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReplayIndex, buildMessageBody, buildStreamEvents, formatSSE, hashRequest } from '../src/proxy/replay.js';
+import { SSEParser } from '../src/proxy/streaming.js';
+import type { CapturedResponse, RequestResponsePair } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+async function* stream(pairs: RequestResponsePair[]): AsyncGenerator<RequestResponsePair> {
+  yield* pairs;
+}
+
+describe('hashRequest', () => {
+  it('depends on the model, system prompt, messages and tools only', () => {
+    const request = makeRequest('r1', '2026-01-01T00:00:00.000Z');
+    const key = hashRequest(request);
+    const retry = { ...request, id: 'r2', timestamp: '2026-02-01T00:00:00.000Z', max_tokens: 1 };
+    assert.equal(hashRequest(retry), key);
+    assert.notEqual(hashRequest({ ...request, model: 'claude-opus-4-1' }), key);
+    assert.notEqual(hashRequest({ ...request, system: [{ type: 'text', text: 'You are helpful' }] }), key);
+    assert.notEqual(hashRequest({ ...request, messages: [{ role: 'user', content: 'other' }] }), key);
+  });
+});
+
+describe('ReplayIndex', () => {
+  it('serves identical requests in capture order, then repeats the last', async () => {
+    const request = makeRequest('r1', '2026-01-01T00:00:00.000Z');
+    const index = new ReplayIndex();
+    await index.load(stream([
+      { request, response: makeResponse('first') },
+      { request: { ...request, id: 'r2' }, response: makeResponse('second') },
+      { request: makeRequest('r3', '2026-01-01T00:00:00.000Z'), response: null },
+    ]));
+
+    const key = hashRequest(request);
+    assert.equal(index.size, 2);
+    assert.equal(index.lookup(key)?.request_id, 'first');
+    assert.equal(index.lookup(key)?.request_id, 'second');
+    assert.equal(index.lookup(key)?.request_id, 'second');
+    assert.equal(index.lookup('missing'), null);
+  });
+
+  it('prefers the key stored with a capture', async () => {
+    const index = new ReplayIndex();
+    await index.load(stream([
+      { request: { ...makeRequest('r1', '2026-01-01T00:00:00.000Z'), replay_key: 'stored' }, response: makeResponse('r1') },
+    ]));
+    assert.equal(index.lookup('stored')?.request_id, 'r1');
+  });
+});
+
+describe('SSE replay', () => {
+  const response: CapturedResponse = {
+    ...makeResponse('0a1b-2c3d', [
+      { type: 'thinking', thinking: 'Let me look', signature: 'sig' },
+      { type: 'text', text: 'Reading the file' },
+      { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/tmp/a.ts' } },
+    ]),
+    stop_reason: 'tool_use',
+  };
+
+  it('emits the event sequence of a streamed message', () => {
+    const events = buildStreamEvents(response);
+    assert.deepEqual(events.map((event) => event.type), [
+      'message_start',
+      'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+      'content_block_start', 'content_block_delta', 'content_block_stop',
+      'content_block_start', 'content_block_delta', 'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+  });
+
+  it('round-trips through the proxy SSE parser', () => {
+    const sse = formatSSE(buildStreamEvents(response));
+    assert.match(sse, /^event: message_start\ndata: \{/);
+
+    const parser = new SSEParser();
+    // Split mid-line, as network chunks would be
+    parser.processChunk(sse.slice(0, 100));
+    parser.processChunk(sse.slice(100));
+    const accumulator = parser.getAccumulator();
+    assert.deepEqual(accumulator.content, response.content);
+    assert.equal(accumulator.stopReason, 'tool_use');
+    assert.equal(accumulator.messageId, 'msg_replay_0a1b2c3d');
+    assert.deepEqual(accumulator.usage, response.usage);
+  });
+
+  it('ends a failed stream with its error event', () => {
+    const error = { type: 'overloaded_error', message: 'Overloaded' };
+    const events = buildStreamEvents({ ...response, error });
+    assert.deepEqual(events[events.length - 1], { type: 'error', error });
+    assert.ok(!events.some((event) => event.type === 'message_stop'));
+  });
+
+  it('builds the non-streaming body', () => {
+    const body = buildMessageBody(response);
+    assert.equal(body.id, 'msg_replay_0a1b2c3d');
+    assert.deepEqual(body.content, response.content);
+    assert.equal(body.stop_reason, 'tool_use');
+  });
+});
@@ -0,0 +1,113 @@
+// Tests for rotation policies and for reading and pruning rotated capture files
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { JSONLStorage } from '../src/storage/jsonl.js';
+import { parseDuration, parseRotation, parseSize, rotationPeriod } from '../src/storage/rotation.js';
+import { makeRequest, makeResponse, makeTempDir } from './helpers.js';
+
+/** Wait until every rotated segment has been compressed */
+async function waitForCompression(dir: string): Promise<string[]> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    // Compressed segments keep their index next to them
+    const files = fs.readdirSync(dir).filter((file) => file.startsWith('messages-') && !file.endsWith('.idx'));
+    if (files.every((file) => file.endsWith('.jsonl.gz'))) return files.sort();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error('Segments were not compressed');
+}
+
+/** Wait until a file holds a number of lines, as writes land asynchronously */
+async function waitForLines(file: string, count: number): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (fs.existsSync(file) && fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).length >= count) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`${file} does not hold ${count} lines`);
+}
+
+async function pairIds(storage: JSONLStorage): Promise<Array<[string, string | null]>> {
+  const ids: Array<[string, string | null]> = [];
+  for await (const { request, response } of storage.iteratePairs()) {
+    ids.push([request.id, response?.request_id ?? null]);
+  }
+  return ids;
+}
+
+describe('rotation policies', () => {
+  it('parses durations and sizes', () => {
+    assert.equal(parseDuration('30m'), 30 * 60 * 1000);
+    assert.equal(parseDuration('2W'), 14 * 24 * 60 * 60 * 1000);
+    assert.equal(parseSize('500KB'), 500 * 1024);
+    assert.equal(parseSize('1.5gb'), 1.5 * 1024 ** 3);
+    assert.equal(parseSize('42'), 42);
+    assert.throws(() => parseDuration('7'), /Invalid duration/);
+    assert.throws(() => parseSize('big'), /Invalid size/);
+  });
+
+  it('parses combined policies and none', () => {
+    assert.deepEqual(parseRotation('daily, 100MB'), { interval: 'daily', maxSize: 100 * 1024 ** 2 });
+    assert.deepEqual(parseRotation('hourly'), { interval: 'hourly' });
+    assert.equal(parseRotation('none'), undefined);
+  });
+
+  it('derives the rotation period of a timestamp', () => {
+    assert.equal(rotationPeriod('2026-03-04T05:06:07.000Z', 'daily'), '2026-03-04');
+    assert.equal(rotationPeriod('2026-03-04T05:06:07.000Z', 'hourly'), '2026-03-04T05');
+  });
+});
+
+describe('JSONLStorage rotation', () => {
+  it('rotates by size and pairs captures across compressed segments', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+
+    // With a 1 byte limit every entry after the first starts a new file
+    const storage = new JSONLStorage(dir, { rotation: { maxSize: 1 } });
+    storage.logRequest(makeRequest('A', '2026-01-01T00:00:00.000Z'));
+    storage.logRequest(makeRequest('B', '2026-01-01T00:01:00.000Z'));
+    storage.logResponse(makeResponse('A'));
+    storage.logResponse(makeResponse('B'));
+
+    const segments = await waitForCompression(dir);
+    assert.equal(segments.length, 3);
+    assert.deepEqual(await pairIds(storage), [['A', 'A'], ['B', 'B']]);
+    assert.equal((await storage.getPair('B'))?.response?.request_id, 'B');
+    storage.close();
+  });
+
+  it('prunes whole pairs across segments', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+
+    // A segment rotated on January 4th holds requests A and B; their
+    // responses and request C were logged to the current file afterwards
+    const current = path.join(dir, 'messages.jsonl');
+    let storage = new JSONLStorage(dir);
+    storage.logRequest(makeRequest('A', '2026-01-01T00:00:00.000Z'));
+    storage.logRequest(makeRequest('B', '2026-01-03T00:00:00.000Z'));
+    await waitForLines(current, 2);
+    storage.close();
+    fs.writeFileSync(path.join(dir, 'messages-20260104T000000000Z.jsonl.gz'), zlib.gzipSync(fs.readFileSync(current)));
+    fs.rmSync(current);
+
+    storage = new JSONLStorage(dir);
+    storage.logResponse(makeResponse('A'));
+    storage.logResponse(makeResponse('B'));
+    storage.logRequest(makeRequest('C', '2026-01-06T00:00:00.000Z'));
+    await waitForLines(current, 3);
+
+    // The segment is rewritten rather than deleted, since it also holds B
+    assert.equal(await storage.prune('2026-01-02T00:00:00.000Z'), 1);
+    assert.deepEqual(await pairIds(storage), [['B', 'B'], ['C', null]]);
+    assert.equal(await storage.getPair('A'), null);
+
+    assert.equal(await storage.prune('2026-01-05T00:00:00.000Z'), 1);
+    assert.deepEqual(fs.readdirSync(dir).filter((file) => /\.jsonl(\.gz)?$/.test(file)), ['messages.jsonl']);
+    assert.deepEqual(await pairIds(storage), [['C', null]]);
+    storage.close();
+  });
+});
@@ -0,0 +1,81 @@
+// Tests for the proxy features `claude-reverse run` relies on
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ProxyServer } from '../src/proxy/server.js';
+import { summarizeRequest } from '../src/parser/captures.js';
+import type { CapturedRequest, CapturedResponse } from '../src/types.js';
+import { makeTempDir } from './helpers.js';
+
+function listen(server: http.Server): Promise<number> {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe('run proxy', () => {
+  it('listens on a free port and tags and emits every capture', async (t) => {
+    const upstream = http.createServer((_req, res) => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text: 'hi' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 1, output_tokens: 1 },
+      }));
+    });
+    const upstreamPort = await listen(upstream);
+    const { dir, cleanup } = makeTempDir();
+    const proxy = new ProxyServer({
+      port: 0,
+      dataDir: dir,
+      verbose: false,
+      storage: 'sqlite',
+      upstream: `http://127.0.0.1:${upstreamPort}`,
+      captureTags: { session_id: 'run-1', cwd: '/work' },
+    });
+    t.after(async () => {
+      await proxy.stop();
+      await close(upstream);
+      cleanup();
+    });
+
+    const requests: CapturedRequest[] = [];
+    const responded = new Promise<CapturedResponse>((resolve) => proxy.on('response', resolve));
+    proxy.on('request', (request: CapturedRequest) => requests.push(request));
+    await proxy.start();
+    assert.notEqual(proxy.getPort(), 0);
+    assert.equal(proxy.getDashboardUrl(), `http://localhost:${proxy.getPort()}/ui/`);
+
+    const response = await fetch(`http://127.0.0.1:${proxy.getPort()}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 1,
+        metadata: { user_id: 'user_abc_account__session_11111111-1111-1111-1111-111111111111' },
+        messages: [{ role: 'user', content: 'hello' }],
+      }),
+    });
+    await response.text();
+
+    const captured = await responded;
+    assert.equal(requests.length, 1);
+    assert.equal(captured.request_id, requests[0].id);
+    assert.equal(requests[0].session_id, 'run-1');
+    assert.equal(requests[0].cwd, '/work');
+    // The run's session id groups captures ahead of Claude Code's own
+    assert.equal(summarizeRequest(requests[0]).sessionKey, 'run-1');
+
+    const [pair] = await proxy.getStorage().query({});
+    assert.equal(pair.request.session_id, 'run-1');
+    assert.equal(pair.request.cwd, '/work');
+  });
+});
@@ -0,0 +1,114 @@
+// Tests for the tool definition catalog and schema diffs
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildToolCatalog,
+  diffToolSchemas,
+  findToolSetChanges,
+  fingerprintTool,
+  getMcpServer,
+} from '../src/parser/schemas.js';
+import type { CapturedRequest, ToolDefinition } from '../src/types.js';
+import { makeRequest } from './helpers.js';
+
+async function* stream(requests: CapturedRequest[]): AsyncGenerator<CapturedRequest> {
+  yield* requests;
+}
+
+const bash: ToolDefinition = {
+  name: 'Bash',
+  description: 'Run a shell command',
+  input_schema: { type: 'object', properties: { command: { type: 'string' } }, required: ['command'] },
+};
+
+const bashWithTimeout: ToolDefinition = {
+  ...bash,
+  input_schema: {
+    type: 'object',
+    properties: { command: { type: 'string', description: 'The command' }, timeout: { type: 'number' } },
+    required: ['command', 'timeout'],
+  },
+};
+
+const read: ToolDefinition = {
+  name: 'mcp__files__read',
+  description: 'Read a file',
+  input_schema: { type: 'object', properties: { path: { type: 'string' } } },
+};
+
+function withTools(id: string, minute: number, tools: ToolDefinition[], agentType = 'Main'): CapturedRequest {
+  return { ...makeRequest(id, `2026-01-01T00:0${minute}:00.000Z`), tools, agent_type: agentType };
+}
+
+describe('fingerprintTool', () => {
+  it('ignores key order but not content', () => {
+    const reordered: ToolDefinition = {
+      input_schema: { required: ['command'], properties: { command: { type: 'string' } }, type: 'object' },
+      description: 'Run a shell command',
+      name: 'Bash',
+    };
+    assert.equal(fingerprintTool(reordered), fingerprintTool(bash));
+    assert.notEqual(fingerprintTool(bashWithTimeout), fingerprintTool(bash));
+  });
+
+  it('names the MCP server of MCP tools', () => {
+    assert.equal(getMcpServer('mcp__files__read'), 'files');
+    assert.equal(getMcpServer('Bash'), undefined);
+  });
+});
+
+describe('buildToolCatalog', () => {
+  it('tracks each distinct version of a tool and who sent it', async () => {
+    const catalog = await buildToolCatalog(stream([
+      withTools('A', 1, [bash, read]),
+      withTools('B', 2, [bash], 'Explore'),
+      withTools('C', 3, [bashWithTimeout]),
+      makeRequest('D', '2026-01-01T00:04:00.000Z'),
+    ]));
+
+    assert.deepEqual(catalog.map((entry) => entry.name), ['Bash', 'mcp__files__read']);
+    const [entry, mcp] = catalog;
+    assert.equal(entry.requestCount, 3);
+    assert.deepEqual(entry.agentTypes, ['Main', 'Explore']);
+    assert.deepEqual(entry.versions.map((v) => [v.requestId, v.requestCount, v.agentTypes]), [
+      ['A', 2, ['Main', 'Explore']],
+      ['C', 1, ['Main']],
+    ]);
+    assert.equal(entry.lastSeen, '2026-01-01T00:03:00.000Z');
+    assert.equal(mcp.mcpServer, 'files');
+  });
+});
+
+describe('diffToolSchemas', () => {
+  it('reports parameter, required and text changes', () => {
+    const change = diffToolSchemas(bash, bashWithTimeout);
+    assert.deepEqual(change.addedParams, ['timeout']);
+    assert.deepEqual(change.removedParams, []);
+    assert.deepEqual(change.changedParams, ['command']);
+    assert.deepEqual(change.addedRequired, ['timeout']);
+    assert.deepEqual(change.descriptionHunks, []);
+    assert.ok(change.schemaHunks.length > 0);
+  });
+});
+
+describe('findToolSetChanges', () => {
+  it('reports a tool set the first time an agent sends it', async () => {
+    const changes = await findToolSetChanges(stream([
+      withTools('A', 1, [bash, read]),
+      withTools('B', 2, [bashWithTimeout]),
+      // Sent before, so switching back is no new change
+      withTools('C', 3, [read, bash]),
+      // Other agents are compared only with themselves
+      withTools('D', 4, [bash], 'Explore'),
+    ]));
+
+    assert.equal(changes.length, 1);
+    const [change] = changes;
+    assert.equal(change.requestId, 'B');
+    assert.equal(change.previousRequestId, 'A');
+    assert.deepEqual(change.removed, ['mcp__files__read']);
+    assert.deepEqual(change.added, []);
+    assert.deepEqual(change.changed.map((c) => c.name), ['Bash']);
+  });
+});
@@ -0,0 +1,83 @@
+// Tests for full-text search over captures
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchIndex, buildSearchIndex, tokenize } from '../src/parser/search.js';
+import type { ContentBlock, Message, RequestResponsePair } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+async function* stream(pairs: RequestResponsePair[]): AsyncGenerator<RequestResponsePair> {
+  yield* pairs;
+}
+
+const first: Message = { role: 'user', content: 'Please fix the failing build' };
+const toolUse: ContentBlock = { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'npm run build' } };
+const toolCall: Message = { role: 'assistant', content: [toolUse] };
+const toolResult: Message = {
+  role: 'user',
+  content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'error TS2304: Cannot find name', is_error: true }],
+};
+
+function pairs(): RequestResponsePair[] {
+  return [
+    {
+      request: {
+        ...makeRequest('A', '2026-01-01T00:00:00.000Z', [first]),
+        system: [{ type: 'text', text: 'You are a build assistant' }],
+      },
+      response: makeResponse('A', [toolUse]),
+    },
+    {
+      request: makeRequest('B', '2026-01-01T00:01:00.000Z', [first, toolCall, toolResult]),
+      response: makeResponse('B', [{ type: 'text', text: 'The build fails on a missing name' }]),
+    },
+  ];
+}
+
+describe('tokenize', () => {
+  it('splits on anything but letters, digits and underscores', () => {
+    assert.deepEqual(tokenize('rm -rf node_modules/Ünïcode42'), ['rm', 'rf', 'node_modules', 'ünïcode42']);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('indexes resent blocks once, under the capture they first appeared in', async () => {
+    const index = await buildSearchIndex(stream(pairs()));
+    const hits = index.search('failing build');
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].requestId, 'A');
+    assert.deepEqual(hits[0].location, { kind: 'message', message: 0, block: 0 });
+    assert.equal(hits[0].label, 'user message');
+  });
+
+  it('finds tool inputs, tool results and the system prompt', async () => {
+    const index = await buildSearchIndex(stream(pairs()));
+    const label = (query: string) => index.search(query).map((hit) => hit.label);
+    assert.deepEqual(label('npm run'), ['tool_use: Bash']);
+    assert.deepEqual(label('TS2304'), ['tool_result (error)']);
+    assert.deepEqual(label('assistant'), ['system prompt']);
+  });
+
+  it('requires every word and matches the last as a prefix', async () => {
+    const index = await buildSearchIndex(stream(pairs()));
+    assert.deepEqual(index.search('build miss').map((hit) => hit.requestId), ['B']);
+    assert.deepEqual(index.search('nothing here'), []);
+  });
+
+  it('ranks exact phrases first, then the newest captures', () => {
+    const index = new SearchIndex();
+    index.addRequest(makeRequest('old', '2026-01-01T00:00:00.000Z', [{ role: 'user', content: 'the build failed' }]));
+    index.addRequest(makeRequest('new', '2026-01-02T00:00:00.000Z', [{ role: 'user', content: 'failed: the build' }]));
+    index.addRequest(makeRequest('newest', '2026-01-03T00:00:00.000Z', [{ role: 'user', content: 'failed the build' }]));
+    assert.deepEqual(index.search('build failed').map((hit) => hit.requestId), ['old', 'newest', 'new']);
+  });
+
+  it('highlights matched terms within the snippet', () => {
+    const index = new SearchIndex();
+    index.addRequest(makeRequest('A', '2026-01-01T00:00:00.000Z', [{ role: 'user', content: `${'x '.repeat(100)}Fix the Build now` }]));
+    const [hit] = index.search('fix the build');
+    assert.ok(hit.snippet.startsWith('…'));
+    const [start, end] = hit.highlights[0];
+    assert.equal(hit.snippet.slice(start, end), 'Fix the Build');
+  });
+});
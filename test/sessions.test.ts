@@ -0,0 +1,96 @@
+// Tests for threading captures into conversations and sessions
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildConversations, buildSessions, getSessionKey } from '../src/parser/sessions.js';
+import type { ContentBlock, Message, RequestResponsePair } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+const SESSION = '0a1b2c3d-0000-4000-8000-000000000001';
+const USER_ID = `user_abc_account__session_${SESSION}`;
+
+function pair(id: string, minute: number, messages: Message[], reply: ContentBlock[] | null, userId?: string): RequestResponsePair {
+  const request = makeRequest(id, `2026-01-01T00:${String(minute).padStart(2, '0')}:00.000Z`, messages);
+  if (userId) request.metadata = { user_id: userId };
+  return { request, response: reply && makeResponse(id, reply) };
+}
+
+const text = (value: string): ContentBlock[] => [{ type: 'text', text: value }];
+
+describe('getSessionKey', () => {
+  it('prefers the run session id, then the id embedded in the user id', () => {
+    const request = makeRequest('r1', '2026-01-01T00:00:00.000Z');
+    assert.equal(getSessionKey(request), undefined);
+    assert.equal(getSessionKey({ ...request, metadata: { user_id: USER_ID } }), SESSION);
+    assert.equal(getSessionKey({ ...request, metadata: { user_id: 'opaque' } }), 'opaque');
+    assert.equal(getSessionKey({ ...request, session_id: 'run', metadata: { user_id: USER_ID } }), 'run');
+  });
+});
+
+describe('buildConversations', () => {
+  it('continues a conversation when the previous turn is a prefix', () => {
+    const first: Message = { role: 'user', content: 'hello' };
+    const reply: Message = { role: 'assistant', content: text('hi there') };
+    const conversations = buildConversations([
+      pair('A', 1, [first], text('hi there')),
+      pair('B', 2, [first, reply, { role: 'user', content: 'next' }], text('done')),
+      pair('C', 3, [{ role: 'user', content: 'unrelated' }], text('ok')),
+    ]);
+    assert.deepEqual(conversations.map((c) => c.requestIds), [['A', 'B'], ['C']]);
+  });
+
+  it('does not continue when the assistant turn differs from the response', () => {
+    const first: Message = { role: 'user', content: 'hello' };
+    const conversations = buildConversations([
+      pair('A', 1, [first], text('hi there')),
+      pair('B', 2, [first, { role: 'assistant', content: text('something else') }, { role: 'user', content: 'x' }], null),
+    ]);
+    assert.deepEqual(conversations.map((c) => c.requestIds), [['A'], ['B']]);
+  });
+
+  it('threads retries and out of order captures by timestamp', () => {
+    const first: Message = { role: 'user', content: 'hello' };
+    const conversations = buildConversations([
+      pair('B', 2, [first], text('hi')),
+      pair('A', 1, [first], null),
+    ]);
+    assert.deepEqual(conversations.map((c) => c.requestIds), [['A', 'B']]);
+  });
+
+  it('keeps different users apart', () => {
+    const first: Message = { role: 'user', content: 'hello' };
+    const conversations = buildConversations([
+      pair('A', 1, [first], text('hi'), 'user-1'),
+      pair('B', 2, [first], text('hi'), 'user-2'),
+    ]);
+    assert.equal(conversations.length, 2);
+  });
+});
+
+describe('buildSessions', () => {
+  it('groups conversations sharing a session key and totals their usage', () => {
+    const sessions = buildSessions([
+      pair('main-1', 1, [{ role: 'user', content: 'fix the bug' }], [{ type: 'tool_use', id: 't1', name: 'Task', input: {} }], USER_ID),
+      pair('sub-1', 2, [{ role: 'user', content: 'investigate' }], text('found it'), USER_ID),
+      pair('main-2', 3, [
+        { role: 'user', content: 'fix the bug' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'Task', input: {} }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'found it' }] },
+      ], text('fixed'), USER_ID),
+      pair('other', 4, [{ role: 'user', content: 'elsewhere' }], text('ok')),
+    ]);
+
+    assert.equal(sessions.length, 2);
+    const [session, other] = sessions;
+    assert.equal(session.id, SESSION);
+    assert.deepEqual(session.requestIds, ['main-1', 'sub-1', 'main-2']);
+    assert.deepEqual(session.conversations.map((c) => c.requestIds), [['main-1', 'main-2'], ['sub-1']]);
+    // Labelled with the prompt of the longest conversation
+    assert.equal(session.firstPrompt, 'fix the bug');
+    assert.equal(session.inputTokens, 30);
+    assert.equal(session.outputTokens, 15);
+    assert.equal(session.toolCalls, 1);
+    assert.equal(other.id, 'other');
+    assert.deepEqual(other.requestIds, ['other']);
+  });
+});
@@ -0,0 +1,143 @@
+// Tests for the SQLite storage backend
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { SQLiteStorage } from '../src/storage/sqlite.js';
+import type { CapturedRequest, RequestResponsePair } from '../src/types.js';
+import { makeRequest, makeResponse, makeTempDir } from './helpers.js';
+
+const CHILD_TABLES = ['responses', 'messages', 'content_blocks', 'tool_calls'];
+
+function openStorage(t: { after: (fn: () => void) => void }): SQLiteStorage {
+  const { dir, cleanup } = makeTempDir();
+  const storage = new SQLiteStorage(dir);
+  t.after(() => {
+    storage.close();
+    cleanup();
+  });
+  return storage;
+}
+
+function richRequest(id: string, timestamp: string): CapturedRequest {
+  return {
+    ...makeRequest(id, timestamp, [
+      { role: 'user', content: 'list the files' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: `tu_${id}_0`, name: 'Bash', input: { command: 'ls' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: `tu_${id}_0`, content: 'a.txt' }] },
+    ]),
+    system: [{ type: 'text', text: 'You are Claude Code' }],
+    tools: [{ name: 'Bash', description: 'Run a command', input_schema: { type: 'object', properties: { command: { type: 'string' } } } }],
+    stream: true,
+    metadata: { user_id: 'user_1' },
+    session_id: 'run-1',
+  };
+}
+
+function richPair(id: string, timestamp: string): RequestResponsePair {
+  return {
+    request: richRequest(id, timestamp),
+    response: {
+      ...makeResponse(id, [
+        { type: 'text', text: 'Reading it' },
+        { type: 'tool_use', id: `tu_${id}_1`, name: 'Read', input: { file_path: 'a.txt' } },
+      ]),
+      stop_reason: 'tool_use',
+      status: 200,
+    },
+  };
+}
+
+function countRows(storage: SQLiteStorage, table: string): number {
+  const db = new Database(storage.getFilePath(), { readonly: true });
+  try {
+    return (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+  } finally {
+    db.close();
+  }
+}
+
+describe('SQLiteStorage', () => {
+  it('round-trips captures exactly, including fields without a column', async (t) => {
+    const storage = openStorage(t);
+    const pair = richPair('A', '2026-01-01T00:00:00.000Z');
+    storage.logRequest(pair.request);
+    storage.logResponse(pair.response!);
+
+    assert.deepEqual(await storage.getPair('A'), pair);
+    assert.equal(await storage.getPair('missing'), null);
+  });
+
+  it('replaces a response logged again', async (t) => {
+    const storage = openStorage(t);
+    const pair = richPair('A', '2026-01-01T00:00:00.000Z');
+    storage.logRequest(pair.request);
+    storage.logResponse(pair.response!);
+    storage.logResponse(makeResponse('A', [{ type: 'text', text: 'retried' }]));
+
+    assert.deepEqual((await storage.getPair('A'))?.response?.content, [{ type: 'text', text: 'retried' }]);
+    assert.equal(countRows(storage, 'tool_calls'), 0);
+  });
+
+  it('filters with SQL and pages by cursor in (timestamp, id) order', async (t) => {
+    const storage = openStorage(t);
+    const timestamp = '2026-01-01T00:00:00.000Z';
+    for (const id of ['c', 'a', 'b']) {
+      const pair = richPair(id, timestamp);
+      storage.logRequest(pair.request);
+      storage.logResponse(pair.response!);
+    }
+    storage.logRequest({ ...makeRequest('other', timestamp), model: 'claude-haiku-4-5' });
+
+    const ids = async (query: Parameters<SQLiteStorage['query']>[0]) =>
+      (await storage.query(query)).map((pair) => pair.request.id);
+    assert.deepEqual(await ids({ tool: 'Read', limit: 2 }), ['a', 'b']);
+    assert.deepEqual(await ids({ tool: 'Read', after: { timestamp, id: 'b' } }), ['c']);
+    assert.deepEqual(await ids({ model: 'claude-haiku-4-5' }), ['other']);
+    assert.deepEqual(await ids({ stopReason: 'tool_use', offset: 1, limit: 1 }), ['b']);
+    // Text filters run in memory on the hydrated captures
+    assert.deepEqual(await ids({ text: 'LIST THE', limit: 1, offset: 2 }), ['c']);
+  });
+
+  it('prunes captures with everything stored for them', async (t) => {
+    const storage = openStorage(t);
+    const old = richPair('old', '2026-01-01T00:00:00.000Z');
+    const recent = richPair('recent', '2026-01-03T00:00:00.000Z');
+    for (const pair of [old, recent]) {
+      storage.logRequest(pair.request);
+      storage.logResponse(pair.response!);
+    }
+    const before = Object.fromEntries(CHILD_TABLES.map((table) => [table, countRows(storage, table)]));
+
+    assert.equal(await storage.prune('2026-01-02T00:00:00.000Z'), 1);
+    for (const table of CHILD_TABLES) {
+      assert.equal(countRows(storage, table), before[table] / 2, table);
+    }
+    assert.deepEqual(await storage.getPair('recent'), recent);
+  });
+
+  it('skips a response whose request was cleared while in flight', async (t) => {
+    const storage = openStorage(t);
+    storage.logRequest(makeRequest('A', '2026-01-01T00:00:00.000Z'));
+    storage.clear();
+
+    assert.doesNotThrow(() => storage.logResponse(makeResponse('A')));
+    assert.equal(countRows(storage, 'responses'), 0);
+  });
+
+  it('rewrites captures in place', async (t) => {
+    const storage = openStorage(t);
+    const pair = richPair('A', '2026-01-01T00:00:00.000Z');
+    storage.logRequest(pair.request);
+    storage.logResponse(pair.response!);
+
+    await storage.rewrite({
+      request: (request) => ({ ...request, metadata: undefined }),
+      response: (response) => ({ ...response, content: [] }),
+    });
+    const rewritten = await storage.getPair('A');
+    assert.equal(rewritten?.request.metadata, undefined);
+    assert.deepEqual(rewritten?.request.messages, pair.request.messages);
+    assert.deepEqual(rewritten?.response?.content, []);
+  });
+});
@@ -0,0 +1,153 @@
+// Tests for accumulating streamed SSE events into a response
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSEParser } from '../src/proxy/streaming.js';
+import { buildStreamEvents } from '../src/proxy/replay.js';
+import { pairToolCallsWithResults } from '../src/parser/tools.js';
+import type { CapturedResponse, ContentBlock } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+/** Serialize events as the API streams them */
+function sse(events: object[]): string {
+  return events
+    .map((event) => `event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`)
+    .join('');
+}
+
+/** Feed a stream to a parser in chunks that split lines and events */
+function parse(events: object[], chunkSize: number = 7): SSEParser {
+  const parser = new SSEParser();
+  const text = sse(events);
+  for (let i = 0; i < text.length; i += chunkSize) parser.processChunk(text.slice(i, i + chunkSize));
+  return parser;
+}
+
+function message(content: object[]): object[] {
+  return [
+    {
+      type: 'message_start',
+      message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 12, output_tokens: 1 } },
+    },
+    ...content,
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 42 } },
+    { type: 'message_stop' },
+  ];
+}
+
+function block(index: number, start: object, deltas: object[]): object[] {
+  return [
+    { type: 'content_block_start', index, content_block: start },
+    ...deltas.map((delta) => ({ type: 'content_block_delta', index, delta })),
+    { type: 'content_block_stop', index },
+  ];
+}
+
+describe('SSEParser', () => {
+  it('accumulates thinking and its signature from deltas', () => {
+    const parser = parse(message([
+      ...block(0, { type: 'thinking', thinking: '' }, [
+        { type: 'thinking_delta', thinking: 'Let me ' },
+        { type: 'thinking_delta', thinking: 'think.' },
+        { type: 'signature_delta', signature: 'EqQBCgIYAh' },
+        { type: 'signature_delta', signature: 'IkDx==' },
+      ]),
+      ...block(1, { type: 'text', text: '' }, [
+        { type: 'text_delta', text: 'Hello' },
+        { type: 'text_delta', text: ' there' },
+      ]),
+    ]));
+
+    const accumulator = parser.getAccumulator();
+    assert.deepEqual(accumulator.content, [
+      { type: 'thinking', thinking: 'Let me think.', signature: 'EqQBCgIYAhIkDx==' },
+      { type: 'text', text: 'Hello there' },
+    ]);
+    assert.equal(accumulator.messageId, 'msg_1');
+    assert.equal(accumulator.stopReason, 'end_turn');
+    assert.deepEqual(accumulator.usage, { input_tokens: 12, output_tokens: 42 });
+  });
+
+  it('keeps redacted thinking, which arrives whole', () => {
+    const parser = parse(message([
+      ...block(0, { type: 'redacted_thinking', data: 'EmwKAhgB' }, []),
+      ...block(1, { type: 'text', text: '' }, [{ type: 'text_delta', text: 'Done' }]),
+    ]));
+
+    assert.deepEqual(parser.getAccumulator().content, [
+      { type: 'redacted_thinking', data: 'EmwKAhgB' },
+      { type: 'text', text: 'Done' },
+    ]);
+  });
+
+  it('parses tool input from JSON deltas', () => {
+    const parser = parse(message([
+      ...block(0, { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: {} }, [
+        { type: 'input_json_delta', partial_json: '{"command":' },
+        { type: 'input_json_delta', partial_json: ' "ls -la"}' },
+      ]),
+    ]));
+
+    assert.deepEqual(parser.getAccumulator().content, [
+      { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls -la' } },
+    ]);
+  });
+});
+
+describe('server tools and citations', () => {
+  const searchResult: ContentBlock = {
+    type: 'web_search_tool_result',
+    tool_use_id: 'srvtoolu_1',
+    content: [{ type: 'web_search_result', url: 'https://example.com', title: 'Example', encrypted_content: 'Eq4B' }],
+  };
+  const citation = { type: 'web_search_result_location', url: 'https://example.com', title: 'Example', cited_text: 'An example' };
+
+  it('accumulates server tool use, whole result blocks and citation deltas', () => {
+    const parser = parse(message([
+      ...block(0, { type: 'server_tool_use', id: 'srvtoolu_1', name: 'web_search', input: {} }, [
+        { type: 'input_json_delta', partial_json: '{"query": "example"}' },
+      ]),
+      ...block(1, searchResult, []),
+      ...block(2, { type: 'text', text: '', citations: [] }, [
+        { type: 'citations_delta', citation },
+        { type: 'text_delta', text: 'It is an example' },
+      ]),
+    ]));
+
+    assert.deepEqual(parser.getAccumulator().content, [
+      { type: 'server_tool_use', id: 'srvtoolu_1', name: 'web_search', input: { query: 'example' } },
+      searchResult,
+      { type: 'text', text: 'It is an example', citations: [citation] },
+    ]);
+  });
+
+  it('replays citations and server tools as they were captured', () => {
+    const response: CapturedResponse = makeResponse('r1', [
+      { type: 'server_tool_use', id: 'srvtoolu_1', name: 'web_search', input: { query: 'example' } },
+      searchResult,
+      { type: 'text', text: 'It is an example', citations: [citation] },
+    ]);
+    assert.deepEqual(parse(buildStreamEvents(response)).getAccumulator().content, response.content);
+  });
+
+  it('pairs server tool calls with results from the same response', () => {
+    const failed: ContentBlock = {
+      type: 'web_fetch_tool_result',
+      tool_use_id: 'srvtoolu_2',
+      content: { type: 'web_fetch_tool_result_error', error_code: 'url_not_accessible' },
+    };
+    const response = makeResponse('r1', [
+      { type: 'server_tool_use', id: 'srvtoolu_1', name: 'web_search', input: { query: 'example' } },
+      searchResult,
+      { type: 'server_tool_use', id: 'srvtoolu_2', name: 'web_fetch', input: { url: 'https://example.com' } },
+      failed,
+    ]);
+
+    const calls = pairToolCallsWithResults([makeRequest('r1', '2026-01-01T00:00:00.000Z')], [response]);
+    assert.deepEqual(calls.map(({ name, server, is_error }) => ({ name, server, is_error })), [
+      { name: 'web_search', server: true, is_error: false },
+      { name: 'web_fetch', server: true, is_error: true },
+    ]);
+    assert.equal(calls[0].result, JSON.stringify((searchResult as { content: unknown }).content));
+  });
+});
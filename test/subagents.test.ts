@@ -0,0 +1,88 @@
+// Tests for linking Task tool calls to the subagent conversations they spawned
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionBuilder } from '../src/parser/sessions.js';
+import { SubagentCollector } from '../src/parser/subagents.js';
+import { DEFAULT_PRICING, estimateCost } from '../src/parser/pricing.js';
+import type { ContentBlock, Message, RequestResponsePair } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+function pair(id: string, minute: number, messages: Message[], reply: ContentBlock[]): RequestResponsePair {
+  return {
+    request: makeRequest(id, `2026-01-01T00:${String(minute).padStart(2, '0')}:00.000Z`, messages),
+    response: makeResponse(id, reply),
+  };
+}
+
+function task(id: string, prompt: string, subagentType?: string): ContentBlock {
+  return { type: 'tool_use', id, name: 'Task', input: { description: `Run ${id}`, prompt, subagent_type: subagentType } };
+}
+
+function result(id: string, content: string, isError?: boolean): Message {
+  return { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }] };
+}
+
+/**
+ * The main agent launches an Explore subagent, which launches one of its own
+ * and fails; a second call spawns no captured conversation
+ */
+function captures(): RequestResponsePair[] {
+  const main: Message = { role: 'user', content: 'Fix the bug' };
+  const explore: Message = { role: 'user', content: [{ type: 'text', text: 'Find the bug in parser.ts' }] };
+  return [
+    pair('M1', 1, [main], [task('task_1', 'Find the bug in parser.ts', 'Explore')]),
+    pair('S1', 2, [explore], [task('task_2', 'Read parser.ts')]),
+    pair('N1', 3, [{ role: 'user', content: 'Read parser.ts' }], [{ type: 'text', text: 'No such file' }]),
+    pair('S2', 4, [explore, { role: 'assistant', content: [task('task_2', 'Read parser.ts')] }, result('task_2', 'No such file', true)], [
+      { type: 'text', text: 'The bug is on line 3' },
+    ]),
+    pair('M2', 5, [main, { role: 'assistant', content: [task('task_1', 'Find the bug in parser.ts', 'Explore')] }, result('task_1', 'The bug is on line 3')], [
+      task('task_3', 'Never captured'),
+    ]),
+  ];
+}
+
+describe('SubagentCollector', () => {
+  it('nests subagent conversations under the calls that launched them', () => {
+    const sessions = new SessionBuilder();
+    const collector = new SubagentCollector(DEFAULT_PRICING);
+    for (const capture of captures()) collector.add(capture, sessions.add(capture));
+
+    const roots = collector.tree(sessions.conversations());
+    assert.deepEqual(roots.map((call) => [call.toolUseId, call.parentRequestId, call.requestIds]), [
+      ['task_1', 'M1', ['S1', 'S2']],
+      ['task_3', 'M2', []],
+    ]);
+
+    const [explore, unseen] = roots;
+    assert.equal(explore.subagentType, 'Explore');
+    assert.equal(explore.description, 'Run task_1');
+    assert.equal(explore.resultRequestId, 'M2');
+    assert.equal(explore.result, 'The bug is on line 3');
+    assert.equal(explore.isError, undefined);
+
+    const [nested] = explore.children;
+    assert.deepEqual(nested.requestIds, ['N1']);
+    assert.equal(nested.parentRequestId, 'S1');
+    assert.equal(nested.resultRequestId, 'S2');
+    assert.equal(nested.isError, true);
+
+    assert.equal(unseen.result, undefined);
+    assert.equal(unseen.requests, 0);
+  });
+
+  it('totals usage over a subagent and its descendants', () => {
+    const sessions = new SessionBuilder();
+    const collector = new SubagentCollector(DEFAULT_PRICING);
+    for (const capture of captures()) collector.add(capture, sessions.add(capture));
+
+    const [explore] = collector.tree(sessions.conversations());
+    const cost = estimateCost(makeResponse('x').usage, 'claude-sonnet-4-5', DEFAULT_PRICING).total;
+    assert.equal(explore.children[0].requests, 1);
+    assert.equal(explore.requests, 3);
+    assert.equal(explore.inputTokens, 30);
+    assert.equal(explore.outputTokens, 15);
+    assert.ok(Math.abs(explore.cost - 3 * cost) < 1e-12);
+  });
+});
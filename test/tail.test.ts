@@ -0,0 +1,70 @@
+// Tests for following the capture file and the summaries tail prints
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { JSONLStorage } from '../src/storage/jsonl.js';
+import { summarizeRequest, summarizeResponse } from '../src/parser/captures.js';
+import type { CapturedRequest, CapturedResponse, Message } from '../src/types.js';
+import { makeRequest, makeResponse, makeTempDir } from './helpers.js';
+
+/** Wait until a file holds a number of lines, as writes land asynchronously */
+async function waitForLines(file: string, count: number): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (fs.existsSync(file) && fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).length >= count) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`${file} does not hold ${count} lines`);
+}
+
+describe('JSONLStorage.follow', () => {
+  it('yields appended entries and continues after rotation', async (t) => {
+    const { dir, cleanup } = makeTempDir();
+    t.after(cleanup);
+
+    // With a 1 byte limit every entry after the first starts a new file
+    const storage = new JSONLStorage(dir, { rotation: { maxSize: 1 } });
+    storage.logRequest(makeRequest('A', '2026-01-01T00:00:00.000Z'));
+    await waitForLines(path.join(dir, 'messages.jsonl'), 1);
+
+    const follow = new JSONLStorage(dir).follow(10);
+    // Following starts at the end of the file, so A is never yielded
+    const first = follow.next();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    storage.logRequest(makeRequest('B', '2026-01-01T00:01:00.000Z'));
+
+    const request = (await first).value!;
+    assert.equal(request.type, 'request');
+    assert.equal((request.data as CapturedRequest).id, 'B');
+
+    storage.logResponse(makeResponse('B'));
+    const response = (await follow.next()).value!;
+    assert.equal(response.type, 'response');
+    assert.equal((response.data as CapturedResponse).request_id, 'B');
+
+    await follow.return(undefined);
+    storage.close();
+  });
+});
+
+describe('tail summaries', () => {
+  it('carry the agent type, tool results and tool calls tail filters on', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'List the files' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'No such file', is_error: true }] },
+    ];
+    const request = summarizeRequest({ ...makeRequest('A', '2026-01-01T00:00:00.000Z', messages), agent_type: 'Explore' });
+    assert.equal(request.agentType, 'Explore');
+    assert.equal(request.messageCount, 3);
+    assert.deepEqual(request.toolResults, [{ tool_use_id: 'toolu_1', is_error: true }]);
+
+    const response = summarizeResponse(makeResponse('A', [
+      { type: 'text', text: 'Reading it' },
+      { type: 'tool_use', id: 'toolu_2', name: 'Read', input: { file_path: 'a.ts' } },
+    ]));
+    assert.deepEqual(response.toolUses, [{ id: 'toolu_2', name: 'Read', server: false }]);
+    assert.equal('content' in response, false);
+  });
+});
@@ -0,0 +1,94 @@
+// Tests for pairing tool calls with their results and timing them
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ToolCallCollector,
+  calculateToolStats,
+  pairToolCallsWithResults,
+  summarizeToolTime,
+} from '../src/parser/tools.js';
+import type { CapturedRequest, CapturedResponse, ContentBlock, Message } from '../src/types.js';
+import { makeRequest, makeResponse } from './helpers.js';
+
+const at = (seconds: number) => `2026-01-01T00:00:${String(seconds).padStart(2, '0')}.000Z`;
+
+function respond(id: string, seconds: number, durationMs: number, content: ContentBlock[]): CapturedResponse {
+  return { ...makeResponse(id, content), timestamp: at(seconds), duration_ms: durationMs };
+}
+
+function results(...blocks: Array<[string, string, boolean?]>): Message {
+  return {
+    role: 'user',
+    content: blocks.map(([id, content, isError]) => ({ type: 'tool_result', tool_use_id: id, content, is_error: isError })),
+  };
+}
+
+/**
+ * Bash and Read called in parallel, answered by separate requests; then a web
+ * search run by the API and a Grep call that never got its result
+ */
+function captures(): Array<[CapturedRequest, CapturedResponse]> {
+  return [
+    [makeRequest('A', at(0)), respond('A', 2, 2000, [
+      { type: 'tool_use', id: 'bash_1', name: 'Bash', input: { command: 'ls' } },
+      { type: 'tool_use', id: 'read_1', name: 'Read', input: { file_path: 'a.ts' } },
+    ])],
+    [makeRequest('B', at(5), [results(['bash_1', 'a.ts'])]), respond('B', 6, 1000, [
+      { type: 'server_tool_use', id: 'srv_1', name: 'web_search', input: { query: 'docs' } },
+      { type: 'web_search_tool_result', tool_use_id: 'srv_1', content: [] },
+    ])],
+    [makeRequest('C', at(9), [results(['bash_1', 'a.ts'], ['read_1', 'No such file', true])]), respond('C', 10, 500, [
+      { type: 'tool_use', id: 'grep_1', name: 'Grep', input: { pattern: 'x' } },
+    ])],
+  ];
+}
+
+function collect(): ToolCallCollector {
+  const collector = new ToolCallCollector();
+  for (const [request, response] of captures()) collector.add(request, response);
+  return collector;
+}
+
+describe('ToolCallCollector', () => {
+  it('times client tools from the response to the request carrying their result', () => {
+    const calls = collect().calls();
+    assert.deepEqual(calls.map((call) => [call.id, call.request_id, call.duration_ms, call.is_error, call.server]), [
+      // A response's server tools are paired before its request's results
+      ['srv_1', 'B', undefined, false, true],
+      ['bash_1', 'A', 3000, undefined, undefined],
+      ['read_1', 'A', 7000, true, undefined],
+      ['grep_1', 'C', undefined, undefined, undefined],
+    ]);
+    assert.equal(calls[3].result, undefined);
+  });
+
+  it('leaves the duration unknown when clocks disagree', () => {
+    const calls = pairToolCallsWithResults(
+      [makeRequest('A', at(0)), makeRequest('B', at(1), [results(['bash_1', 'ok'])])],
+      [respond('A', 2, 2000, [{ type: 'tool_use', id: 'bash_1', name: 'Bash', input: {} }])]
+    );
+    assert.equal(calls[0].result, 'ok');
+    assert.equal(calls[0].duration_ms, undefined);
+  });
+});
+
+describe('tool timing analysis', () => {
+  it('summarizes durations and success rates per tool', () => {
+    const stats = calculateToolStats(collect().calls());
+    const bash = stats.get('Bash')!;
+    assert.equal(bash.totalDuration, 3000);
+    assert.equal(bash.averageDuration, 3000);
+    assert.deepEqual(bash.durations, { count: 1, p50: 3000, p90: 3000, p99: 3000, max: 3000 });
+    assert.equal(stats.get('Read')!.successRate, 0);
+    assert.equal(stats.get('web_search')!.durations, null);
+    // A call still waiting for its result is neither a success nor an error
+    const grep = stats.get('Grep')!;
+    assert.deepEqual([grep.callCount, grep.successCount, grep.errorCount, grep.successRate], [1, 0, 0, 1]);
+  });
+
+  it('charges parallel calls once, by the longest', () => {
+    const responses = captures().map(([, response]) => response);
+    assert.deepEqual(summarizeToolTime(collect().calls(), responses), { modelMs: 3500, toolMs: 7000 });
+  });
+});
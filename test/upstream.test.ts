@@ -0,0 +1,86 @@
+// Tests for forwarding proxied requests to a configurable upstream
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ProxyServer, parseUpstream } from '../src/proxy/server.js';
+import { makeTempDir } from './helpers.js';
+
+/** Start a server on a free port, resolving with the port */
+function listen(server: http.Server): Promise<number> {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+async function freePort(): Promise<number> {
+  const server = http.createServer();
+  const port = await listen(server);
+  await close(server);
+  return port;
+}
+
+/**
+ * Send a message through a proxy forwarding to an upstream URL, returning the
+ * path the upstream was asked for
+ */
+async function forwardedPath(upstreamPath: string): Promise<string> {
+  const paths: string[] = [];
+  const upstream = http.createServer((req, res) => {
+    paths.push(req.url || '');
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5',
+      content: [{ type: 'text', text: 'hi' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    }));
+  });
+  const upstreamPort = await listen(upstream);
+  const { dir, cleanup } = makeTempDir();
+  const port = await freePort();
+  const proxy = new ProxyServer({ port, dataDir: dir, verbose: false, upstream: `http://127.0.0.1:${upstreamPort}${upstreamPath}` });
+
+  try {
+    await proxy.start();
+    const response = await fetch(`http://127.0.0.1:${port}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-sonnet-4-5', max_tokens: 1, messages: [{ role: 'user', content: 'hello' }] }),
+    });
+    assert.equal(response.status, 200);
+    await response.text();
+    return paths[0];
+  } finally {
+    await proxy.stop();
+    await close(upstream);
+    cleanup();
+  }
+}
+
+describe('parseUpstream', () => {
+  it('accepts http and https URLs with a base path', () => {
+    assert.equal(parseUpstream('https://gateway.example.com/anthropic/').pathname, '/anthropic/');
+    assert.equal(parseUpstream('http://localhost:8080').port, '8080');
+  });
+
+  it('rejects other protocols', () => {
+    assert.throws(() => parseUpstream('ftp://example.com'), /Unsupported upstream protocol/);
+  });
+});
+
+describe('ProxyServer upstream', () => {
+  it('forwards to the upstream root without doubling the slash', async () => {
+    assert.equal(await forwardedPath(''), '/v1/messages');
+  });
+
+  it('prefixes the upstream base path', async () => {
+    assert.equal(await forwardedPath('/gateway/'), '/gateway/v1/messages');
+  });
+});
@@ -1,11 +1,30 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
-import { Activity, Zap, MessageSquare, Wrench, Trash2 } from 'lucide-react';
+import { Activity, Zap, MessageSquare, Wrench, Trash2, DollarSign } from 'lucide-react';
 import { Timeline } from './components/Timeline';
 import { TokenChart } from './components/TokenChart';
 import { ToolAnalysis } from './components/ToolAnalysis';
+import { ToolSchemasView } from './components/ToolSchemasView';
 import { SystemPromptView } from './components/SystemPromptView';
 import { DetailPanel } from './components/DetailPanel';
-import type { RequestResponsePair } from './types';
+import { SessionPicker } from './components/SessionPicker';
+import { LatencyWaterfall } from './components/LatencyWaterfall';
+import { ErrorsView } from './components/ErrorsView';
+import { ContextView } from './components/ContextView';
+import { CacheView } from './components/CacheView';
+import { SearchBox } from './components/SearchBox';
+import { formatCost } from './lib/utils';
+import type { CaptureSummary, SearchHit, SearchLocation, Session, ServerStats, SubagentCall } from './types';
+
+// Captures are listed from summary pages; full bodies are fetched per capture
+const PAGE_SIZE = 500;
+
+// Merge a page into the list, dropping captures already added by live updates
+function mergeSummaries(prev: CaptureSummary[], page: CaptureSummary[]): CaptureSummary[] {
+  const ids = new Set(page.map((p) => p.request.id));
+  return [...prev.filter((p) => !ids.has(p.request.id)), ...page].sort(
+    (a, b) => a.request.timestamp.localeCompare(b.request.timestamp) || a.request.id.localeCompare(b.request.id)
+  );
+}
 
 function StatItem({ icon, value, label }: { icon: React.ReactNode; value: string; label: string }) {
   return (
@@ -20,27 +39,101 @@ function StatItem({ icon, value, label }: { icon: React.ReactNode; value: string
 }
 
 function App() {
-  const [pairs, setPairs] = useState<RequestResponsePair[]>([]);
+  const [pairs, setPairs] = useState<CaptureSummary[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [subagents, setSubagents] = useState<SubagentCall[]>([]);
+  const [serverStats, setServerStats] = useState<ServerStats | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [focus, setFocus] = useState<SearchLocation | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'timeline' | 'system' | 'tokens' | 'tools'>('timeline');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [activeTab, setActiveTab] = useState<'timeline' | 'system' | 'tokens' | 'tools' | 'schemas' | 'latency' | 'errors' | 'context'>('timeline');
 
+  // Fetch one page of summaries, from the start or after a cursor
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams({ view: 'summary', limit: String(PAGE_SIZE) });
+    if (cursor) params.set('cursor', cursor);
+    const res = await fetch(`/api/captures?${params}`);
+    const page: CaptureSummary[] = await res.json();
+    setPairs((prev) => mergeSummaries(prev, page));
+    setNextCursor(res.headers.get('X-Next-Cursor'));
+  }, []);
+
+  // Only the first page is loaded up front; the rest follow on demand
   const fetchData = useCallback(async () => {
     try {
-      const res = await fetch('/api/captures');
-      const data = await res.json();
-      setPairs(data);
+      await fetchPage(null);
     } catch (error) {
       console.error('Failed to fetch data:', error);
     } finally {
       setLoading(false);
     }
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      await fetchPage(nextCursor);
+    } catch (error) {
+      console.error('Failed to fetch more captures:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, fetchPage]);
+
+  // Load the next page once the timeline is scrolled near its end
+  const handleTimelineScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const el = event.currentTarget;
+    if (el.scrollHeight - el.scrollTop - el.clientHeight < 200) loadMore();
+  };
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sessions');
+      setSessions(await res.json());
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+    }
+  }, []);
+
+  const fetchSubagents = useCallback(async () => {
+    try {
+      const res = await fetch('/api/subagents');
+      setSubagents(await res.json());
+    } catch (error) {
+      console.error('Failed to fetch subagents:', error);
+    }
   }, []);
 
+  const fetchStats = useCallback(async () => {
+    try {
+      const query = selectedSessionId ? `?session=${encodeURIComponent(selectedSessionId)}` : '';
+      const res = await fetch(`/api/stats${query}`);
+      setServerStats(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Failed to fetch stats:', error);
+    }
+  }, [selectedSessionId]);
+
+  // Re-thread sessions and subagents and re-price shortly after captures change, batching bursts of live updates
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetchSessions();
+      fetchSubagents();
+      fetchStats();
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [pairs, fetchSessions, fetchSubagents, fetchStats]);
+
   useEffect(() => {
     fetchData();
 
-    const ws = new WebSocket(`ws://${window.location.hostname}:3456`);
+    // Same origin as the page: the proxy server itself, or the Vite dev server proxying /ws
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
 
     ws.onmessage = (event) => {
       const message = JSON.parse(event.data);
@@ -48,13 +141,13 @@ function App() {
       if (message.type === 'request') {
         setPairs((prev) => [
           ...prev,
-          { request: message.data, response: null },
+          { request: message.summary, response: null },
         ]);
       } else if (message.type === 'response') {
         setPairs((prev) =>
           prev.map((pair) =>
-            pair.request.id === message.data.request_id
-              ? { ...pair, response: message.data }
+            pair.request.id === message.summary.request_id
+              ? { ...pair, response: message.summary }
               : pair
           )
         );
@@ -70,7 +163,14 @@ function App() {
     };
   }, [fetchData]);
 
-  const selectedPair = useMemo(() => {
+  const visiblePairs = useMemo(() => {
+    const session = sessions.find((s) => s.id === selectedSessionId);
+    if (!session) return pairs;
+    const ids = new Set(session.requestIds);
+    return pairs.filter((p) => ids.has(p.request.id));
+  }, [pairs, sessions, selectedSessionId]);
+
+  const selectedSummary = useMemo(() => {
     return pairs.find((p) => p.request.id === selectedId) || null;
   }, [pairs, selectedId]);
 
@@ -79,21 +179,39 @@ function App() {
     let totalOutput = 0;
     let totalTools = 0;
 
-    for (const pair of pairs) {
+    for (const pair of visiblePairs) {
       if (pair.response) {
         totalInput += pair.response.usage.input_tokens;
         totalOutput += pair.response.usage.output_tokens;
-        totalTools += pair.response.content.filter((b) => b.type === 'tool_use').length;
+        totalTools += pair.response.toolUses.filter((t) => !t.server).length;
       }
     }
 
-    return { requests: pairs.length, totalInput, totalOutput, totalTools };
-  }, [pairs]);
+    return { requests: visiblePairs.length, totalInput, totalOutput, totalTools };
+  }, [visiblePairs]);
+
+  const selectPair = useCallback((id: string | null) => {
+    setSelectedId(id);
+    setFocus(null);
+  }, []);
+
+  // Open the matching call and point DetailPanel at the matching block
+  const handleSearchSelect = (hit: SearchHit) => {
+    if (!visiblePairs.some((p) => p.request.id === hit.requestId)) {
+      setSelectedSessionId(null);
+    }
+    setSelectedId(hit.requestId);
+    setFocus(hit.location);
+  };
 
   const handleClear = async () => {
     if (confirm('Are you sure you want to clear all captured data?')) {
       await fetch('/api/captures', { method: 'DELETE' });
       setPairs([]);
+      setNextCursor(null);
+      setSessions([]);
+      setSubagents([]);
+      setSelectedSessionId(null);
       setSelectedId(null);
     }
   };
@@ -110,7 +228,11 @@ function App() {
     { id: 'timeline' as const, label: 'Timeline' },
     { id: 'system' as const, label: 'System Prompt' },
     { id: 'tokens' as const, label: 'Token Usage' },
+    { id: 'context' as const, label: 'Context' },
     { id: 'tools' as const, label: 'Tool Analysis' },
+    { id: 'schemas' as const, label: 'Tool Schemas' },
+    { id: 'latency' as const, label: 'Latency' },
+    { id: 'errors' as const, label: serverStats?.errors.errors ? `Errors (${serverStats.errors.errors})` : 'Errors' },
   ];
 
   return (
@@ -146,6 +268,11 @@ function App() {
             value={String(stats.totalTools)}
             label="Tool Calls"
           />
+          <StatItem
+            icon={<DollarSign size={16} />}
+            value={serverStats ? formatCost(serverStats.cost.total) : '—'}
+            label="Est. Cost"
+          />
         </div>
 
         <button
@@ -158,7 +285,7 @@ function App() {
       </header>
 
       {/* Tabs */}
-      <div className="border-b border-border px-6">
+      <div className="border-b border-border px-6 flex items-center justify-between">
         <nav className="flex gap-0">
           {tabs.map((tab) => (
             <button
@@ -174,6 +301,10 @@ function App() {
             </button>
           ))}
         </nav>
+        <div className="flex items-center gap-3">
+          <SearchBox onSelect={handleSearchSelect} />
+          <SessionPicker sessions={sessions} selectedId={selectedSessionId} onSelect={setSelectedSessionId} />
+        </div>
       </div>
 
       {/* Content */}
@@ -183,11 +314,20 @@ function App() {
             <div className="px-4 py-3 border-b border-border flex items-center justify-between">
               <span className="text-sm font-medium">API Call Timeline</span>
               <span className="text-xs text-muted-foreground font-mono bg-secondary px-2 py-0.5 rounded">
-                {pairs.length} calls
+                {visiblePairs.length}{nextCursor ? '+' : ''} calls
               </span>
             </div>
-            <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
-              <Timeline pairs={pairs} selectedId={selectedId} onSelect={setSelectedId} />
+            <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto" onScroll={handleTimelineScroll}>
+              <Timeline pairs={visiblePairs} subagents={subagents} selectedId={selectedId} onSelect={selectPair} />
+              {nextCursor && (
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="mt-3 w-full py-2 text-xs font-mono rounded-md border border-dashed border-border text-muted-foreground hover:text-foreground transition-colors cursor-pointer disabled:cursor-default"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -198,7 +338,7 @@ function App() {
               <span className="text-sm font-medium">System Prompt Analysis</span>
             </div>
             <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
-              <SystemPromptView pairs={pairs} />
+              <SystemPromptView pairs={visiblePairs} />
             </div>
           </div>
         )}
@@ -209,7 +349,19 @@ function App() {
               <span className="text-sm font-medium">Token Usage Statistics</span>
             </div>
             <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
-              <TokenChart pairs={pairs} />
+              <TokenChart pairs={visiblePairs} />
+              <CacheView sessionId={selectedSessionId} selectedId={selectedId} onSelect={selectPair} />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'context' && (
+          <div className="rounded-lg border border-border">
+            <div className="px-4 py-3 border-b border-border">
+              <span className="text-sm font-medium">Context Window</span>
+            </div>
+            <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
+              <ContextView sessionId={selectedSessionId} selectedId={selectedId} onSelect={selectPair} />
             </div>
           </div>
         )}
@@ -220,14 +372,57 @@ function App() {
               <span className="text-sm font-medium">Tool Usage Analysis</span>
             </div>
             <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
-              <ToolAnalysis pairs={pairs} />
+              <ToolAnalysis pairs={visiblePairs} />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'schemas' && (
+          <div className="rounded-lg border border-border">
+            <div className="px-4 py-3 border-b border-border">
+              <span className="text-sm font-medium">Tool Schemas</span>
+            </div>
+            <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
+              <ToolSchemasView />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'latency' && (
+          <div className="rounded-lg border border-border">
+            <div className="px-4 py-3 border-b border-border">
+              <span className="text-sm font-medium">Response Latency</span>
+            </div>
+            <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
+              <LatencyWaterfall
+                pairs={visiblePairs}
+                latency={serverStats?.latency}
+                selectedId={selectedId}
+                onSelect={selectPair}
+              />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'errors' && (
+          <div className="rounded-lg border border-border">
+            <div className="px-4 py-3 border-b border-border">
+              <span className="text-sm font-medium">Errors &amp; Rate Limits</span>
+            </div>
+            <div className="p-4 max-h-[calc(100vh-250px)] overflow-y-auto">
+              <ErrorsView
+                pairs={visiblePairs}
+                summary={serverStats?.errors}
+                selectedId={selectedId}
+                onSelect={selectPair}
+              />
             </div>
           </div>
         )}
       </main>
 
-      {selectedId && (
-        <DetailPanel pair={selectedPair} onClose={() => setSelectedId(null)} />
+      {selectedSummary && (
+        <DetailPanel summary={selectedSummary} focus={focus} onClose={() => selectPair(null)} />
       )}
     </div>
   );
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { cn, formatCost, formatDuration } from '@/lib/utils';
+import type { CacheSummary } from '../types';
+
+interface CacheViewProps {
+  sessionId: string | null;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+// Requests charted, most recent last
+const MAX_BARS = 60;
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(2)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return tokens.toString();
+}
+
+export const CacheView: React.FC<CacheViewProps> = ({ sessionId, selectedId, onSelect }) => {
+  const [cache, setCache] = useState<CacheSummary | null>(null);
+
+  useEffect(() => {
+    const query = sessionId ? `?session=${encodeURIComponent(sessionId)}` : '';
+    fetch(`/api/cache${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setCache)
+      .catch((error) => console.error('Failed to fetch cache analysis:', error));
+  }, [sessionId]);
+
+  if (!cache || cache.requests === 0) {
+    return null;
+  }
+
+  const chartData = cache.perRequest.slice(-MAX_BARS).map((info, index) => ({
+    name: `#${cache.perRequest.length - Math.min(MAX_BARS, cache.perRequest.length) + index + 1}`,
+    requestId: info.requestId,
+    read: info.cacheReadTokens,
+    written: info.cacheCreationTokens,
+    uncached: info.promptTokens - info.cacheReadTokens - info.cacheCreationTokens,
+  }));
+  const misses = cache.perRequest.filter((info) => info.miss).slice(-20).reverse();
+
+  const tooltipStyle = {
+    background: '#18181b',
+    border: '1px solid #27272a',
+    borderRadius: '6px',
+    fontSize: '0.75rem',
+  };
+
+  const statCards = [
+    { label: 'Hit Rate', value: `${(cache.hitRate * 100).toFixed(1)}%`, color: 'text-amber-400' },
+    { label: 'With Breakpoints', value: `${cache.withBreakpoints}/${cache.requests}`, color: 'text-foreground' },
+    { label: 'Misses', value: cache.misses.toLocaleString(), color: 'text-red-400' },
+    { label: 'Miss Cost', value: formatCost(cache.lostCost), color: 'text-violet-400' },
+  ];
+
+  return (
+    <div className="mt-8">
+      <h4 className="text-sm font-medium text-muted-foreground mb-3">Prompt Cache</h4>
+
+      <div className="grid grid-cols-4 gap-3 mb-6">
+        {statCards.map((card) => (
+          <div key={card.label} className="text-center p-3 rounded-lg border border-border bg-card">
+            <div className={`text-xl font-semibold font-mono ${card.color}`}>{card.value}</div>
+            <div className="text-xs text-muted-foreground mt-1">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={180}>
+        <BarChart
+          data={chartData}
+          onClick={(state) => {
+            const index = state?.activeTooltipIndex;
+            if (typeof index === 'number' && chartData[index]) onSelect(chartData[index].requestId);
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+          <XAxis dataKey="name" stroke="#71717a" fontSize={11} />
+          <YAxis stroke="#71717a" fontSize={11} tickFormatter={formatTokens} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value: number) => formatTokens(value)}
+            labelStyle={{ color: '#a1a1aa' }}
+          />
+          <Legend wrapperStyle={{ fontSize: '0.7rem' }} />
+          <Bar dataKey="read" fill="#f59e0b" name="Cache Read" stackId="a" />
+          <Bar dataKey="written" fill="#8b5cf6" name="Cache Write" stackId="a" />
+          <Bar dataKey="uncached" fill="#3b82f6" name="Uncached" stackId="a" />
+        </BarChart>
+      </ResponsiveContainer>
+
+      {misses.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-muted-foreground mb-2">Recent cache misses</h4>
+          <div className="flex flex-col gap-1">
+            {misses.map((info) => {
+              const miss = info.miss!;
+              return (
+                <div
+                  key={info.requestId}
+                  onClick={() => onSelect(info.requestId)}
+                  className={cn(
+                    'px-3 py-2 rounded-md cursor-pointer transition-colors border',
+                    selectedId === info.requestId ? 'bg-accent border-border' : 'border-transparent hover:bg-accent/50'
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-muted-foreground">
+                        {new Date(info.timestamp).toLocaleTimeString()}
+                      </span>
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-red-500/10 text-red-400">{miss.reason}</span>
+                      <span className="text-xs text-muted-foreground">{info.agentType}</span>
+                    </div>
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {miss.divergence
+                        ? `${miss.divergence.location}:${miss.divergence.offset}`
+                        : `after ${formatDuration(miss.gapMs)}`}
+                      {' · '}
+                      {formatTokens(miss.lostTokens)} re-written · {formatCost(miss.lostCost)}
+                    </span>
+                  </div>
+                  {miss.divergence && (
+                    <div className="mt-1 text-xs font-mono truncate">
+                      <div className="text-red-400 truncate">- {miss.divergence.before}</div>
+                      <div className="text-emerald-400 truncate">+ {miss.divergence.after}</div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { cn } from '@/lib/utils';
+import type { SessionContext } from '../types';
+
+interface ContextViewProps {
+  /** Session to chart; the most recent one when null */
+  sessionId: string | null;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(2)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return tokens.toString();
+}
+
+export const ContextView: React.FC<ContextViewProps> = ({ sessionId, selectedId, onSelect }) => {
+  const [contexts, setContexts] = useState<SessionContext[] | null>(null);
+
+  useEffect(() => {
+    const query = sessionId ? `?session=${encodeURIComponent(sessionId)}` : '';
+    fetch(`/api/context${query}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setContexts)
+      .catch((error) => console.error('Failed to fetch context analysis:', error));
+  }, [sessionId]);
+
+  if (!contexts) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">Loading context analysis...</div>;
+  }
+
+  const context = contexts[contexts.length - 1];
+  if (!context) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">No turns with token usage recorded</div>;
+  }
+
+  const latest = context.turns[context.turns.length - 1];
+  const limit = Math.max(...context.turns.map((turn) => turn.limit));
+  const chartData = context.turns.map((turn, index) => ({
+    turn: index + 1,
+    requestId: turn.requestId,
+    system: turn.system,
+    tools: turn.tools,
+    history: turn.history,
+  }));
+  const compactedTurns = new Map(
+    context.compactions.map((event) => [context.turns.findIndex((turn) => turn.requestId === event.requestId) + 1, event])
+  );
+
+  const tooltipStyle = {
+    background: '#18181b',
+    border: '1px solid #27272a',
+    borderRadius: '6px',
+    fontSize: '0.75rem',
+  };
+
+  const statCards = [
+    { label: 'Turns', value: context.turns.length.toLocaleString(), color: 'text-foreground' },
+    { label: 'Peak', value: `${formatTokens(context.peak)} (${((context.peak / limit) * 100).toFixed(0)}%)`, color: 'text-amber-400' },
+    { label: 'Latest', value: `${formatTokens(latest.total)} (${((latest.total / latest.limit) * 100).toFixed(0)}%)`, color: 'text-blue-400' },
+    { label: 'Compactions', value: context.compactions.length.toLocaleString(), color: 'text-violet-400' },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-muted-foreground">
+          Prompt tokens per turn
+          <span className="font-mono ml-2">{context.agentType} · session {context.sessionId.slice(0, 8)}</span>
+        </h4>
+        {!sessionId && contexts.length > 1 && (
+          <span className="text-xs text-muted-foreground">Latest of {contexts.length} sessions; pick one above to switch</span>
+        )}
+      </div>
+
+      <ResponsiveContainer width="100%" height={260}>
+        <AreaChart
+          data={chartData}
+          onClick={(state) => {
+            const index = state?.activeTooltipIndex;
+            if (typeof index === 'number' && chartData[index]) onSelect(chartData[index].requestId);
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+          <XAxis dataKey="turn" stroke="#71717a" fontSize={11} />
+          <YAxis stroke="#71717a" fontSize={11} tickFormatter={formatTokens} domain={[0, limit]} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value: number) => formatTokens(value)}
+            labelFormatter={(turn) => `Turn ${turn}${compactedTurns.has(Number(turn)) ? ' (after compaction)' : ''}`}
+            labelStyle={{ color: '#a1a1aa' }}
+          />
+          <Legend wrapperStyle={{ fontSize: '0.7rem' }} />
+          <Area type="stepAfter" dataKey="system" name="System prompt" stackId="a" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.5} />
+          <Area type="stepAfter" dataKey="tools" name="Tools" stackId="a" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.5} />
+          <Area type="stepAfter" dataKey="history" name="History" stackId="a" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.5} />
+          <ReferenceLine y={limit} stroke="#ef4444" strokeDasharray="4 4" label={{ value: `${formatTokens(limit)} limit`, fill: '#ef4444', fontSize: 10, position: 'insideTopRight' }} />
+          {Array.from(compactedTurns.keys()).map((turn) => (
+            <ReferenceLine key={turn} x={turn} stroke="#a78bfa" strokeDasharray="2 2" />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+      <p className="text-xs text-muted-foreground mt-1">
+        Input, cache read and cache write tokens, split between system prompt, tools and history by their share of the request body.
+      </p>
+
+      <div className="grid grid-cols-4 gap-3 mt-6">
+        {statCards.map((card) => (
+          <div key={card.label} className="text-center p-3 rounded-lg border border-border bg-card">
+            <div className={`text-xl font-semibold font-mono ${card.color}`}>{card.value}</div>
+            <div className="text-xs text-muted-foreground mt-1">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {context.compactions.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-muted-foreground mb-2">Compactions</h4>
+          <div className="flex flex-col gap-1">
+            {context.compactions.map((event) => (
+              <div
+                key={event.requestId}
+                onClick={() => onSelect(event.requestId)}
+                className={cn(
+                  'flex items-center justify-between px-3 py-2 rounded-md cursor-pointer transition-colors border',
+                  selectedId === event.requestId ? 'bg-accent border-border' : 'border-transparent hover:bg-accent/50'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {new Date(event.timestamp).toLocaleString()}
+                  </span>
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-violet-500/10 text-violet-400">{event.kind}</span>
+                </div>
+                <span className="text-xs font-mono text-muted-foreground">
+                  history {formatTokens(event.historyBefore)} → {formatTokens(event.historyAfter)} at{' '}
+                  {(event.usageBefore * 100).toFixed(0)}% of the limit
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
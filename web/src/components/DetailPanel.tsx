@@ -1,16 +1,45 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Markdown from 'react-markdown';
 import { X, ChevronDown } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import type { RequestResponsePair, TextContent, ToolUseContent, ToolResultContent, ContentBlock, SystemPrompt } from '../types';
+import { cn, fetchCapture, formatDuration, getAgentLabel, getLatencyPhases } from '@/lib/utils';
+import type {
+  CaptureSummary,
+  RequestResponsePair,
+  TextContent,
+  ToolUseContent,
+  ToolResultContent,
+  ThinkingContent,
+  RedactedThinkingContent,
+  ServerToolUseContent,
+  WebSearchToolResultContent,
+  WebFetchToolResultContent,
+  Citation,
+  ContentBlock,
+  SearchLocation,
+  SystemPrompt,
+} from '../types';
 import { JsonViewer } from './JsonViewer';
 import { CopyRichTextButton } from './CopyRichTextButton';
+import { LatencyBar, LatencyLegend } from './LatencyWaterfall';
 
 interface DetailPanelProps {
-  pair: RequestResponsePair | null;
+  summary: CaptureSummary;
+  /** Block to scroll to, e.g. a search match */
+  focus?: SearchLocation | null;
   onClose: () => void;
 }
 
+function locationKey(location: SearchLocation): string {
+  switch (location.kind) {
+    case 'system':
+      return 'system';
+    case 'message':
+      return `m${location.message}.${location.block}`;
+    case 'response':
+      return `r.${location.block}`;
+  }
+}
+
 function extractSystemPromptText(system: SystemPrompt[] | undefined): string {
   if (!system) return '';
   return system
@@ -27,22 +56,6 @@ function extractMessageText(content: string | ContentBlock[]): string {
     .join('\n\n');
 }
 
-function getAgentLabel(system: SystemPrompt[] | undefined): string {
-  const text = extractSystemPromptText(system);
-  const length = text.length;
-
-  if (!text) return 'Unknown';
-  if (text.includes('isNewTopic') || text.includes('new conversation topic')) return 'Title Generator';
-  if (text.includes('You are an exploration agent') || text.includes('exploring codebases')) return 'Explore Agent';
-  if (text.includes('You are a planning agent') || text.includes('planning the implementation')) return 'Plan Agent';
-  if (text.includes('code review') || text.includes('Code review')) return 'Code Review Agent';
-  if (text.includes('Bash agent') || text.includes('bash commands')) return 'Bash Agent';
-  if (length < 15000 && !text.includes('You are Claude Code, Anthropic\'s official CLI')) return 'Sub-agent';
-  if (text.includes('Claude Code, Anthropic\'s official CLI') && length > 20000) return 'Main Agent';
-  if (length < 2000) return 'Short Prompt';
-  return 'Agent';
-}
-
 function ViewToggle({ mode, onChange }: { mode: 'preview' | 'raw'; onChange: (m: 'preview' | 'raw') => void }) {
   return (
     <div className="flex rounded-md bg-secondary p-0.5">
@@ -77,86 +90,263 @@ function TokenCard({ label, value, color }: { label: string; value: string; colo
   );
 }
 
-function formatContent(content: string | ContentBlock[], useMarkdown: boolean = true): React.ReactNode {
+function ThinkingBlock({ block, useMarkdown }: { block: ThinkingContent; useMarkdown: boolean }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="my-2 rounded-md bg-secondary/50 border border-border border-l-2 border-l-zinc-500">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-3 py-2 cursor-pointer"
+      >
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium uppercase tracking-wide">Thinking</span>
+          <span className="font-mono">({(block.thinking.length / 1000).toFixed(1)}K chars)</span>
+        </div>
+        <ChevronDown size={14} className={cn('text-muted-foreground transition-transform', expanded && 'rotate-180')} />
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3">
+          {useMarkdown ? (
+            <div className="markdown-preview text-sm text-muted-foreground">
+              <Markdown>{block.thinking}</Markdown>
+            </div>
+          ) : (
+            <div className="whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground">
+              {block.thinking}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CitationList({ citations }: { citations: Citation[] }) {
+  return (
+    <div className="mt-1 mb-2 flex flex-col gap-0.5">
+      {citations.map((citation, i) => (
+        <div key={i} className="text-xs text-muted-foreground truncate">
+          <span className="font-mono text-sky-400">[{i + 1}]</span>{' '}
+          {citation.url ? (
+            <a href={citation.url} target="_blank" rel="noreferrer" className="hover:text-foreground underline">
+              {citation.title || citation.url}
+            </a>
+          ) : (
+            citation.document_title || citation.type
+          )}
+          {citation.cited_text && <span className="italic"> — "{citation.cited_text.slice(0, 120)}"</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatServerToolResult(block: WebSearchToolResultContent | WebFetchToolResultContent): React.ReactNode {
+  if (!Array.isArray(block.content) && block.content.type.endsWith('_error')) {
+    return <span className="text-destructive">Error: {(block.content as { error_code: string }).error_code}</span>;
+  }
+  if (block.type === 'web_search_tool_result' && Array.isArray(block.content)) {
+    return block.content.map((result, i) => (
+      <div key={i} className="truncate">
+        <a href={result.url} target="_blank" rel="noreferrer" className="hover:text-foreground underline">
+          {result.title || result.url}
+        </a>
+      </div>
+    ));
+  }
+  if (block.type === 'web_fetch_tool_result' && !Array.isArray(block.content) && block.content.type === 'web_fetch_result') {
+    return <div className="truncate">Fetched {block.content.url}</div>;
+  }
+  return null;
+}
+
+function formatBlock(block: ContentBlock, useMarkdown: boolean): React.ReactNode {
+  if (block.type === 'text') {
+    const textBlock = block as TextContent;
+    return (
+      <div>
+        {useMarkdown ? (
+          <div className="markdown-preview text-sm">
+            <Markdown>{textBlock.text}</Markdown>
+          </div>
+        ) : (
+          <div className="whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground">
+            {textBlock.text}
+          </div>
+        )}
+        {textBlock.citations && textBlock.citations.length > 0 && <CitationList citations={textBlock.citations} />}
+      </div>
+    );
+  }
+  if (block.type === 'server_tool_use') {
+    const serverToolBlock = block as ServerToolUseContent;
+    return (
+      <div className="my-2 p-3 rounded-md bg-secondary border-l-2 border-sky-500">
+        <div className="text-sm font-mono text-foreground">Server Tool: {serverToolBlock.name}</div>
+        <div className="font-mono text-xs text-muted-foreground mt-1">
+          {JSON.stringify(serverToolBlock.input, null, 2).slice(0, 500)}
+        </div>
+      </div>
+    );
+  }
+  if (block.type === 'web_search_tool_result' || block.type === 'web_fetch_tool_result') {
+    const resultBlock = block as WebSearchToolResultContent | WebFetchToolResultContent;
+    return (
+      <div className="my-2 p-3 rounded-md bg-secondary border-l-2 border-sky-500">
+        <div className="text-xs font-medium uppercase tracking-wide text-sky-400">
+          {block.type === 'web_search_tool_result' ? 'Web Search Results' : 'Web Fetch Result'}
+        </div>
+        <div className="font-mono text-xs text-muted-foreground mt-1">{formatServerToolResult(resultBlock)}</div>
+      </div>
+    );
+  }
+  if (block.type === 'thinking') {
+    return <ThinkingBlock block={block as ThinkingContent} useMarkdown={useMarkdown} />;
+  }
+  if (block.type === 'redacted_thinking') {
+    const redactedBlock = block as RedactedThinkingContent;
+    return (
+      <div className="my-2 px-3 py-2 rounded-md bg-secondary/50 border border-border border-l-2 border-l-zinc-500">
+        <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Thinking (redacted)</span>
+        <span className="text-xs font-mono text-muted-foreground ml-2">{redactedBlock.data.length.toLocaleString()} bytes encrypted</span>
+      </div>
+    );
+  }
+  if (block.type === 'tool_use') {
+    const toolBlock = block as ToolUseContent;
+    return (
+      <div className="my-2 p-3 rounded-md bg-secondary border-l-2 border-blue-500">
+        <div className="text-sm font-mono text-foreground">Tool: {toolBlock.name}</div>
+        <div className="font-mono text-xs text-muted-foreground mt-1">
+          {JSON.stringify(toolBlock.input, null, 2).slice(0, 500)}
+        </div>
+      </div>
+    );
+  }
+  if (block.type === 'tool_result') {
+    const resultBlock = block as ToolResultContent;
+    const resultText = typeof resultBlock.content === 'string'
+      ? resultBlock.content
+      : resultBlock.content.map((c) => c.text || '').join('\n');
+    return (
+      <div
+       
+        className={cn(
+          'my-2 p-3 rounded-md bg-secondary border-l-2',
+          resultBlock.is_error ? 'border-destructive' : 'border-emerald-500'
+        )}
+      >
+        <div className={cn(
+          'text-xs font-medium uppercase tracking-wide',
+          resultBlock.is_error ? 'text-destructive' : 'text-emerald-400'
+        )}>
+          Tool Result {resultBlock.is_error && '(Error)'}
+        </div>
+        <div className="font-mono text-xs text-muted-foreground mt-1">
+          {resultText.slice(0, 500)}
+          {resultText.length > 500 && '...'}
+        </div>
+      </div>
+    );
+  }
+  return null;
+}
+
+// Blocks are tagged with data-block keys so search results can scroll to them
+function formatContent(
+  content: string | ContentBlock[],
+  useMarkdown: boolean = true,
+  blockKey?: (index: number) => string,
+  highlightKey?: string | null
+): React.ReactNode {
+  const highlight = (index: number) => blockKey && blockKey(index) === highlightKey && 'ring-1 ring-amber-400/60 rounded-md';
+
   if (typeof content === 'string') {
     return useMarkdown ? (
-      <div className="markdown-preview text-sm">
+      <div data-block={blockKey?.(0)} className={cn('markdown-preview text-sm', highlight(0))}>
         <Markdown>{content}</Markdown>
       </div>
     ) : (
-      <div className="whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground">
+      <div data-block={blockKey?.(0)} className={cn('whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground', highlight(0))}>
         {content}
       </div>
     );
   }
 
-  return content.map((block, i) => {
-    if (block.type === 'text') {
-      const textBlock = block as TextContent;
-      return useMarkdown ? (
-        <div key={i} className="markdown-preview text-sm">
-          <Markdown>{textBlock.text}</Markdown>
-        </div>
-      ) : (
-        <div key={i} className="whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground">
-          {textBlock.text}
-        </div>
-      );
-    }
-    if (block.type === 'tool_use') {
-      const toolBlock = block as ToolUseContent;
-      return (
-        <div key={i} className="my-2 p-3 rounded-md bg-secondary border-l-2 border-blue-500">
-          <div className="text-sm font-mono text-foreground">Tool: {toolBlock.name}</div>
-          <div className="font-mono text-xs text-muted-foreground mt-1">
-            {JSON.stringify(toolBlock.input, null, 2).slice(0, 500)}
-          </div>
-        </div>
-      );
-    }
-    if (block.type === 'tool_result') {
-      const resultBlock = block as ToolResultContent;
-      const resultText = typeof resultBlock.content === 'string'
-        ? resultBlock.content
-        : resultBlock.content.map((c) => c.text || '').join('\n');
-      return (
-        <div
-          key={i}
-          className={cn(
-            'my-2 p-3 rounded-md bg-secondary border-l-2',
-            resultBlock.is_error ? 'border-destructive' : 'border-emerald-500'
-          )}
-        >
-          <div className={cn(
-            'text-xs font-medium uppercase tracking-wide',
-            resultBlock.is_error ? 'text-destructive' : 'text-emerald-400'
-          )}>
-            Tool Result {resultBlock.is_error && '(Error)'}
-          </div>
-          <div className="font-mono text-xs text-muted-foreground mt-1">
-            {resultText.slice(0, 500)}
-            {resultText.length > 500 && '...'}
-          </div>
-        </div>
-      );
-    }
-    return null;
-  });
+  return content.map((block, i) => (
+    <div key={i} data-block={blockKey?.(i)} className={cn(highlight(i))}>
+      {formatBlock(block, useMarkdown)}
+    </div>
+  ));
 }
 
-export const DetailPanel: React.FC<DetailPanelProps> = ({ pair, onClose }) => {
+export const DetailPanel: React.FC<DetailPanelProps> = ({ summary, focus, onClose }) => {
+  const [pair, setPair] = useState<RequestResponsePair | null>(null);
+  const [missing, setMissing] = useState(false);
   const [tab, setTab] = useState<'conversation' | 'system' | 'tools' | 'raw'>('conversation');
   const [systemExpanded, setSystemExpanded] = useState(false);
   const [systemViewMode, setSystemViewMode] = useState<'preview' | 'raw'>('preview');
   const [conversationSystemViewMode, setConversationSystemViewMode] = useState<'preview' | 'raw'>('preview');
   const [messagesViewMode, setMessagesViewMode] = useState<'preview' | 'raw'>('preview');
 
-  if (!pair) return null;
+  // List views only hold summaries; load the full capture when it is opened,
+  // and again once a pending response arrives
+  const requestId = summary.request.id;
+  const hasResponse = summary.response !== null;
+  useEffect(() => {
+    let cancelled = false;
+    setMissing(false);
+    fetchCapture(requestId)
+      .then((full) => {
+        if (cancelled) return;
+        setPair(full);
+        setMissing(!full);
+      })
+      .catch((error) => console.error('Failed to fetch capture:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, hasResponse]);
+
+  const focusKey = focus ? locationKey(focus) : null;
+  const loaded = !!pair && pair.request.id === requestId;
+  useEffect(() => {
+    if (!focus || !loaded) return;
+    setTab('conversation');
+    if (focus.kind === 'system') setSystemExpanded(true);
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-block="${focusKey}"]`)?.scrollIntoView({ block: 'center' });
+    });
+  }, [focusKey, loaded, requestId]);
+
+  if (!loaded) {
+    return (
+      <div className="fixed right-0 top-0 w-1/2 h-screen bg-background border-l border-border z-50 flex flex-col">
+        <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+          <span className="text-sm font-medium">API Call Details</span>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-md hover:bg-accent transition-colors cursor-pointer text-muted-foreground hover:text-foreground"
+          >
+            <X size={18} />
+          </button>
+        </div>
+        <div className="text-center py-8 text-muted-foreground text-sm">
+          {/* Replayed traffic is broadcast live but never stored */}
+          {missing ? 'Capture not found in storage' : 'Loading capture...'}
+        </div>
+      </div>
+    );
+  }
 
   const { request, response } = pair;
   const systemPromptText = extractSystemPromptText(request.system);
-  const agentLabel = getAgentLabel(request.system);
-  const toolUses = response?.content.filter((b): b is ToolUseContent => b.type === 'tool_use') || [];
+  const agentLabel = getAgentLabel(summary.request.agentType);
+  const latencyPhases = response ? getLatencyPhases(response) : null;
+  const toolUses = response?.content.filter(
+    (b): b is ToolUseContent | ServerToolUseContent => b.type === 'tool_use' || b.type === 'server_tool_use'
+  ) || [];
 
   const detailTabs = [
     { id: 'conversation' as const, label: 'Conversation' },
@@ -214,7 +404,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ pair, onClose }) => {
           <>
             {/* System prompt collapsible */}
             {systemPromptText && (
-              <div className="mb-4">
+              <div data-block="system" className={cn('mb-4', focusKey === 'system' && 'ring-1 ring-amber-400/60 rounded-md')}>
                 <button
                   onClick={() => setSystemExpanded(!systemExpanded)}
                   className="w-full flex items-center justify-between px-3 py-2 rounded-md bg-secondary/50 border border-border cursor-pointer hover:bg-accent transition-colors"
@@ -264,7 +454,7 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ pair, onClose }) => {
                       <CopyRichTextButton markdownText={extractMessageText(msg.content)} size={12} />
                     )}
                   </div>
-                  {formatContent(msg.content, messagesViewMode === 'preview')}
+                  {formatContent(msg.content, messagesViewMode === 'preview', (j) => `m${i}.${j}`, focusKey)}
                 </div>
               ))}
             </div>
@@ -273,15 +463,44 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ pair, onClose }) => {
             {response && (
               <div className="mb-4">
                 <h3 className="text-sm font-medium mb-2">Response</h3>
+                {response.error && (
+                  <div className="mb-2 p-3 rounded-md border border-red-500/30 bg-red-500/10">
+                    <div className="text-xs font-mono text-red-400">
+                      {response.status && response.status >= 400 ? `${response.status} ` : ''}{response.error.type}
+                      {response.headers?.['retry-after'] && ` · retry-after ${response.headers['retry-after']}s`}
+                    </div>
+                    {response.error.message && (
+                      <div className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap break-words">{response.error.message}</div>
+                    )}
+                  </div>
+                )}
                 <div className="p-3 rounded-md border border-border bg-card">
                   <div className="text-xs font-medium uppercase tracking-wide mb-1 text-violet-400">assistant</div>
-                  {formatContent(response.content, messagesViewMode === 'preview')}
+                  {formatContent(response.content, messagesViewMode === 'preview', (j) => `r.${j}`, focusKey)}
                 </div>
                 <div className="mt-2 text-xs text-muted-foreground font-mono">
                   Stop reason: <span className="text-foreground">{response.stop_reason}</span>
                   {' | '}
                   Duration: <span className="text-foreground">{response.duration_ms}ms</span>
+                  {response.timing && (
+                    <>
+                      {' | '}
+                      TTFB: <span className="text-foreground">{formatDuration(response.timing.ttfb_ms)}</span>
+                    </>
+                  )}
+                  {response.timing?.first_content_ms !== undefined && (
+                    <>
+                      {' | '}
+                      First token: <span className="text-foreground">{formatDuration(response.timing.first_content_ms)}</span>
+                    </>
+                  )}
                 </div>
+                {latencyPhases && (
+                  <div className="mt-2 space-y-1.5">
+                    <LatencyBar phases={latencyPhases} scale={response.duration_ms || 1} />
+                    <LatencyLegend />
+                  </div>
+                )}
               </div>
             )}
 
@@ -341,8 +560,19 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ pair, onClose }) => {
               <div className="text-center py-8 text-muted-foreground text-sm">No tool calls in this request</div>
             ) : (
               toolUses.map((tool, i) => (
-                <div key={i} className="mb-3 p-3 rounded-md border border-border bg-card border-l-2 border-l-blue-500">
-                  <div className="text-sm font-mono font-medium">{tool.name}</div>
+                <div
+                  key={i}
+                  className={cn(
+                    'mb-3 p-3 rounded-md border border-border bg-card border-l-2',
+                    tool.type === 'server_tool_use' ? 'border-l-sky-500' : 'border-l-blue-500'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono font-medium">{tool.name}</span>
+                    {tool.type === 'server_tool_use' && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-sky-500/10 text-sky-400">server</span>
+                    )}
+                  </div>
                   <div className="mt-2">
                     <div className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Input:</div>
                     <pre className="bg-secondary p-2 rounded text-xs font-mono overflow-auto max-h-48 text-muted-foreground">
@@ -0,0 +1,89 @@
+import { Fragment } from 'react';
+import { cn } from '@/lib/utils';
+import type { DiffHunk } from '../types';
+
+interface DiffCell {
+  line: number;
+  text: string;
+  changed: boolean;
+}
+
+interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+// Lay a hunk out side by side, pairing deleted lines with the inserted lines that replace them
+function toRows(hunk: DiffHunk): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let left = hunk.fromCount === 0 ? hunk.fromStart + 1 : hunk.fromStart;
+  let right = hunk.toCount === 0 ? hunk.toStart + 1 : hunk.toStart;
+  let deleted: DiffCell[] = [];
+  let inserted: DiffCell[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      rows.push({ left: deleted[i] || null, right: inserted[i] || null });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'delete') {
+      deleted.push({ line: left++, text: line.text, changed: true });
+    } else if (line.type === 'insert') {
+      inserted.push({ line: right++, text: line.text, changed: true });
+    } else {
+      flush();
+      rows.push({
+        left: { line: left++, text: line.text, changed: false },
+        right: { line: right++, text: line.text, changed: false },
+      });
+    }
+  }
+  flush();
+  return rows;
+}
+
+function Cell({ cell, side }: { cell: DiffCell | null; side: 'left' | 'right' }) {
+  return (
+    <>
+      <td className="w-10 px-2 text-right text-muted-foreground/60 select-none align-top border-r border-border">
+        {cell?.line}
+      </td>
+      <td
+        className={cn(
+          'px-2 whitespace-pre-wrap break-words align-top w-1/2',
+          !cell && 'bg-secondary/30',
+          cell?.changed && (side === 'left' ? 'bg-red-500/10 text-red-300' : 'bg-emerald-500/10 text-emerald-300')
+        )}
+      >
+        {cell?.text}
+      </td>
+    </>
+  );
+}
+
+/** Side-by-side rendering of unified diff hunks, old text on the left */
+export const DiffTable: React.FC<{ hunks: DiffHunk[] }> = ({ hunks }) => (
+  <table className="w-full table-fixed font-mono text-xs">
+    <tbody>
+      {hunks.map((hunk, j) => (
+        <Fragment key={j}>
+          <tr className="bg-sky-500/5 text-sky-400">
+            <td colSpan={4} className="px-2 py-0.5">
+              @@ -{hunk.fromStart},{hunk.fromCount} +{hunk.toStart},{hunk.toCount} @@
+            </td>
+          </tr>
+          {toRows(hunk).map((row, k) => (
+            <tr key={k}>
+              <Cell cell={row.left} side="left" />
+              <Cell cell={row.right} side="right" />
+            </tr>
+          ))}
+        </Fragment>
+      ))}
+    </tbody>
+  </table>
+);
@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { cn, isErrorResponse } from '@/lib/utils';
+import type { CaptureSummary, ErrorSummary } from '../types';
+
+interface ErrorsViewProps {
+  pairs: CaptureSummary[];
+  summary?: ErrorSummary;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export const ErrorsView: React.FC<ErrorsViewProps> = ({ pairs, summary, selectedId, onSelect }) => {
+  const failed = useMemo(() => {
+    return pairs.filter((p) => p.response && isErrorResponse(p.response)).reverse();
+  }, [pairs]);
+
+  const responded = pairs.filter((p) => p.response).length;
+
+  const tooltipStyle = {
+    background: '#18181b',
+    border: '1px solid #27272a',
+    borderRadius: '6px',
+    fontSize: '0.75rem',
+  };
+
+  const statCards = [
+    { label: 'Failed Responses', value: String(failed.length), color: 'text-red-400' },
+    {
+      label: 'Error Rate',
+      value: responded > 0 ? `${((failed.length / responded) * 100).toFixed(1)}%` : '—',
+      color: 'text-foreground',
+    },
+    { label: 'Rate Limited (429)', value: String(summary?.rateLimited ?? 0), color: 'text-amber-400' },
+    { label: 'Overloaded (529)', value: String(summary?.overloaded ?? 0), color: 'text-orange-400' },
+  ];
+
+  const dayData = (summary?.byDay || []).map((d) => ({
+    day: d.day,
+    rateLimited: d.rateLimited,
+    overloaded: d.overloaded,
+    other: d.errors - d.rateLimited - d.overloaded,
+  }));
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-3 mb-6">
+        {statCards.map((card) => (
+          <div key={card.label} className="text-center p-3 rounded-lg border border-border bg-card">
+            <div className={`text-xl font-semibold font-mono ${card.color}`}>{card.value}</div>
+            <div className="text-xs text-muted-foreground mt-1">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {summary && summary.errors > 0 && (
+        <div className="grid grid-cols-3 gap-6 mb-6">
+          <div className="col-span-2">
+            <h4 className="text-sm font-medium text-muted-foreground mb-3">Errors by Day</h4>
+            <ResponsiveContainer width="100%" height={180}>
+              <BarChart data={dayData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                <XAxis dataKey="day" stroke="#71717a" fontSize={11} />
+                <YAxis stroke="#71717a" fontSize={11} allowDecimals={false} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#a1a1aa' }} />
+                <Legend wrapperStyle={{ fontSize: '0.7rem' }} />
+                <Bar dataKey="rateLimited" fill="#f59e0b" name="Rate limited" stackId="a" />
+                <Bar dataKey="overloaded" fill="#f97316" name="Overloaded" stackId="a" />
+                <Bar dataKey="other" fill="#ef4444" name="Other" stackId="a" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground mb-3">By Type</h4>
+            <div className="space-y-1">
+              {summary.byType.map(({ type, count }) => (
+                <div key={type} className="flex items-center justify-between text-xs font-mono">
+                  <span className="text-muted-foreground">{type}</span>
+                  <span>{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {summary?.latestRateLimits && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-muted-foreground mb-2">
+            Rate Limits
+            <span className="ml-2 text-xs font-normal">
+              as of {new Date(summary.latestRateLimits.timestamp).toLocaleString()}
+            </span>
+          </h4>
+          <div className="grid grid-cols-3 gap-2">
+            {Object.entries(summary.latestRateLimits.limits).map(([name, value]) => (
+              <div key={name} className="px-3 py-2 rounded-md border border-border bg-card">
+                <div className="text-xs text-muted-foreground">{name}</div>
+                <div className="text-sm font-mono truncate" title={value}>{value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <h4 className="text-sm font-medium text-muted-foreground mb-2">Failed Requests</h4>
+      {failed.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground text-sm">No errors captured</div>
+      ) : (
+        <div className="space-y-1">
+          {failed.map((pair) => {
+            const response = pair.response!;
+            return (
+              <div
+                key={pair.request.id}
+                onClick={() => onSelect(pair.request.id)}
+                className={cn(
+                  'px-3 py-2 rounded-md cursor-pointer transition-colors border',
+                  selectedId === pair.request.id ? 'bg-accent border-border' : 'border-transparent hover:bg-accent/50'
+                )}
+              >
+                <div className="flex items-center gap-2 text-xs font-mono">
+                  <span className="px-1.5 py-0.5 rounded bg-red-500/10 text-red-400">
+                    {response.status && response.status >= 400 ? response.status : 'stream'}
+                  </span>
+                  <span className="text-foreground">{response.error?.type || 'error'}</span>
+                  <span className="text-muted-foreground">{new Date(response.timestamp).toLocaleString()}</span>
+                  {response.headers?.['retry-after'] && (
+                    <span className="text-amber-400">retry-after {response.headers['retry-after']}s</span>
+                  )}
+                  <span className="ml-auto text-muted-foreground">{pair.request.model}</span>
+                </div>
+                {response.error?.message && (
+                  <div className="text-xs text-muted-foreground mt-1 truncate">{response.error.message}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import { cn, formatDuration, getLatencyPhases, type LatencyPhases } from '@/lib/utils';
+import type { CaptureSummary, LatencySummary, Percentiles } from '../types';
+
+interface LatencyWaterfallProps {
+  pairs: CaptureSummary[];
+  latency?: LatencySummary;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const PHASES: Array<{ key: keyof LatencyPhases; label: string; color: string }> = [
+  { key: 'queue', label: 'Queue', color: 'bg-zinc-500' },
+  { key: 'firstToken', label: 'First token', color: 'bg-amber-400' },
+  { key: 'thinking', label: 'Thinking', color: 'bg-violet-400' },
+  { key: 'generating', label: 'Generating', color: 'bg-emerald-400' },
+  { key: 'tail', label: 'Tail', color: 'bg-blue-400' },
+];
+
+const MAX_ROWS = 200;
+
+/**
+ * One response's phases as a horizontal stacked bar, scaled to `scale` milliseconds
+ */
+export function LatencyBar({ phases, scale }: { phases: LatencyPhases; scale: number }) {
+  return (
+    <div className="flex h-3 w-full rounded-sm overflow-hidden bg-secondary">
+      {PHASES.map(({ key, label, color }) => (
+        phases[key] > 0 && (
+          <div
+            key={key}
+            className={color}
+            style={{ width: `${(phases[key] / scale) * 100}%` }}
+            title={`${label}: ${formatDuration(phases[key])}`}
+          />
+        )
+      ))}
+    </div>
+  );
+}
+
+export function LatencyLegend() {
+  return (
+    <div className="flex items-center gap-3">
+      {PHASES.map(({ key, label, color }) => (
+        <div key={key} className="flex items-center gap-1 text-xs text-muted-foreground">
+          <div className={cn('w-2.5 h-2.5 rounded-sm', color)} />
+          {label}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PercentileRow({ label, stats, unit = 'ms' }: { label: string; stats: Percentiles | null; unit?: string }) {
+  const format = (value: number) => (unit === 'ms' ? formatDuration(value) : `${value.toLocaleString()}${unit}`);
+  return (
+    <tr className="border-t border-border">
+      <td className="py-1.5 pr-4 text-muted-foreground">{label}</td>
+      {stats
+        ? [stats.p50, stats.p90, stats.p99, stats.max].map((value, i) => (
+            <td key={i} className="py-1.5 px-2 text-right font-mono">{format(value)}</td>
+          ))
+        : <td colSpan={4} className="py-1.5 px-2 text-right text-muted-foreground">-</td>}
+    </tr>
+  );
+}
+
+export const LatencyWaterfall: React.FC<LatencyWaterfallProps> = ({ pairs, latency, selectedId, onSelect }) => {
+  const rows = useMemo(() => {
+    return pairs
+      .filter((p) => p.response)
+      .slice(-MAX_ROWS)
+      .map((pair) => ({ pair, phases: getLatencyPhases(pair.response!) }));
+  }, [pairs]);
+
+  const totals = useMemo(() => {
+    const sum: LatencyPhases = { queue: 0, firstToken: 0, thinking: 0, generating: 0, tail: 0 };
+    for (const { phases } of rows) {
+      if (!phases) continue;
+      for (const { key } of PHASES) sum[key] += phases[key];
+    }
+    return sum;
+  }, [rows]);
+
+  if (rows.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">No latency data available</div>;
+  }
+
+  const scale = Math.max(...rows.map(({ pair }) => pair.response!.duration_ms), 1);
+  const totalTime = PHASES.reduce((sum, { key }) => sum + totals[key], 0);
+
+  return (
+    <div>
+      {/* Share of time per phase */}
+      {totalTime > 0 && (
+        <div className="grid grid-cols-5 gap-3 mb-6">
+          {PHASES.map(({ key, label, color }) => (
+            <div key={key} className="p-3 rounded-lg border border-border bg-card">
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <div className={cn('w-2 h-2 rounded-sm', color)} />
+                {label}
+              </div>
+              <div className="text-xl font-semibold font-mono mt-1">
+                {((totals[key] / totalTime) * 100).toFixed(0)}%
+              </div>
+              <div className="text-xs text-muted-foreground font-mono">{formatDuration(totals[key])}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {latency && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-muted-foreground mb-2">Percentiles</h4>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-medium pb-1.5" />
+                {['p50', 'p90', 'p99', 'max'].map((h) => (
+                  <th key={h} className="text-right font-medium pb-1.5 px-2">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <PercentileRow label="Total duration" stats={latency.duration} />
+              <PercentileRow label="Time to first byte" stats={latency.ttfb} />
+              <PercentileRow label="Time to first content" stats={latency.firstContent} />
+              <PercentileRow label="Thinking" stats={latency.thinking} />
+              <PercentileRow label="Generating" stats={latency.generating} />
+              <PercentileRow label="Inter-chunk gap (p95)" stats={latency.interChunkP95} />
+              <PercentileRow label="Output tokens/s" stats={latency.outputTokensPerSecond} unit="" />
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-muted-foreground">Waterfall</h4>
+        <LatencyLegend />
+      </div>
+      <div className="space-y-1">
+        {rows.map(({ pair, phases }) => {
+          const response = pair.response!;
+          return (
+            <div
+              key={pair.request.id}
+              onClick={() => onSelect(pair.request.id)}
+              className={cn(
+                'grid grid-cols-[9rem_1fr_4.5rem] items-center gap-3 px-2 py-1 rounded cursor-pointer hover:bg-accent transition-colors',
+                selectedId === pair.request.id && 'bg-accent'
+              )}
+            >
+              <span className="text-xs font-mono text-muted-foreground truncate">
+                {new Date(pair.request.timestamp).toLocaleTimeString()}
+              </span>
+              <div style={{ width: `${Math.max((response.duration_ms / scale) * 100, 1)}%` }}>
+                {phases ? (
+                  <LatencyBar phases={phases} scale={response.duration_ms || 1} />
+                ) : (
+                  // Non-streaming or older captures only have a total duration
+                  <div className="h-3 w-full rounded-sm bg-secondary-foreground/20" title="No timing breakdown" />
+                )}
+              </div>
+              <span className="text-xs font-mono text-right">{formatDuration(response.duration_ms)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { DiffTable } from './DiffTable';
+import type { PromptDiff, SectionDiff } from '../types';
+
+interface PromptDiffViewProps {
+  from: string;
+  to: string;
+}
+
+const STATUS_STYLES: Record<SectionDiff['status'], string> = {
+  added: 'bg-emerald-500/10 text-emerald-400',
+  removed: 'bg-red-500/10 text-red-400',
+  changed: 'bg-amber-500/10 text-amber-400',
+  unchanged: 'bg-secondary text-muted-foreground',
+};
+
+export const PromptDiffView: React.FC<PromptDiffViewProps> = ({ from, to }) => {
+  const [diff, setDiff] = useState<PromptDiff | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setError(false);
+
+    fetch(`/api/prompts/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data) => {
+        if (!cancelled) setDiff(data);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch prompt diff:', err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  if (error) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">Failed to load diff</div>;
+  }
+  if (!diff) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">Loading diff...</div>;
+  }
+
+  const changedSections = diff.sections.filter((s) => s.status !== 'unchanged');
+  const unchanged = diff.sections.length - changedSections.length;
+
+  return (
+    <div className="max-h-[calc(100vh-300px)] overflow-y-auto">
+      <div className="flex items-center gap-3 mb-3 text-xs font-mono text-muted-foreground">
+        <span className="text-red-400">- {from.slice(0, 8)}</span>
+        <span className="text-emerald-400">+ {to.slice(0, 8)}</span>
+        <span>
+          {changedSections.length} of {diff.sections.length} sections differ
+          {unchanged > 0 && `, ${unchanged} unchanged`}
+        </span>
+      </div>
+
+      {changedSections.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground text-sm">No differences</div>
+      )}
+
+      {changedSections.map((section, i) => (
+        <div key={i} className="mb-4 rounded-lg border border-border overflow-hidden">
+          <div className="px-3 py-2 border-b border-border bg-secondary/50 flex items-center gap-2">
+            <span className="text-xs font-medium">{section.title}</span>
+            <span className={cn('text-xs px-1.5 py-0.5 rounded', STATUS_STYLES[section.status])}>{section.status}</span>
+          </div>
+          <DiffTable hunks={section.hunks} />
+        </div>
+      ))}
+    </div>
+  );
+};
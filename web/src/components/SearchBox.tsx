@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import type { SearchHit } from '../types';
+
+interface SearchBoxProps {
+  onSelect: (hit: SearchHit) => void;
+}
+
+const DEBOUNCE_MS = 250;
+
+function HighlightedSnippet({ hit }: { hit: SearchHit }) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  hit.highlights.forEach(([start, end], i) => {
+    parts.push(hit.snippet.slice(last, start));
+    parts.push(
+      <mark key={i} className="bg-amber-500/20 text-amber-300 rounded-sm">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(hit.snippet.slice(last));
+  return <>{parts}</>;
+}
+
+export const SearchBox: React.FC<SearchBoxProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}&limit=30`);
+        if (!cancelled) setHits(res.ok ? await res.json() : []);
+      } catch (error) {
+        console.error('Search failed:', error);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2 px-2 py-1 rounded-md bg-secondary border border-border">
+        <Search size={12} className="text-muted-foreground" />
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          // Delay closing so a click on a result still lands
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+          placeholder="Search prompts, messages, tools..."
+          className="w-64 bg-transparent text-xs font-mono text-foreground placeholder:text-muted-foreground outline-none"
+        />
+      </div>
+
+      {open && hits && (
+        <div className="absolute right-0 top-full mt-1 w-[36rem] max-h-96 overflow-y-auto rounded-lg border border-border bg-background shadow-lg z-40">
+          {hits.length === 0 ? (
+            <div className="px-3 py-4 text-center text-xs text-muted-foreground">No matches</div>
+          ) : (
+            hits.map((hit, i) => (
+              <div
+                key={i}
+                onClick={() => {
+                  onSelect(hit);
+                  setOpen(false);
+                }}
+                className="px-3 py-2 border-b border-border last:border-b-0 cursor-pointer hover:bg-accent/50 transition-colors"
+              >
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-mono text-sky-400">{hit.label}</span>
+                  <span className="text-muted-foreground font-mono">{new Date(hit.timestamp).toLocaleString()}</span>
+                  <span className="ml-auto text-muted-foreground font-mono">{hit.requestId.slice(0, 8)}</span>
+                </div>
+                <div className="text-xs font-mono text-muted-foreground mt-1 break-words">
+                  <HighlightedSnippet hit={hit} />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import type { Session } from '../types';
+
+interface SessionPickerProps {
+  sessions: Session[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+function formatSessionLabel(session: Session): string {
+  const time = new Date(session.startTime).toLocaleString();
+  const prompt = session.firstPrompt.replace(/\s+/g, ' ').trim();
+  const preview = prompt.length > 40 ? prompt.slice(0, 37) + '...' : prompt;
+  return `${time} · ${session.requestIds.length} calls${preview ? ` · ${preview}` : ''}`;
+}
+
+export const SessionPicker: React.FC<SessionPickerProps> = ({ sessions, selectedId, onSelect }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">Session</span>
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="max-w-96 px-2 py-1 text-xs font-mono rounded-md bg-secondary border border-border text-foreground cursor-pointer"
+      >
+        <option value="">All sessions ({sessions.length})</option>
+        {[...sessions].reverse().map((session) => (
+          <option key={session.id} value={session.id}>
+            {formatSessionLabel(session)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
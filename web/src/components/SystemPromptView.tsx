@@ -1,19 +1,26 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Markdown from 'react-markdown';
-import { cn } from '@/lib/utils';
-import type { RequestResponsePair, SystemPrompt } from '../types';
+import { cn, fetchCapture, getAgentLabel, getAgentStyle } from '@/lib/utils';
+import { PromptDiffView } from './PromptDiffView';
+import type { AgentType, CaptureSummary, SystemPrompt } from '../types';
 
 interface SystemPromptViewProps {
-  pairs: RequestResponsePair[];
+  pairs: CaptureSummary[];
 }
 
-interface ParsedPrompt {
+interface PromptEntry {
   id: string;
+  hash: string;
   model: string;
   timestamp: string;
+  agentType: AgentType;
+  charCount: number;
+  preview: string;
+}
+
+interface ParsedPrompt {
   fullText: string;
   wordCount: number;
-  charCount: number;
   hasCacheControl: boolean;
 }
 
@@ -25,41 +32,19 @@ function extractSystemPromptText(system: SystemPrompt[] | undefined): string {
     .join('\n\n');
 }
 
-const LABEL_STYLES: Record<string, { bg: string; text: string; border: string }> = {
-  'Title Generator': { bg: 'bg-violet-500/10', text: 'text-violet-400', border: 'border-violet-500/20' },
-  'Explore Agent': { bg: 'bg-sky-500/10', text: 'text-sky-400', border: 'border-sky-500/20' },
-  'Plan Agent': { bg: 'bg-amber-500/10', text: 'text-amber-400', border: 'border-amber-500/20' },
-  'Code Review Agent': { bg: 'bg-emerald-500/10', text: 'text-emerald-400', border: 'border-emerald-500/20' },
-  'Bash Agent': { bg: 'bg-orange-500/10', text: 'text-orange-400', border: 'border-orange-500/20' },
-  'Sub-agent': { bg: 'bg-pink-500/10', text: 'text-pink-400', border: 'border-pink-500/20' },
-  'Main Agent': { bg: 'bg-blue-500/10', text: 'text-blue-400', border: 'border-blue-500/20' },
-  'Short Prompt': { bg: 'bg-zinc-500/10', text: 'text-zinc-500', border: 'border-zinc-500/20' },
-  Agent: { bg: 'bg-sky-500/10', text: 'text-sky-400', border: 'border-sky-500/20' },
-};
-
-function getPromptLabel(prompt: ParsedPrompt): string {
-  const text = prompt.fullText;
-
-  if (text.includes('isNewTopic') || text.includes('new conversation topic') || text.includes('extract a 2-3 word title')) return 'Title Generator';
-  if (text.includes('You are an exploration agent') || text.includes('exploring codebases')) return 'Explore Agent';
-  if (text.includes('You are a planning agent') || text.includes('planning the implementation')) return 'Plan Agent';
-  if (text.includes('code review') || text.includes('Code review')) return 'Code Review Agent';
-  if (text.includes('Bash agent') || text.includes('bash commands')) return 'Bash Agent';
-  if (prompt.charCount < 10000 && !text.includes('You are Claude Code, Anthropic\'s official CLI')) {
-    if (text.includes('agent') || text.includes('task')) return 'Sub-agent';
-  }
-  if (text.includes('Claude Code, Anthropic\'s official CLI') && prompt.charCount > 20000) return 'Main Agent';
-  if (prompt.charCount < 1000) return 'Short Prompt';
-  return 'Agent';
+function getPromptPreview(prompt: PromptEntry): string {
+  return prompt.preview.length > 60 ? prompt.preview.slice(0, 57) + '...' : prompt.preview;
 }
 
-function getPromptPreview(prompt: ParsedPrompt): string {
-  const lines = prompt.fullText.split('\n').filter((l) => l.trim().length > 10);
-  if (lines.length > 0) {
-    const first = lines[0].trim();
-    return first.length > 60 ? first.slice(0, 57) + '...' : first;
-  }
-  return '';
+// Other prompts of the same agent first, newest first, as they are the likely comparisons
+function getCompareOptions(prompts: PromptEntry[], selected: PromptEntry): PromptEntry[] {
+  return prompts
+    .filter((p) => p.hash !== selected.hash)
+    .sort((a, b) => {
+      const sameA = a.agentType === selected.agentType ? 0 : 1;
+      const sameB = b.agentType === selected.agentType ? 0 : 1;
+      return sameA - sameB || b.timestamp.localeCompare(a.timestamp);
+    });
 }
 
 function ViewToggle({ mode, onChange }: { mode: 'preview' | 'raw'; onChange: (m: 'preview' | 'raw') => void }) {
@@ -91,28 +76,26 @@ export const SystemPromptView: React.FC<SystemPromptViewProps> = ({ pairs }) =>
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [viewMode, setViewMode] = useState<'preview' | 'raw'>('preview');
 
+  const [parsed, setParsed] = useState<ParsedPrompt | null>(null);
+  const [compareHash, setCompareHash] = useState<string | null>(null);
+
+  // Summaries carry the prompt hash, which identifies distinct prompts; the
+  // full text is fetched for the selected one
   const uniquePrompts = useMemo(() => {
-    const seen = new Map<string, ParsedPrompt>();
+    const seen = new Map<string, PromptEntry>();
 
     for (const pair of pairs) {
-      if (!pair.request.system || pair.request.system.length === 0) continue;
-
-      const fullText = extractSystemPromptText(pair.request.system);
-      if (!fullText) continue;
-
-      const key = `${fullText.length}:${fullText.slice(0, 200)}:${fullText.slice(-200)}`;
-      if (seen.has(key)) continue;
+      const hash = pair.request.systemHash;
+      if (!hash || seen.has(hash)) continue;
 
-      const hasCacheControl = pair.request.system.some((block) => block.cache_control?.type === 'ephemeral');
-
-      seen.set(key, {
+      seen.set(hash, {
         id: pair.request.id,
+        hash,
         model: pair.request.model,
         timestamp: pair.request.timestamp,
-        fullText,
-        wordCount: fullText.split(/\s+/).filter(Boolean).length,
-        charCount: fullText.length,
-        hasCacheControl,
+        agentType: pair.request.agentType,
+        charCount: pair.request.systemLength,
+        preview: pair.request.systemPreview,
       });
     }
 
@@ -121,6 +104,28 @@ export const SystemPromptView: React.FC<SystemPromptViewProps> = ({ pairs }) =>
 
   const selectedPrompt = uniquePrompts[selectedIndex] || null;
 
+  useEffect(() => {
+    if (!selectedPrompt) return;
+    let cancelled = false;
+    setParsed(null);
+
+    fetchCapture(selectedPrompt.id)
+      .then((pair) => {
+        if (cancelled || !pair) return;
+        const fullText = extractSystemPromptText(pair.request.system);
+        setParsed({
+          fullText,
+          wordCount: fullText.split(/\s+/).filter(Boolean).length,
+          hasCacheControl: !!pair.request.system?.some((block) => block.cache_control?.type === 'ephemeral'),
+        });
+      })
+      .catch((error) => console.error('Failed to fetch system prompt:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPrompt?.id]);
+
   if (uniquePrompts.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground text-sm">
@@ -138,12 +143,15 @@ export const SystemPromptView: React.FC<SystemPromptViewProps> = ({ pairs }) =>
         </div>
         <div className="overflow-auto flex-1">
           {uniquePrompts.map((prompt, index) => {
-            const label = getPromptLabel(prompt);
-            const style = LABEL_STYLES[label] || LABEL_STYLES.Agent;
+            const label = getAgentLabel(prompt.agentType);
+            const style = getAgentStyle(prompt.agentType);
             return (
               <div
                 key={prompt.id}
-                onClick={() => setSelectedIndex(index)}
+                onClick={() => {
+                  setSelectedIndex(index);
+                  setCompareHash(null);
+                }}
                 className={cn(
                   'px-3 py-2.5 cursor-pointer border-l-2 border-b border-b-border transition-colors',
                   selectedIndex === index
@@ -154,7 +162,9 @@ export const SystemPromptView: React.FC<SystemPromptViewProps> = ({ pairs }) =>
                 <div className={cn('text-xs font-medium mb-0.5', style.text)}>
                   {label}
                 </div>
-                <div className="text-xs text-muted-foreground font-mono">{prompt.model}</div>
+                <div className="text-xs text-muted-foreground font-mono">
+                  {prompt.hash.slice(0, 8)} · {prompt.model}
+                </div>
                 <div className="text-xs text-muted-foreground mt-0.5">
                   {(prompt.charCount / 1000).toFixed(1)}K chars
                 </div>
@@ -174,8 +184,8 @@ export const SystemPromptView: React.FC<SystemPromptViewProps> = ({ pairs }) =>
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-3 text-sm text-muted-foreground">
                 {(() => {
-                  const label = getPromptLabel(selectedPrompt);
-                  const style = LABEL_STYLES[label] || LABEL_STYLES.Agent;
+                  const label = getAgentLabel(selectedPrompt.agentType);
+                  const style = getAgentStyle(selectedPrompt.agentType);
                   return (
                     <span className={cn('text-xs font-medium px-2 py-0.5 rounded border', style.bg, style.text, style.border)}>
                       {label}
@@ -183,24 +193,43 @@ export const SystemPromptView: React.FC<SystemPromptViewProps> = ({ pairs }) =>
                   );
                 })()}
                 <span className="font-mono text-xs">
-                  {selectedPrompt.wordCount.toLocaleString()} words / {selectedPrompt.charCount.toLocaleString()} chars
+                  {parsed && `${parsed.wordCount.toLocaleString()} words / `}
+                  {selectedPrompt.charCount.toLocaleString()} chars
                 </span>
-                {selectedPrompt.hasCacheControl && (
+                {parsed?.hasCacheControl && (
                   <span className="text-xs px-2 py-0.5 rounded bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">
                     Cached
                   </span>
                 )}
               </div>
-              <ViewToggle mode={viewMode} onChange={setViewMode} />
+              <div className="flex items-center gap-2">
+                <select
+                  value={compareHash ?? ''}
+                  onChange={(e) => setCompareHash(e.target.value || null)}
+                  className="max-w-72 px-2 py-1 text-xs font-mono rounded-md bg-secondary border border-border text-foreground cursor-pointer"
+                >
+                  <option value="">Compare with...</option>
+                  {getCompareOptions(uniquePrompts, selectedPrompt).map((prompt) => (
+                    <option key={prompt.hash} value={prompt.hash}>
+                      {getAgentLabel(prompt.agentType)} · {prompt.hash.slice(0, 8)} · {new Date(prompt.timestamp).toLocaleString()}
+                    </option>
+                  ))}
+                </select>
+                {!compareHash && <ViewToggle mode={viewMode} onChange={setViewMode} />}
+              </div>
             </div>
 
-            {viewMode === 'preview' ? (
+            {compareHash ? (
+              <PromptDiffView from={compareHash} to={selectedPrompt.hash} />
+            ) : !parsed ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">Loading system prompt...</div>
+            ) : viewMode === 'preview' ? (
               <div className="markdown-preview bg-card p-6 rounded-lg border border-border max-h-[calc(100vh-300px)] overflow-y-auto">
-                <Markdown>{selectedPrompt.fullText}</Markdown>
+                <Markdown>{parsed.fullText}</Markdown>
               </div>
             ) : (
               <div className="bg-card p-4 rounded-lg border border-border font-mono text-xs text-muted-foreground whitespace-pre-wrap break-words max-h-[calc(100vh-300px)] overflow-y-auto">
-                {selectedPrompt.fullText}
+                {parsed.fullText}
               </div>
             )}
           </>
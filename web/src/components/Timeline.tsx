@@ -1,92 +1,243 @@
-import { cn } from '@/lib/utils';
-import type { RequestResponsePair, TextContent, ToolUseContent, SystemPrompt } from '../types';
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn, formatCost, getAgentStyle, isErrorResponse } from '@/lib/utils';
+import type { CaptureSummary, SubagentCall } from '../types';
 
 interface TimelineProps {
-  pairs: RequestResponsePair[];
+  pairs: CaptureSummary[];
+  subagents?: SubagentCall[];
   selectedId: string | null;
   onSelect: (id: string) => void;
 }
 
+// Rows rendered per "show more" step, so long captures don't render at once
+const RENDER_STEP = 200;
+
 function formatTime(timestamp: string): string {
   const date = new Date(timestamp);
   return date.toLocaleTimeString();
 }
 
-function extractSystemPromptText(system: SystemPrompt[] | undefined): string {
-  if (!system) return '';
-  return system
-    .filter((block) => block.type === 'text')
-    .map((block) => block.text)
-    .join('\n\n');
-}
+function getSummary(pair: CaptureSummary): string {
+  if (pair.request.preview) return pair.request.preview;
 
-const AGENT_STYLES: Record<string, { bg: string; text: string; border: string }> = {
-  Title: { bg: 'bg-violet-500/10', text: 'text-violet-400', border: 'border-violet-500/20' },
-  Explore: { bg: 'bg-sky-500/10', text: 'text-sky-400', border: 'border-sky-500/20' },
-  Plan: { bg: 'bg-amber-500/10', text: 'text-amber-400', border: 'border-amber-500/20' },
-  Review: { bg: 'bg-emerald-500/10', text: 'text-emerald-400', border: 'border-emerald-500/20' },
-  Bash: { bg: 'bg-orange-500/10', text: 'text-orange-400', border: 'border-orange-500/20' },
-  'Sub-agent': { bg: 'bg-pink-500/10', text: 'text-pink-400', border: 'border-pink-500/20' },
-  Main: { bg: 'bg-blue-500/10', text: 'text-blue-400', border: 'border-blue-500/20' },
-  Short: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', border: 'border-zinc-500/20' },
-  Agent: { bg: 'bg-sky-500/10', text: 'text-sky-400', border: 'border-sky-500/20' },
-  Unknown: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', border: 'border-zinc-500/20' },
-};
+  const toolUses = pair.response?.toolUses.filter((t) => !t.server) || [];
+  if (toolUses.length > 0) {
+    return `Tools: ${toolUses.map((t) => t.name).join(', ')}`;
+  }
 
-function getAgentType(system: SystemPrompt[] | undefined): string {
-  const text = extractSystemPromptText(system);
-  const length = text.length;
-
-  if (!text) return 'Unknown';
-  if (text.includes('isNewTopic') || text.includes('new conversation topic') || text.includes('extract a 2-3 word title')) return 'Title';
-  if (text.includes('You are an exploration agent') || text.includes('exploring codebases')) return 'Explore';
-  if (text.includes('You are a planning agent') || text.includes('planning the implementation')) return 'Plan';
-  if (text.includes('code review') || text.includes('Code review')) return 'Review';
-  if (text.includes('Bash agent') || text.includes('bash commands')) return 'Bash';
-  if (length < 15000 && !text.includes('You are Claude Code, Anthropic\'s official CLI')) return 'Sub-agent';
-  if (text.includes('Claude Code, Anthropic\'s official CLI') && length > 20000) return 'Main';
-  if (length < 2000) return 'Short';
-  return 'Agent';
+  return 'API call';
 }
 
-function getSummary(pair: RequestResponsePair): string {
-  const { request, response } = pair;
+function getToolNames(pair: CaptureSummary): string[] {
+  if (!pair.response) return [];
+  return pair.response.toolUses.filter((t) => !t.server).map((t) => t.name);
+}
 
-  const lastUserMsg = [...request.messages].reverse().find((m) => m.role === 'user');
-  if (lastUserMsg) {
-    const content = lastUserMsg.content;
-    if (typeof content === 'string') {
-      return content.slice(0, 100) + (content.length > 100 ? '...' : '');
-    }
-    const textBlocks = content.filter((b): b is TextContent => b.type === 'text');
-    if (textBlocks.length > 0) {
-      const text = textBlocks[0].text;
-      return text.slice(0, 100) + (text.length > 100 ? '...' : '');
-    }
-    const toolResults = content.filter((b) => b.type === 'tool_result');
-    if (toolResults.length > 0) {
-      return `Tool results: ${toolResults.length}`;
-    }
-  }
+function flattenCalls(calls: SubagentCall[]): SubagentCall[] {
+  return calls.flatMap((call) => [call, ...flattenCalls(call.children)]);
+}
 
-  if (response) {
-    const toolUses = response.content.filter((b): b is ToolUseContent => b.type === 'tool_use');
-    if (toolUses.length > 0) {
-      return `Tools: ${toolUses.map((t) => t.name).join(', ')}`;
-    }
+// Subagent calls leading down to a request, outermost first
+function findPath(calls: SubagentCall[], requestId: string): SubagentCall[] | null {
+  for (const call of calls) {
+    if (call.requestIds.includes(requestId)) return [call];
+    const path = findPath(call.children, requestId);
+    if (path) return [call, ...path];
   }
-
-  return 'API call';
+  return null;
 }
 
-function getToolNames(pair: RequestResponsePair): string[] {
-  if (!pair.response) return [];
-  return pair.response.content
-    .filter((b): b is ToolUseContent => b.type === 'tool_use')
-    .map((t) => t.name);
+interface TimelineRowProps {
+  pair: CaptureSummary;
+  label: string;
+  selected: boolean;
+  onSelect: (id: string) => void;
 }
 
-export const Timeline: React.FC<TimelineProps> = ({ pairs, selectedId, onSelect }) => {
+const TimelineRow: React.FC<TimelineRowProps> = ({ pair, label, selected, onSelect }) => {
+  const toolNames = getToolNames(pair);
+  const agentLabel = pair.request.agentType;
+  const style = getAgentStyle(agentLabel);
+
+  return (
+    <div
+      className={cn(
+        'px-4 py-3 rounded-lg cursor-pointer transition-colors border',
+        selected
+          ? 'bg-accent border-border'
+          : 'border-transparent hover:bg-accent/50'
+      )}
+      onClick={() => onSelect(pair.request.id)}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground font-mono w-6">
+            {label}
+          </span>
+          <span className={cn(
+            'text-xs font-medium px-2 py-0.5 rounded border',
+            style.bg, style.text, style.border
+          )}>
+            {agentLabel}
+          </span>
+          <span className="text-xs text-muted-foreground font-mono">
+            {formatTime(pair.request.timestamp)}
+          </span>
+          {pair.response && isErrorResponse(pair.response) && (
+            <span className="text-xs font-mono px-2 py-0.5 rounded border bg-red-500/10 text-red-400 border-red-500/20">
+              {pair.response.status && pair.response.status >= 400 ? `${pair.response.status} ` : ''}
+              {pair.response.error?.type || 'error'}
+            </span>
+          )}
+        </div>
+        <span className="text-xs font-mono text-muted-foreground bg-secondary px-2 py-0.5 rounded">
+          {pair.request.model}
+        </span>
+      </div>
+
+      <div className="text-sm text-muted-foreground mt-1 leading-relaxed">
+        {getSummary(pair)}
+      </div>
+
+      {toolNames.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {toolNames.slice(0, 5).map((name, i) => (
+            <span
+              key={i}
+              className="text-xs font-mono px-1.5 py-0.5 rounded bg-secondary text-muted-foreground"
+            >
+              {name}
+            </span>
+          ))}
+          {toolNames.length > 5 && (
+            <span className="text-xs text-muted-foreground">
+              +{toolNames.length - 5} more
+            </span>
+          )}
+        </div>
+      )}
+
+      {pair.response && (
+        <div className="flex items-center gap-2 mt-2 text-xs font-mono text-muted-foreground">
+          <span className="text-blue-400">
+            {pair.response.usage.input_tokens.toLocaleString()} in
+          </span>
+          <span>/</span>
+          <span className="text-emerald-400">
+            {pair.response.usage.output_tokens.toLocaleString()} out
+          </span>
+          {pair.response.usage.cache_read_input_tokens ? (
+            <>
+              <span>/</span>
+              <span className="text-amber-400">
+                {pair.response.usage.cache_read_input_tokens.toLocaleString()} cached
+              </span>
+            </>
+          ) : null}
+          <span>/</span>
+          <span>{pair.response.duration_ms}ms</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const Timeline: React.FC<TimelineProps> = ({ pairs, subagents = [], selectedId, onSelect }) => {
+  const [renderCount, setRenderCount] = useState(RENDER_STEP);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { pairMap, callsByParent, childIds } = useMemo(() => {
+    const callsByParent = new Map<string, SubagentCall[]>();
+    const childIds = new Set<string>();
+    for (const call of flattenCalls(subagents)) {
+      callsByParent.set(call.parentRequestId, [...(callsByParent.get(call.parentRequestId) || []), call]);
+      for (const id of call.requestIds) childIds.add(id);
+    }
+    return { pairMap: new Map(pairs.map((p) => [p.request.id, p])), callsByParent, childIds };
+  }, [pairs, subagents]);
+
+  // Subagent requests are listed under the call that launched them
+  const topLevel = useMemo(() => pairs.filter((p) => !childIds.has(p.request.id)), [pairs, childIds]);
+
+  // Open the subtrees holding a request selected elsewhere, e.g. from search
+  useEffect(() => {
+    if (!selectedId) return;
+    const path = findPath(subagents, selectedId);
+    if (!path) return;
+    setExpanded((prev) => (path.every((call) => prev.has(call.toolUseId))
+      ? prev
+      : new Set([...prev, ...path.map((call) => call.toolUseId)])));
+  }, [selectedId, subagents]);
+
+  const toggle = (toolUseId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(toolUseId)) next.delete(toolUseId);
+      else next.add(toolUseId);
+      return next;
+    });
+  };
+
+  const renderEntry = (pair: CaptureSummary, label: string): React.ReactNode => (
+    <div key={pair.request.id} className="flex flex-col gap-2">
+      <TimelineRow pair={pair} label={label} selected={selectedId === pair.request.id} onSelect={onSelect} />
+      {(callsByParent.get(pair.request.id) || []).map(renderCall)}
+    </div>
+  );
+
+  const renderCall = (call: SubagentCall): React.ReactNode => {
+    const open = expanded.has(call.toolUseId);
+    const children = call.requestIds.flatMap((id) => {
+      const pair = pairMap.get(id);
+      return pair ? [pair] : [];
+    });
+    const style = getAgentStyle(call.subagentType || 'Sub-agent');
+
+    return (
+      <div key={call.toolUseId} className="ml-6 pl-3 border-l border-border flex flex-col gap-2">
+        <button
+          onClick={() => toggle(call.toolUseId)}
+          className="flex items-center gap-2 text-xs text-left text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+        >
+          {open ? <ChevronDown className="w-3.5 h-3.5 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 shrink-0" />}
+          <span className={cn('font-medium px-2 py-0.5 rounded border shrink-0', style.bg, style.text, style.border)}>
+            {call.subagentType || 'subagent'}
+          </span>
+          <span className="truncate">{call.description || call.prompt}</span>
+          <span className="font-mono shrink-0">{call.requests} calls</span>
+          <span className="font-mono text-blue-400 shrink-0">{call.inputTokens.toLocaleString()} in</span>
+          <span className="font-mono text-emerald-400 shrink-0">{call.outputTokens.toLocaleString()} out</span>
+          <span className="font-mono shrink-0">{formatCost(call.cost)}</span>
+          {call.isError && (
+            <span className="font-mono px-2 py-0.5 rounded border bg-red-500/10 text-red-400 border-red-500/20 shrink-0">
+              error
+            </span>
+          )}
+        </button>
+        {open && (
+          <>
+            {children.length === 0 && (
+              <div className="text-xs text-muted-foreground px-4">No requests captured for this subagent</div>
+            )}
+            {children.map((pair, i) => renderEntry(pair, `${i + 1}`))}
+            {call.result !== undefined && call.resultRequestId && (
+              <div
+                onClick={() => onSelect(call.resultRequestId!)}
+                className="px-4 py-2 rounded-lg cursor-pointer border border-transparent hover:bg-accent/50"
+              >
+                <div className="text-xs font-medium text-muted-foreground mb-1">Result</div>
+                <div className="text-sm text-muted-foreground leading-relaxed line-clamp-3 whitespace-pre-wrap">
+                  {call.result}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
   if (pairs.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground text-sm">
@@ -97,88 +248,15 @@ export const Timeline: React.FC<TimelineProps> = ({ pairs, selectedId, onSelect
 
   return (
     <div className="flex flex-col gap-2">
-      {pairs.map((pair, index) => {
-        const toolNames = getToolNames(pair);
-        const agentLabel = getAgentType(pair.request.system);
-        const style = AGENT_STYLES[agentLabel] || AGENT_STYLES.Unknown;
-
-        return (
-          <div
-            key={pair.request.id}
-            className={cn(
-              'px-4 py-3 rounded-lg cursor-pointer transition-colors border',
-              selectedId === pair.request.id
-                ? 'bg-accent border-border'
-                : 'border-transparent hover:bg-accent/50'
-            )}
-            onClick={() => onSelect(pair.request.id)}
-          >
-            <div className="flex items-center justify-between mb-1">
-              <div className="flex items-center gap-2">
-                <span className="text-xs text-muted-foreground font-mono w-6">
-                  #{index + 1}
-                </span>
-                <span className={cn(
-                  'text-xs font-medium px-2 py-0.5 rounded border',
-                  style.bg, style.text, style.border
-                )}>
-                  {agentLabel}
-                </span>
-                <span className="text-xs text-muted-foreground font-mono">
-                  {formatTime(pair.request.timestamp)}
-                </span>
-              </div>
-              <span className="text-xs font-mono text-muted-foreground bg-secondary px-2 py-0.5 rounded">
-                {pair.request.model}
-              </span>
-            </div>
-
-            <div className="text-sm text-muted-foreground mt-1 leading-relaxed">
-              {getSummary(pair)}
-            </div>
-
-            {toolNames.length > 0 && (
-              <div className="flex flex-wrap gap-1 mt-2">
-                {toolNames.slice(0, 5).map((name, i) => (
-                  <span
-                    key={i}
-                    className="text-xs font-mono px-1.5 py-0.5 rounded bg-secondary text-muted-foreground"
-                  >
-                    {name}
-                  </span>
-                ))}
-                {toolNames.length > 5 && (
-                  <span className="text-xs text-muted-foreground">
-                    +{toolNames.length - 5} more
-                  </span>
-                )}
-              </div>
-            )}
-
-            {pair.response && (
-              <div className="flex items-center gap-2 mt-2 text-xs font-mono text-muted-foreground">
-                <span className="text-blue-400">
-                  {pair.response.usage.input_tokens.toLocaleString()} in
-                </span>
-                <span>/</span>
-                <span className="text-emerald-400">
-                  {pair.response.usage.output_tokens.toLocaleString()} out
-                </span>
-                {pair.response.usage.cache_read_input_tokens ? (
-                  <>
-                    <span>/</span>
-                    <span className="text-amber-400">
-                      {pair.response.usage.cache_read_input_tokens.toLocaleString()} cached
-                    </span>
-                  </>
-                ) : null}
-                <span>/</span>
-                <span>{pair.response.duration_ms}ms</span>
-              </div>
-            )}
-          </div>
-        );
-      })}
+      {topLevel.slice(0, renderCount).map((pair, index) => renderEntry(pair, `#${index + 1}`))}
+      {topLevel.length > renderCount && (
+        <button
+          onClick={() => setRenderCount((count) => count + RENDER_STEP)}
+          className="py-2 text-xs text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+        >
+          Show {Math.min(RENDER_STEP, topLevel.length - renderCount)} more of {topLevel.length - renderCount} remaining
+        </button>
+      )}
     </div>
   );
 };
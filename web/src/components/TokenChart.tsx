@@ -12,10 +12,10 @@ import {
   Pie,
   Cell,
 } from 'recharts';
-import type { RequestResponsePair } from '../types';
+import type { CaptureSummary } from '../types';
 
 interface TokenChartProps {
-  pairs: RequestResponsePair[];
+  pairs: CaptureSummary[];
 }
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
@@ -8,10 +8,11 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import type { RequestResponsePair, ToolUseContent, ToolResultContent } from '../types';
+import { formatDuration, summarizePercentiles } from '@/lib/utils';
+import type { CaptureSummary, Percentiles } from '../types';
 
 interface ToolAnalysisProps {
-  pairs: RequestResponsePair[];
+  pairs: CaptureSummary[];
 }
 
 interface ToolStat {
@@ -19,39 +20,63 @@ interface ToolStat {
   count: number;
   errors: number;
   successRate: number;
+  server: boolean;
+  durations: Percentiles | null;
+  totalDuration: number;
 }
 
 export const ToolAnalysis: React.FC<ToolAnalysisProps> = ({ pairs }) => {
-  const toolStats = useMemo(() => {
-    const stats = new Map<string, { count: number; errors: number }>();
+  const { toolStats, modelMs, toolMs } = useMemo(() => {
+    const stats = new Map<string, { count: number; errors: number; server: boolean; durations: number[] }>();
     const toolUses = new Map<string, string>();
+    // Client tool calls awaiting their result, with the end of the response that issued them
+    const pending = new Map<string, { name: string; responseId: string; end: number }>();
+    const gaps = new Map<string, number>();
+    let modelMs = 0;
 
     for (const pair of pairs) {
-      if (!pair.response) continue;
+      // Tool results come back in the last user message of the next request
+      for (const toolResult of pair.request.toolResults) {
+        const toolName = toolUses.get(toolResult.tool_use_id);
+        if (toolName && toolResult.is_error) {
+          const existing = stats.get(toolName);
+          if (existing) existing.errors++;
+        }
 
-      for (const block of pair.response.content) {
-        if (block.type === 'tool_use') {
-          const toolUse = block as ToolUseContent;
-          toolUses.set(toolUse.id, toolUse.name);
-          const existing = stats.get(toolUse.name) || { count: 0, errors: 0 };
-          existing.count++;
-          stats.set(toolUse.name, existing);
+        // Execution time: from the end of the response to the request returning the result
+        const call = pending.get(toolResult.tool_use_id);
+        if (call) {
+          pending.delete(toolResult.tool_use_id);
+          const duration = new Date(pair.request.timestamp).getTime() - call.end;
+          if (duration >= 0) {
+            stats.get(call.name)?.durations.push(duration);
+            gaps.set(call.responseId, Math.max(gaps.get(call.responseId) || 0, duration));
+          }
         }
       }
 
-      for (const message of pair.request.messages) {
-        if (message.role === 'user' && Array.isArray(message.content)) {
-          for (const block of message.content) {
-            if (block.type === 'tool_result') {
-              const toolResult = block as ToolResultContent;
-              const toolName = toolUses.get(toolResult.tool_use_id);
-              if (toolName && toolResult.is_error) {
-                const existing = stats.get(toolName);
-                if (existing) existing.errors++;
-              }
-            }
-          }
+      if (!pair.response) continue;
+      modelMs += pair.response.duration_ms;
+
+      for (const toolUse of pair.response.toolUses) {
+        toolUses.set(toolUse.id, toolUse.name);
+        if (!toolUse.server) {
+          pending.set(toolUse.id, {
+            name: toolUse.name,
+            responseId: pair.request.id,
+            end: new Date(pair.response.timestamp).getTime(),
+          });
         }
+        const existing = stats.get(toolUse.name) || { count: 0, errors: 0, server: toolUse.server, durations: [] };
+        existing.count++;
+        stats.set(toolUse.name, existing);
+      }
+
+      // Server tool results arrive in the same response as their server_tool_use
+      for (const toolUseId of pair.response.serverToolErrors) {
+        const toolName = toolUses.get(toolUseId);
+        const existing = toolName ? stats.get(toolName) : undefined;
+        if (existing) existing.errors++;
       }
     }
 
@@ -62,12 +87,24 @@ export const ToolAnalysis: React.FC<ToolAnalysisProps> = ({ pairs }) => {
         count: data.count,
         errors: data.errors,
         successRate: data.count > 0 ? ((data.count - data.errors) / data.count) * 100 : 100,
+        server: data.server,
+        durations: summarizePercentiles(data.durations),
+        totalDuration: data.durations.reduce((sum, d) => sum + d, 0),
       });
     }
 
-    return result.sort((a, b) => b.count - a.count);
+    // Parallel calls from one response overlap, so each response's longest wait counts once
+    let toolMs = 0;
+    for (const gap of gaps.values()) toolMs += gap;
+
+    return { toolStats: result.sort((a, b) => b.count - a.count), modelMs, toolMs };
   }, [pairs]);
 
+  const timedStats = useMemo(
+    () => toolStats.filter((stat) => stat.durations).sort((a, b) => b.totalDuration - a.totalDuration),
+    [toolStats]
+  );
+
   if (toolStats.length === 0) {
     return <div className="text-center py-8 text-muted-foreground text-sm">No tool calls recorded</div>;
   }
@@ -120,7 +157,12 @@ export const ToolAnalysis: React.FC<ToolAnalysisProps> = ({ pairs }) => {
             key={stat.name}
             className="flex items-center justify-between px-3 py-2 rounded-md hover:bg-accent transition-colors"
           >
-            <span className="text-sm font-mono">{stat.name}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-mono">{stat.name}</span>
+              {stat.server && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-sky-500/10 text-sky-400">server</span>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               <span className="text-xs font-mono font-medium px-2 py-0.5 rounded bg-secondary text-foreground">
                 {stat.count}
@@ -134,6 +176,47 @@ export const ToolAnalysis: React.FC<ToolAnalysisProps> = ({ pairs }) => {
           </div>
         ))}
       </div>
+
+      {timedStats.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-muted-foreground mb-2">Execution time</h4>
+          {modelMs + toolMs > 0 && (
+            <div className="mb-3">
+              <div className="flex h-2 rounded overflow-hidden bg-secondary">
+                <div className="bg-blue-500" style={{ width: `${(modelMs / (modelMs + toolMs)) * 100}%` }} />
+                <div className="bg-amber-500" style={{ width: `${(toolMs / (modelMs + toolMs)) * 100}%` }} />
+              </div>
+              <div className="flex justify-between mt-1 text-xs font-mono text-muted-foreground">
+                <span className="text-blue-400">Model {formatDuration(modelMs)}</span>
+                <span className="text-amber-400">Tools {formatDuration(toolMs)}</span>
+              </div>
+            </div>
+          )}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-medium pb-1.5" />
+                {['p50', 'p90', 'p99', 'max', 'total'].map((h) => (
+                  <th key={h} className="text-right font-medium pb-1.5 px-2">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {timedStats.map((stat) => (
+                <tr key={stat.name} className="border-t border-border">
+                  <td className="py-1.5 pr-4 font-mono">{stat.name}</td>
+                  {[stat.durations!.p50, stat.durations!.p90, stat.durations!.p99, stat.durations!.max, stat.totalDuration].map((value, i) => (
+                    <td key={i} className="py-1.5 px-2 text-right font-mono">{formatDuration(value)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            From the end of the response that called the tool to the request returning its result, including permission prompts.
+          </p>
+        </div>
+      )}
     </div>
   );
 };
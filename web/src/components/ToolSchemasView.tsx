@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { DiffTable } from './DiffTable';
+import type { ToolCatalogEntry, ToolSchemaChange, ToolSchemaVersion, ToolSetChange } from '../types';
+
+interface ParamRow {
+  name: string;
+  type: string;
+  required: boolean;
+  description: string;
+}
+
+function getParams(version: ToolSchemaVersion): ParamRow[] {
+  const properties = version.input_schema?.properties ?? {};
+  const required = version.input_schema?.required ?? [];
+  return Object.entries(properties).map(([name, schema]) => {
+    const s = (schema ?? {}) as { type?: string | string[]; description?: string; enum?: unknown[] };
+    return {
+      name,
+      type: s.enum ? 'enum' : Array.isArray(s.type) ? s.type.join(' | ') : s.type || 'any',
+      required: required.includes(name),
+      description: s.description || '',
+    };
+  });
+}
+
+function ParamChanges({ change }: { change: ToolSchemaChange }) {
+  const chips = [
+    ...change.addedParams.map((p) => ({ label: `+ ${p}`, style: 'bg-emerald-500/10 text-emerald-400' })),
+    ...change.removedParams.map((p) => ({ label: `- ${p}`, style: 'bg-red-500/10 text-red-400' })),
+    ...change.changedParams.map((p) => ({ label: `~ ${p}`, style: 'bg-amber-500/10 text-amber-400' })),
+    ...change.addedRequired.map((p) => ({ label: `${p} now required`, style: 'bg-emerald-500/10 text-emerald-400' })),
+    ...change.removedRequired.map((p) => ({ label: `${p} now optional`, style: 'bg-red-500/10 text-red-400' })),
+  ];
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {chips.map((chip) => (
+        <span key={chip.label} className={cn('text-xs font-mono px-1.5 py-0.5 rounded', chip.style)}>
+          {chip.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function SchemaChangeDetails({ change }: { change: ToolSchemaChange }) {
+  return (
+    <div className="space-y-3">
+      <ParamChanges change={change} />
+      {change.descriptionHunks.length > 0 && (
+        <div className="rounded-lg border border-border overflow-hidden">
+          <div className="px-3 py-1.5 border-b border-border bg-secondary/50 text-xs font-medium">description</div>
+          <DiffTable hunks={change.descriptionHunks} />
+        </div>
+      )}
+      {change.schemaHunks.length > 0 && (
+        <div className="rounded-lg border border-border overflow-hidden">
+          <div className="px-3 py-1.5 border-b border-border bg-secondary/50 text-xs font-medium">input_schema</div>
+          <DiffTable hunks={change.schemaHunks} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionDiff({ name, from, to }: { name: string; from: string; to: string }) {
+  const [change, setChange] = useState<ToolSchemaChange | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChange(null);
+
+    const params = new URLSearchParams({ name, from, to });
+    fetch(`/api/tools/diff?${params}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data) => {
+        if (!cancelled) setChange(data);
+      })
+      .catch((err) => console.error('Failed to fetch tool diff:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [name, from, to]);
+
+  if (!change) {
+    return <div className="text-center py-4 text-muted-foreground text-sm">Loading diff...</div>;
+  }
+  return <SchemaChangeDetails change={change} />;
+}
+
+function ToolSetChanges({ changes, onSelectTool }: { changes: ToolSetChange[]; onSelectTool: (name: string) => void }) {
+  if (changes.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">No agent's tool set has changed.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {[...changes].reverse().map((change) => (
+        <div key={change.requestId} className="rounded-lg border border-border p-3 space-y-2">
+          <div className="flex items-center gap-3 text-xs">
+            <span className="font-medium">{new Date(change.timestamp).toLocaleString()}</span>
+            <span className="px-1.5 py-0.5 rounded bg-secondary text-muted-foreground">{change.agentType}</span>
+            <span className="font-mono text-muted-foreground">
+              {change.requestId.slice(0, 8)} (was {change.previousRequestId.slice(0, 8)})
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {change.added.map((name) => (
+              <button
+                key={`+${name}`}
+                onClick={() => onSelectTool(name)}
+                className="text-xs font-mono px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400 cursor-pointer"
+              >
+                + {name}
+              </button>
+            ))}
+            {change.removed.map((name) => (
+              <button
+                key={`-${name}`}
+                onClick={() => onSelectTool(name)}
+                className="text-xs font-mono px-1.5 py-0.5 rounded bg-red-500/10 text-red-400 cursor-pointer"
+              >
+                - {name}
+              </button>
+            ))}
+            {change.changed.map((c) => (
+              <button
+                key={`~${c.name}`}
+                onClick={() => onSelectTool(c.name)}
+                className="text-xs font-mono px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 cursor-pointer"
+              >
+                ~ {c.name}
+              </button>
+            ))}
+          </div>
+          {change.changed.map((c) => (
+            <div key={c.name} className="pl-3 border-l-2 border-amber-500/30 space-y-2">
+              <div className="text-xs font-mono text-amber-400">{c.name}</div>
+              <SchemaChangeDetails change={c} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export const ToolSchemasView: React.FC = () => {
+  const [catalog, setCatalog] = useState<ToolCatalogEntry[] | null>(null);
+  const [changes, setChanges] = useState<ToolSetChange[]>([]);
+  // null shows the tool set changes
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [versionIndex, setVersionIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/tools').then((res) => res.json()),
+      fetch('/api/tools/changes').then((res) => res.json()),
+    ])
+      .then(([catalogData, changesData]) => {
+        setCatalog(catalogData);
+        setChanges(changesData);
+      })
+      .catch((error) => console.error('Failed to fetch tool schemas:', error));
+  }, []);
+
+  const selectTool = (name: string | null) => {
+    setSelectedName(name);
+    setVersionIndex(null);
+  };
+
+  if (!catalog) {
+    return <div className="text-center py-8 text-muted-foreground text-sm">Loading tool schemas...</div>;
+  }
+  if (catalog.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        No tool definitions captured yet. Start Claude Code with the proxy to see data.
+      </div>
+    );
+  }
+
+  const selected = catalog.find((entry) => entry.name === selectedName) || null;
+  const index = selected ? versionIndex ?? selected.versions.length - 1 : 0;
+  const version = selected?.versions[index];
+
+  return (
+    <div className="flex gap-4 h-full">
+      {/* Sidebar */}
+      <div className="w-64 flex-shrink-0 rounded-lg border border-border overflow-hidden flex flex-col">
+        <div
+          onClick={() => selectTool(null)}
+          className={cn(
+            'px-3 py-2 border-b border-border text-xs font-medium cursor-pointer border-l-2 transition-colors',
+            selectedName === null ? 'bg-accent border-l-foreground' : 'border-l-transparent bg-secondary/50 hover:bg-accent/50'
+          )}
+        >
+          Tool set changes ({changes.length})
+        </div>
+        <div className="px-3 py-2 border-b border-border bg-secondary/50 text-xs font-medium text-muted-foreground">
+          Tools ({catalog.length})
+        </div>
+        <div className="overflow-auto flex-1">
+          {catalog.map((entry) => (
+            <div
+              key={entry.name}
+              onClick={() => selectTool(entry.name)}
+              className={cn(
+                'px-3 py-2 cursor-pointer border-l-2 border-b border-b-border transition-colors',
+                selectedName === entry.name ? 'bg-accent border-l-foreground' : 'border-l-transparent hover:bg-accent/50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-mono font-medium truncate">{entry.name}</span>
+                {entry.versions.length > 1 && (
+                  <span className="text-xs px-1.5 rounded bg-amber-500/10 text-amber-400 flex-shrink-0">
+                    {entry.versions.length}v
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground mt-0.5 truncate">
+                {entry.mcpServer ? `MCP: ${entry.mcpServer}` : 'built-in'} · {entry.agentTypes.join(', ')}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto max-h-[calc(100vh-300px)]">
+        {!selected || !version ? (
+          <ToolSetChanges changes={changes} onSelectTool={selectTool} />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="font-mono font-medium">{selected.name}</span>
+              {selected.mcpServer && (
+                <span className="text-xs px-2 py-0.5 rounded bg-violet-500/10 text-violet-400 border border-violet-500/20">
+                  MCP: {selected.mcpServer}
+                </span>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {selected.requestCount} requests · {selected.agentTypes.join(', ')}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {selected.versions.map((v, i) => (
+                <button
+                  key={v.hash}
+                  onClick={() => setVersionIndex(i)}
+                  className={cn(
+                    'px-2 py-1 text-xs rounded-md border cursor-pointer transition-colors text-left',
+                    i === index ? 'bg-accent border-foreground/30' : 'border-border hover:bg-accent/50'
+                  )}
+                >
+                  <div className="font-mono">{v.hash.slice(0, 8)}</div>
+                  <div className="text-muted-foreground">
+                    {new Date(v.firstSeen).toLocaleDateString()} · {v.requestCount} req
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {index > 0 && (
+              <div>
+                <div className="text-xs font-medium text-muted-foreground mb-2">
+                  Changes from {selected.versions[index - 1].hash.slice(0, 8)}
+                </div>
+                <VersionDiff name={selected.name} from={selected.versions[index - 1].hash} to={version.hash} />
+              </div>
+            )}
+
+            <div className="rounded-lg border border-border overflow-hidden">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="bg-secondary/50 text-muted-foreground">
+                    <th className="px-3 py-1.5 text-left font-medium">Parameter</th>
+                    <th className="px-3 py-1.5 text-left font-medium">Type</th>
+                    <th className="px-3 py-1.5 text-left font-medium">Description</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getParams(version).map((param) => (
+                    <tr key={param.name} className="border-t border-border align-top">
+                      <td className="px-3 py-1.5 font-mono whitespace-nowrap">
+                        {param.name}
+                        {param.required && <span className="text-red-400">*</span>}
+                      </td>
+                      <td className="px-3 py-1.5 font-mono text-muted-foreground">{param.type}</td>
+                      <td className="px-3 py-1.5 text-muted-foreground">{param.description}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-card p-4 rounded-lg border border-border font-mono text-xs text-muted-foreground whitespace-pre-wrap break-words">
+              {version.description}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
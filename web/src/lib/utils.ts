@@ -1,6 +1,110 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { AgentType, CapturedResponse, Percentiles, RequestResponsePair } from '../types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function formatCost(cost: number): string {
+  if (cost >= 100) return `$${cost.toFixed(0)}`;
+  if (cost >= 1) return `$${cost.toFixed(2)}`;
+  return `$${cost.toFixed(4)}`;
+}
+
+export interface AgentStyle {
+  bg: string;
+  text: string;
+  border: string;
+}
+
+const AGENT_LABELS: Record<string, string> = {
+  Title: 'Title Generator',
+  Explore: 'Explore Agent',
+  Plan: 'Plan Agent',
+  Review: 'Code Review Agent',
+  Bash: 'Bash Agent',
+  Main: 'Main Agent',
+  Short: 'Short Prompt',
+};
+
+const AGENT_STYLES: Record<string, AgentStyle> = {
+  Title: { bg: 'bg-violet-500/10', text: 'text-violet-400', border: 'border-violet-500/20' },
+  Explore: { bg: 'bg-sky-500/10', text: 'text-sky-400', border: 'border-sky-500/20' },
+  Plan: { bg: 'bg-amber-500/10', text: 'text-amber-400', border: 'border-amber-500/20' },
+  Review: { bg: 'bg-emerald-500/10', text: 'text-emerald-400', border: 'border-emerald-500/20' },
+  Bash: { bg: 'bg-orange-500/10', text: 'text-orange-400', border: 'border-orange-500/20' },
+  'Sub-agent': { bg: 'bg-pink-500/10', text: 'text-pink-400', border: 'border-pink-500/20' },
+  Main: { bg: 'bg-blue-500/10', text: 'text-blue-400', border: 'border-blue-500/20' },
+  Short: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', border: 'border-zinc-500/20' },
+  Agent: { bg: 'bg-sky-500/10', text: 'text-sky-400', border: 'border-sky-500/20' },
+  Unknown: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', border: 'border-zinc-500/20' },
+};
+
+// Custom agent types from agents.json
+const CUSTOM_AGENT_STYLE: AgentStyle = { bg: 'bg-fuchsia-500/10', text: 'text-fuchsia-400', border: 'border-fuchsia-500/20' };
+
+/**
+ * Display name of an agent type; custom types are shown as configured
+ */
+export function getAgentLabel(agentType: AgentType): string {
+  return AGENT_LABELS[agentType] ?? agentType;
+}
+
+export function getAgentStyle(agentType: AgentType): AgentStyle {
+  return AGENT_STYLES[agentType] ?? CUSTOM_AGENT_STYLE;
+}
+
+export interface LatencyPhases {
+  queue: number;
+  firstToken: number;
+  thinking: number;
+  generating: number;
+  tail: number;
+}
+
+// Mirrors getLatencyPhases in src/parser/latency.ts
+export function getLatencyPhases(response: Pick<CapturedResponse, 'timing' | 'duration_ms'>): LatencyPhases | null {
+  const timing = response.timing;
+  if (!timing || timing.first_content_ms === undefined) return null;
+
+  const queueEnd = timing.message_start_ms ?? timing.ttfb_ms;
+  const firstContent = timing.first_content_ms;
+  const firstOutput = timing.first_output_ms ?? firstContent;
+  const lastContent = timing.last_content_ms ?? firstOutput;
+  const end = Math.max(response.duration_ms, lastContent);
+
+  return {
+    queue: queueEnd,
+    firstToken: firstContent - queueEnd,
+    thinking: firstOutput - firstContent,
+    generating: lastContent - firstOutput,
+    tail: end - lastContent,
+  };
+}
+
+// Nearest-rank percentiles, matching the server's latency summaries
+export function summarizePercentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(Math.max(Math.ceil((p / 100) * sorted.length), 1), sorted.length) - 1];
+  return { count: sorted.length, p50: at(50), p90: at(90), p99: at(99), max: sorted[sorted.length - 1] };
+}
+
+export function formatDuration(ms: number): string {
+  if (ms >= 60000) return `${(ms / 60000).toFixed(1)}m`;
+  if (ms >= 1000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.round(ms)}ms`;
+}
+
+export function isErrorResponse(response: Pick<CapturedResponse, 'error' | 'status'>): boolean {
+  return !!response.error || (response.status !== undefined && response.status >= 400);
+}
+
+/**
+ * Fetch the full request and response for a capture listed by its summary
+ */
+export async function fetchCapture(id: string): Promise<RequestResponsePair | null> {
+  const res = await fetch(`/api/captures/${encodeURIComponent(id)}`);
+  return res.ok ? res.json() : null;
+}
@@ -3,12 +3,22 @@
 export interface SystemPrompt {
   type: 'text';
   text: string;
-  cache_control?: { type: 'ephemeral' };
+  cache_control?: { type: 'ephemeral'; ttl?: '5m' | '1h' };
+}
+
+export interface Citation {
+  type: string;
+  cited_text?: string;
+  url?: string;
+  title?: string;
+  document_title?: string | null;
+  [key: string]: unknown;
 }
 
 export interface TextContent {
   type: 'text';
   text: string;
+  citations?: Citation[];
 }
 
 export interface ToolUseContent {
@@ -18,6 +28,45 @@ export interface ToolUseContent {
   input: Record<string, unknown>;
 }
 
+export interface ServerToolUseContent {
+  type: 'server_tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface WebSearchResult {
+  type: 'web_search_result';
+  url: string;
+  title: string;
+  encrypted_content: string;
+  page_age?: string | null;
+}
+
+export interface ServerToolError {
+  type: 'web_search_tool_result_error' | 'web_fetch_tool_result_error';
+  error_code: string;
+}
+
+export interface WebSearchToolResultContent {
+  type: 'web_search_tool_result';
+  tool_use_id: string;
+  content: WebSearchResult[] | ServerToolError;
+}
+
+export interface WebFetchToolResultContent {
+  type: 'web_fetch_tool_result';
+  tool_use_id: string;
+  content:
+    | {
+        type: 'web_fetch_result';
+        url: string;
+        retrieved_at?: string;
+        content: Record<string, unknown>;
+      }
+    | ServerToolError;
+}
+
 export interface ToolResultContent {
   type: 'tool_result';
   tool_use_id: string;
@@ -25,7 +74,26 @@ export interface ToolResultContent {
   is_error?: boolean;
 }
 
-export type ContentBlock = TextContent | ToolUseContent | ToolResultContent;
+export interface ThinkingContent {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+export interface RedactedThinkingContent {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+export type ContentBlock =
+  | TextContent
+  | ToolUseContent
+  | ToolResultContent
+  | ThinkingContent
+  | RedactedThinkingContent
+  | ServerToolUseContent
+  | WebSearchToolResultContent
+  | WebFetchToolResultContent;
 
 export interface Message {
   role: 'user' | 'assistant';
@@ -51,6 +119,12 @@ export interface CapturedRequest {
   messages: Message[];
   tools?: ToolDefinition[];
   stream?: boolean;
+  metadata?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  agent_type?: AgentType;
+  session_id?: string;
+  cwd?: string;
+  replay_key?: string;
 }
 
 export interface TokenUsage {
@@ -58,6 +132,10 @@ export interface TokenUsage {
   output_tokens: number;
   cache_creation_input_tokens?: number;
   cache_read_input_tokens?: number;
+  cache_creation?: {
+    ephemeral_5m_input_tokens?: number;
+    ephemeral_1h_input_tokens?: number;
+  };
 }
 
 export interface CapturedResponse {
@@ -68,6 +146,32 @@ export interface CapturedResponse {
   usage: TokenUsage;
   model: string;
   duration_ms: number;
+  timing?: ResponseTiming;
+  status?: number;
+  headers?: Record<string, string>;
+  error?: ApiError;
+}
+
+export interface ApiError {
+  type: string;
+  message: string;
+}
+
+export interface GapStats {
+  count: number;
+  mean_ms: number;
+  p50_ms: number;
+  p95_ms: number;
+  max_ms: number;
+}
+
+export interface ResponseTiming {
+  ttfb_ms: number;
+  message_start_ms?: number;
+  first_content_ms?: number;
+  first_output_ms?: number;
+  last_content_ms?: number;
+  inter_chunk?: GapStats;
 }
 
 export interface RequestResponsePair {
@@ -75,6 +179,319 @@ export interface RequestResponsePair {
   response: CapturedResponse | null;
 }
 
+export type AgentType =
+  | 'Main'
+  | 'Sub-agent'
+  | 'Explore'
+  | 'Plan'
+  | 'Review'
+  | 'Bash'
+  | 'Title'
+  | 'Short'
+  | 'Agent'
+  | 'Unknown'
+  // Custom labels from agents.json
+  | (string & {});
+
+// Lightweight list view of a capture, as returned by /api/captures?view=summary
+export interface RequestSummary {
+  id: string;
+  timestamp: string;
+  model: string;
+  stream?: boolean;
+  agentType: AgentType;
+  sessionKey?: string;
+  messageCount: number;
+  systemLength: number;
+  systemHash?: string;
+  systemPreview: string;
+  preview: string;
+  toolResults: Array<{ tool_use_id: string; is_error: boolean }>;
+}
+
+export interface ResponseSummary extends Omit<CapturedResponse, 'content'> {
+  toolUses: Array<{ id: string; name: string; server: boolean }>;
+  serverToolErrors: string[];
+}
+
+export interface CaptureSummary {
+  request: RequestSummary;
+  response: ResponseSummary | null;
+}
+
+export type SearchLocation =
+  | { kind: 'system' }
+  | { kind: 'message'; message: number; block: number }
+  | { kind: 'response'; block: number };
+
+export interface SearchHit {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  location: SearchLocation;
+  label: string;
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface DiffLine {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface DiffHunk {
+  fromStart: number;
+  fromCount: number;
+  toStart: number;
+  toCount: number;
+  lines: DiffLine[];
+}
+
+export interface SectionDiff {
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  fromHash?: string;
+  toHash?: string;
+  hunks: DiffHunk[];
+}
+
+export interface PromptDiff {
+  from: string;
+  to: string;
+  sections: SectionDiff[];
+}
+
+export interface ToolSchemaVersion {
+  hash: string;
+  description: string;
+  input_schema: ToolDefinition['input_schema'];
+  agentTypes: AgentType[];
+  firstSeen: string;
+  lastSeen: string;
+  requestCount: number;
+  requestId: string;
+}
+
+export interface ToolCatalogEntry {
+  name: string;
+  mcpServer?: string;
+  versions: ToolSchemaVersion[];
+  agentTypes: AgentType[];
+  firstSeen: string;
+  lastSeen: string;
+  requestCount: number;
+}
+
+export interface ToolSchemaChange {
+  name: string;
+  fromHash: string;
+  toHash: string;
+  addedParams: string[];
+  removedParams: string[];
+  changedParams: string[];
+  addedRequired: string[];
+  removedRequired: string[];
+  descriptionHunks: DiffHunk[];
+  schemaHunks: DiffHunk[];
+}
+
+export interface ToolSetChange {
+  requestId: string;
+  timestamp: string;
+  agentType: AgentType;
+  previousRequestId: string;
+  added: string[];
+  removed: string[];
+  changed: ToolSchemaChange[];
+}
+
+export interface Conversation {
+  id: string;
+  requestIds: string[];
+  startTime: string;
+  endTime: string;
+  model: string;
+  userId?: string;
+}
+
+export interface Session {
+  id: string;
+  userId?: string;
+  startTime: string;
+  endTime: string;
+  requestIds: string[];
+  conversations: Conversation[];
+  models: string[];
+  inputTokens: number;
+  outputTokens: number;
+  toolCalls: number;
+  firstPrompt: string;
+}
+
+export interface SubagentCall {
+  toolUseId: string;
+  parentRequestId: string;
+  description: string;
+  subagentType?: string;
+  prompt: string;
+  requestIds: string[];
+  resultRequestId?: string;
+  result?: string;
+  isError?: boolean;
+  children: SubagentCall[];
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface CostSummary {
+  pricingVersion: string;
+  total: number;
+  perRequest: Array<{ requestId: string; timestamp: string; model: string; cost: number }>;
+  bySession: Array<{ sessionId: string; requests: number; cost: number }>;
+  byModel: Array<{ model: string; requests: number; cost: number }>;
+  byDay: Array<{ day: string; requests: number; cost: number }>;
+  unpricedModels: string[];
+}
+
+export interface ContextTurn {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  total: number;
+  limit: number;
+  system: number;
+  tools: number;
+  history: number;
+  messages: number;
+}
+
+export interface CompactionEvent {
+  requestId: string;
+  timestamp: string;
+  historyBefore: number;
+  historyAfter: number;
+  usageBefore: number;
+  kind: 'summary' | 'trim';
+}
+
+export interface SessionContext {
+  sessionId: string;
+  agentType: AgentType;
+  turns: ContextTurn[];
+  compactions: CompactionEvent[];
+  peak: number;
+}
+
+export type CacheMissReason =
+  | 'tools-changed'
+  | 'tools-reordered'
+  | 'system-changed'
+  | 'messages-changed'
+  | 'expired'
+  | 'unexplained';
+
+export interface CacheBreakpoint {
+  location: string;
+  ttl: '5m' | '1h';
+  prefixTokens: number;
+}
+
+export interface CacheMiss {
+  reason: CacheMissReason;
+  divergence?: { location: string; offset: number; before: string; after: string };
+  lostTokens: number;
+  lostCost: number;
+  gapMs: number;
+}
+
+export interface RequestCacheInfo {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  agentType: AgentType;
+  breakpoints: CacheBreakpoint[];
+  cachedPrefixTokens: number;
+  promptTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  hitRate: number;
+  previousRequestId?: string;
+  miss?: CacheMiss;
+}
+
+export interface CacheSummary {
+  requests: number;
+  withBreakpoints: number;
+  promptTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  hitRate: number;
+  misses: number;
+  missesByReason: Partial<Record<CacheMissReason, number>>;
+  lostTokens: number;
+  lostCost: number;
+  perRequest: RequestCacheInfo[];
+}
+
+export interface ServerStats {
+  totalMessages: number;
+  toolCalls: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  averageResponseTime: number;
+  cost: CostSummary;
+  latency: LatencySummary;
+  errors: ErrorSummary;
+}
+
+export interface ErrorEntry {
+  requestId: string;
+  timestamp: string;
+  model: string;
+  status?: number;
+  type: string;
+  message: string;
+  retryAfter?: string;
+  apiRequestId?: string;
+}
+
+export interface ErrorSummary {
+  responses: number;
+  errors: number;
+  pending: number;
+  byStatus: Array<{ status: string; count: number }>;
+  byType: Array<{ type: string; count: number }>;
+  byDay: Array<{ day: string; requests: number; errors: number; rateLimited: number; overloaded: number }>;
+  rateLimited: number;
+  overloaded: number;
+  latestRateLimits: { timestamp: string; limits: Record<string, string> } | null;
+  recent: ErrorEntry[];
+}
+
+export interface Percentiles {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface LatencySummary {
+  timed: number;
+  duration: Percentiles | null;
+  ttfb: Percentiles | null;
+  messageStart: Percentiles | null;
+  firstContent: Percentiles | null;
+  thinking: Percentiles | null;
+  generating: Percentiles | null;
+  interChunkP95: Percentiles | null;
+  outputTokensPerSecond: Percentiles | null;
+}
+
 export interface ToolStats {
   name: string;
   count: number;
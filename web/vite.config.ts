@@ -4,6 +4,8 @@ import tailwindcss from '@tailwindcss/vite';
 import path from 'path';
 
 export default defineConfig({
+  // Served by the proxy server under /ui
+  base: '/ui/',
   plugins: [react(), tailwindcss()],
   resolve: {
     alias: {